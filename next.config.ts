@@ -1,4 +1,13 @@
 const nextConfig = {
+  // Emscripten codec builds locate their own WASM/asm.js payloads and must not be bundled
+  serverExternalPackages: ['@cornerstonejs/codec-charls', '@cornerstonejs/codec-openjpeg'],
+  webpack: (config: { output: { workerPublicPath?: string } }, { isServer }: { isServer: boolean }) => {
+    if (isServer) {
+      // Worker threads load their chunk from disk next to the server chunks, not from /_next/
+      config.output.workerPublicPath = './';
+    }
+    return config;
+  },
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -0,0 +1,291 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { PromptTemplate } from '@/lib/prompt-templates';
+
+interface TemplateDraft {
+  id: string;
+  name: string;
+  modalities: string;
+  keywords: string;
+  prompt: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { id: '', name: '', modalities: '', keywords: '', prompt: '' };
+
+// Sent as a bearer token when the server sets ADMIN_TOKEN
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+const toDraft = (template: PromptTemplate): TemplateDraft => ({
+  id: template.id,
+  name: template.name,
+  modalities: template.modalities.join(', '),
+  keywords: template.keywords.join(', '),
+  prompt: template.prompt
+});
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export default function PromptTemplatesAdmin() {
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PromptTemplate[]>([]);
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [token, setToken] = useState('');
+  const [updatedBy, setUpdatedBy] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, []);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prompt-templates');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load templates');
+      setTemplates(data.templates);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    }
+  }, []);
+
+  const selectTemplate = useCallback(async (id: string) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/prompt-templates/${id}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load template');
+      setSelectedId(id);
+      setHistory([...data.history].reverse());
+      setDraft(toDraft(data.template));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load template');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const startNewTemplate = () => {
+    setSelectedId(null);
+    setHistory([]);
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+    setMessage(null);
+  };
+
+  const saveTemplate = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+
+    try {
+      const response = await fetch('/api/prompt-templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify({
+          id: draft.id,
+          name: draft.name,
+          modalities: splitList(draft.modalities),
+          keywords: splitList(draft.keywords),
+          prompt: draft.prompt,
+          updatedBy
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error([data.error, ...(data.details || [])].filter(Boolean).join(': '));
+      }
+
+      setMessage(`Saved ${data.template.id} as version ${data.template.version}`);
+      await loadTemplates();
+      await selectTemplate(data.template.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-gray-900">Prompt Templates</h1>
+        <p className="text-gray-600">
+          Analysis prompts selected by modality and body part. Saving creates a new version; batch results record the version they used.
+        </p>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-700">{error}</AlertDescription>
+        </Alert>
+      )}
+      {message && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-700">{message}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Templates</CardTitle>
+            <CardDescription>Latest version of each template</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => selectTemplate(template.id)}
+                className={`w-full text-left p-3 rounded border transition-colors ${
+                  template.id === selectedId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{template.name}</span>
+                  <Badge variant="outline">v{template.version}</Badge>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {template.id} · {template.modalities.length > 0 ? template.modalities.join(', ') : 'any modality'}
+                </div>
+              </button>
+            ))}
+            <Button variant="outline" className="w-full" onClick={startNewTemplate}>
+              New template
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{selectedId ? `Edit ${draft.name || selectedId}` : 'New template'}</CardTitle>
+            <CardDescription>
+              Modalities and keywords are comma separated; leave either empty to match anything
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-id">ID</Label>
+                <Input
+                  id="template-id"
+                  value={draft.id}
+                  disabled={selectedId !== null}
+                  placeholder="ct-chest"
+                  onChange={event => setDraft({ ...draft, id: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={draft.name}
+                  onChange={event => setDraft({ ...draft, name: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-modalities">Modalities</Label>
+                <Input
+                  id="template-modalities"
+                  value={draft.modalities}
+                  placeholder="CT, MR"
+                  onChange={event => setDraft({ ...draft, modalities: event.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-keywords">Body part keywords</Label>
+                <Input
+                  id="template-keywords"
+                  value={draft.keywords}
+                  placeholder="CHEST, THORAX, LUNG"
+                  onChange={event => setDraft({ ...draft, keywords: event.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-prompt">Prompt</Label>
+              <Textarea
+                id="template-prompt"
+                value={draft.prompt}
+                rows={16}
+                className="font-mono text-sm"
+                onChange={event => setDraft({ ...draft, prompt: event.target.value })}
+              />
+              <p className="text-xs text-gray-500">
+                Batch context, the running case summary and the JSON output format are appended automatically.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="admin-token">Admin token</Label>
+                <Input
+                  id="admin-token"
+                  type="password"
+                  value={token}
+                  onChange={event => setToken(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="updated-by">Your name</Label>
+                <Input
+                  id="updated-by"
+                  value={updatedBy}
+                  onChange={event => setUpdatedBy(event.target.value)}
+                />
+              </div>
+            </div>
+
+            <Button onClick={saveTemplate} disabled={saving || !draft.id || !draft.name || !draft.prompt}>
+              {saving ? 'Saving...' : 'Save as new version'}
+            </Button>
+
+            {history.length > 0 && (
+              <div className="space-y-2 pt-4 border-t">
+                <h3 className="font-medium">Version history</h3>
+                <ScrollArea className="h-48 rounded border">
+                  <div className="divide-y">
+                    {history.map(version => (
+                      <div key={version.version} className="flex items-center justify-between p-3 text-sm">
+                        <div>
+                          <span className="font-medium">Version {version.version}</span>
+                          <span className="text-gray-500 ml-2">
+                            {version.builtIn && version.version === 1
+                              ? 'built-in'
+                              : `${new Date(version.updatedAt).toLocaleString()}${version.updatedBy ? ` by ${version.updatedBy}` : ''}`}
+                          </span>
+                        </div>
+                        <Button variant="outline" size="sm" onClick={() => setDraft(toDraft(version))}>
+                          Load into editor
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
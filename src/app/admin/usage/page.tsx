@@ -0,0 +1,249 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { UsageBudgetOptions, UsageSummary, UsageTotals } from '@/lib/usage-ledger';
+
+type UsageResponse = UsageSummary & { budget: UsageBudgetOptions };
+
+// Shared with the prompt template editor
+const TOKEN_STORAGE_KEY = 'adminToken';
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+function TotalsCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <TableCell className="text-right">{totals.requests}</TableCell>
+      <TableCell className="text-right">{formatTokens(totals.inputTokens)}</TableCell>
+      <TableCell className="text-right">{formatTokens(totals.outputTokens)}</TableCell>
+      <TableCell className="text-right">{formatCost(totals.cost)}</TableCell>
+    </>
+  );
+}
+
+function TotalsHeads() {
+  return (
+    <>
+      <TableHead className="text-right">Requests</TableHead>
+      <TableHead className="text-right">Input tokens</TableHead>
+      <TableHead className="text-right">Output tokens</TableHead>
+      <TableHead className="text-right">Est. cost</TableHead>
+    </>
+  );
+}
+
+export default function UsageAdmin() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [token, setToken] = useState('');
+  const [usage, setUsage] = useState<UsageResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setToken(localStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, []);
+
+  const loadUsage = useCallback(async (adminToken: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/usage?month=${month}`, {
+        headers: adminToken ? { Authorization: `Bearer ${adminToken}` } : {}
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load usage');
+      setUsage(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load usage');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadUsage(localStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  }, [loadUsage]);
+
+  const refresh = () => {
+    localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    loadUsage(token);
+  };
+
+  const monthlyBudget = usage?.budget.monthlyBudget || 0;
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      <div className="space-y-2">
+        <h1 className="text-3xl font-bold text-gray-900">AI Usage</h1>
+        <p className="text-gray-600">
+          Tokens and estimated cost of AI requests. Costs use the configured model prices; cached batches cost nothing.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="usage-month">Month</Label>
+          <Input id="usage-month" type="month" value={month} onChange={event => setMonth(event.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="admin-token">Admin token</Label>
+          <Input id="admin-token" type="password" value={token} onChange={event => setToken(event.target.value)} />
+        </div>
+        <Button onClick={refresh} disabled={loading}>
+          {loading ? 'Loading...' : 'Refresh'}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-700">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {usage && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-blue-600">{usage.totals.requests}</div>
+                <div className="text-sm text-gray-600">Requests</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-green-600">{formatTokens(usage.totals.inputTokens)}</div>
+                <div className="text-sm text-gray-600">Input Tokens</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-orange-600">{formatTokens(usage.totals.outputTokens)}</div>
+                <div className="text-sm text-gray-600">Output Tokens</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-purple-600">{formatCost(usage.totals.cost)}</div>
+                <div className="text-sm text-gray-600">Estimated Cost</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Budget</CardTitle>
+              <CardDescription>
+                New sessions are refused once a cap is reached (AI_MONTHLY_BUDGET_USD, AI_USER_MONTHLY_BUDGET_USD)
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {monthlyBudget > 0 ? (
+                <>
+                  <div className="flex justify-between">
+                    <span>{formatCost(usage.totals.cost)} of {formatCost(monthlyBudget)}</span>
+                    <span>{Math.min(100, (usage.totals.cost / monthlyBudget) * 100).toFixed(0)}%</span>
+                  </div>
+                  <Progress value={Math.min(100, (usage.totals.cost / monthlyBudget) * 100)} />
+                </>
+              ) : (
+                <p className="text-gray-600">No monthly cap across users.</p>
+              )}
+              <p className="text-gray-600">
+                {usage.budget.userMonthlyBudget > 0
+                  ? `Each user may spend ${formatCost(usage.budget.userMonthlyBudget)} per month.`
+                  : 'No per-user cap.'}
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>By day</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Day</TableHead>
+                      <TotalsHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.byDay.map(day => (
+                      <TableRow key={day.day}>
+                        <TableCell>{day.day}</TableCell>
+                        <TotalsCells totals={day} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By user</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>User</TableHead>
+                      <TotalsHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.byUser.map(user => (
+                      <TableRow key={user.userId}>
+                        <TableCell>{user.userId}</TableCell>
+                        <TotalsCells totals={user} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By session</CardTitle>
+              <CardDescription>Newest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Session</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TotalsHeads />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {usage.bySession.map(session => (
+                    <TableRow key={session.sessionId}>
+                      <TableCell className="font-mono text-xs">{session.sessionId}</TableCell>
+                      <TableCell>{session.userId}</TableCell>
+                      <TableCell>{new Date(session.firstRecordedAt).toLocaleString()}</TableCell>
+                      <TotalsCells totals={session} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
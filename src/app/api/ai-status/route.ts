@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { AIGuard } from '@/lib/ai-guard';
+import { BatchScheduler } from '@/lib/batch-scheduler';
+
+/**
+ * Rate limiter and circuit breaker state of each provider used since the server started,
+ * and the batch slots in use and waited for (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  return NextResponse.json({ success: true, providers: AIGuard.status(), batches: BatchScheduler.getInstance().status() });
+}
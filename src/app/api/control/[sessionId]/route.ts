@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AIProviderName } from '@/lib/ai-provider';
+import { PromptTemplates } from '@/lib/prompt-templates';
+import { ControlResult, SessionControl } from '@/lib/session-control';
+import { SessionStore } from '@/lib/session-store';
+
+type ControlAction = 'pause' | 'resume' | 'cancel' | 'retry-failed' | 'rerun-batch';
+
+interface ControlRequest {
+  action: ControlAction;
+  /** Batch to re-run, counted from 0 as in /api/process-batch */
+  batchIndex?: number;
+  /** Re-run with this prompt template instead of the one selected from the metadata */
+  templateId?: string;
+  /** Re-run with this provider and model; not for consensus sessions */
+  provider?: AIProviderName;
+  model?: string;
+}
+
+const ACTIONS: ControlAction[] = ['pause', 'resume', 'cancel', 'retry-failed', 'rerun-batch'];
+const PROVIDERS: AIProviderName[] = ['openai', 'anthropic', 'mock'];
+
+/**
+ * Pause, resume or cancel a session, retry its failed batches or re-run one batch, e.g.
+ * POST /api/control/abc {"action":"rerun-batch","batchIndex":2,"templateId":"ct-chest"}
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await params;
+    const body: ControlRequest = await request.json();
+
+    if (!ACTIONS.includes(body.action)) {
+      return NextResponse.json(
+        { error: `action must be one of ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const store = SessionStore.getInstance();
+    const session = await store.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    let result: ControlResult;
+    switch (body.action) {
+      case 'pause':
+        result = await SessionControl.pause(sessionId);
+        break;
+      case 'resume':
+        result = await SessionControl.resume(sessionId);
+        break;
+      case 'cancel':
+        result = await SessionControl.cancel(sessionId);
+        break;
+      case 'retry-failed':
+        result = await SessionControl.retryFailed(sessionId);
+        break;
+      case 'rerun-batch': {
+        const { batchIndex, templateId, provider, model } = body;
+        if (!Number.isInteger(batchIndex) || batchIndex! < 0 || batchIndex! >= session.totalBatches) {
+          return NextResponse.json(
+            { error: `batchIndex must be between 0 and ${session.totalBatches - 1}` },
+            { status: 400 }
+          );
+        }
+        if (templateId && !await PromptTemplates.get(templateId)) {
+          return NextResponse.json(
+            { error: `Unknown prompt template: ${templateId}` },
+            { status: 400 }
+          );
+        }
+        if (provider && !PROVIDERS.includes(provider)) {
+          return NextResponse.json(
+            { error: `provider must be one of ${PROVIDERS.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        if (session.consensus && (provider || model)) {
+          return NextResponse.json(
+            { error: 'Batches of a consensus session are read by every model in AI_CONSENSUS_MODELS' },
+            { status: 400 }
+          );
+        }
+        result = await SessionControl.rerunBatch(sessionId, batchIndex!, {
+          templateId: templateId || undefined,
+          provider: provider || undefined,
+          model: model?.trim() || undefined
+        });
+        break;
+      }
+    }
+
+    if (!result.applied) {
+      return NextResponse.json(
+        { error: result.reason },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, sessionId, action: body.action, job: result.job });
+
+  } catch (error) {
+    console.error('Session control error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to control session',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
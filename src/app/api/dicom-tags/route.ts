@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DicomConverter } from '@/lib/dicom-converter';
+import { DicomTagDump } from '@/lib/dicom-tag-dump';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = (formData.get('file') || formData.get('dicom')) as File | null;
+
+    if (!file) {
+      return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 });
+    }
+
+    const dicomBuffer = Buffer.from(await file.arrayBuffer());
+
+    if (!DicomConverter.isDicomFile(dicomBuffer)) {
+      return NextResponse.json({ success: false, error: 'File is not a DICOM file' }, { status: 400 });
+    }
+
+    // PHI is masked unless the caller explicitly asks for raw values
+    const maskPhi = formData.get('maskPhi') !== 'false';
+    const dump = DicomTagDump.dump(dicomBuffer, { maskPhi });
+
+    return NextResponse.json({
+      success: true,
+      fileName: file.name,
+      maskPhi,
+      ...dump
+    });
+
+  } catch (error) {
+    console.error('DICOM tag dump error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to parse DICOM file',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Tags of an uploaded instance, e.g. GET /api/dicom-tags?sessionId=abc&imageId=file_1. They
+ * were kept masked at upload, so PHI cannot be unmasked here.
+ */
+export async function GET(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+  const imageId = request.nextUrl.searchParams.get('imageId');
+
+  if (!sessionId || !imageId) {
+    return NextResponse.json({
+      message: 'DICOM tag dump endpoint',
+      usage: 'POST with multipart/form-data containing DICOM file, optionally maskPhi=false for unmasked values; ' +
+        'or GET with sessionId and imageId for an uploaded instance'
+    });
+  }
+
+  try {
+    const dump = await DicomTagDump.load(sessionId, imageId);
+    if (!dump) {
+      return NextResponse.json({ success: false, error: 'No DICOM tags kept for this image' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      imageId,
+      maskPhi: true,
+      ...dump
+    });
+
+  } catch (error) {
+    console.error('DICOM tag lookup error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to read DICOM tags',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
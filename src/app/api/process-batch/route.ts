@@ -1,37 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AIProvider, AIProviderName, getAIProviderConfig } from '@/lib/ai-provider';
+import { aiErrorStatus, createGuardedAIProvider } from '@/lib/ai-guard';
+import { StructuredAnalysisResult, StructuredFindings, structuredOutputInstructions } from '@/lib/structured-findings';
+import { BatchStreams } from '@/lib/batch-streams';
+import { CaseSynthesis, caseContextPrompt } from '@/lib/case-synthesis';
+import { PromptTemplates } from '@/lib/prompt-templates';
+import { ImageBudget, getImageBudgetOptions } from '@/lib/image-budget';
+import { ResultCache } from '@/lib/result-cache';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { requestUserId } from '@/lib/request-user';
+import { Consensus, ModelReading, createConsensusProviders } from '@/lib/consensus';
+import { DiagnosticFinding, DicomMetadata } from '@/types/medical';
 
 interface ProcessBatchRequest {
   sessionId: string;
   batchIndex: number;
   images: string[];
+  /** Ids of the images, in the same order; findings in the result refer to these */
+  imageIds?: string[];
+  /** Where this batch sits within its series, see SeriesOrganizer.describeBatch */
+  seriesContext?: string;
+  /** Running summary returned by the previous batch of the session */
+  caseSummary?: string;
+  /** Metadata of the batch's first image; selects the prompt template */
+  metadata?: DicomMetadata;
+  /** false skips the result cache lookup; the fresh result still replaces the cached one */
+  cache?: boolean;
+  /** Read the batch with every model in AI_CONSENSUS_MODELS and flag disagreements */
+  consensus?: boolean;
+  /** Prompt template id to use instead of the one selected from the metadata */
+  templateId?: string;
+  /** Read with this provider and model instead of AI_PROVIDER and AI_MODEL; not with consensus */
+  provider?: AIProviderName;
+  model?: string;
 }
 
-interface OpenRouterMessage {
-  role: 'user' | 'assistant';
-  content: Array<{
-    type: 'text' | 'image_url';
-    text?: string;
-    image_url?: {
-      url: string;
-    };
-  }>;
+/**
+ * A result whose findings refer to images by position ("image_2") with the batch's own ids
+ */
+function withImageIds<T extends { findings?: DiagnosticFinding[] }>(result: T, imageIds: string[]): T & { imageIds: string[] } {
+  const toImageId = (id: string) => imageIds[Number(id.match(/^image_(\d+)$/)?.[1]) - 1] ?? id;
+  return {
+    ...result,
+    imageIds,
+    findings: result.findings?.map(finding => ({ ...finding, relatedImages: [...new Set(finding.relatedImages.map(toImageId))] }))
+  };
 }
 
-const MEDICAL_ANALYSIS_PROMPT = `You are an expert radiologist analyzing medical images. Please provide a comprehensive diagnostic analysis for the following medical images. For each image or set of images, please include:
-
-1. **Image Quality Assessment**: Comment on image quality, positioning, and technical factors
-2. **Anatomical Structures**: Identify and describe relevant anatomical structures visible
-3. **Pathological Findings**: Detail any abnormal findings, lesions, or pathological changes
-4. **Differential Diagnosis**: Provide potential diagnoses based on imaging findings
-5. **Recommendations**: Suggest additional imaging, follow-up, or clinical correlation if needed
-6. **Urgency Level**: Indicate if findings require immediate attention
-
-Please structure your response clearly for each image and provide a summary at the end. Use standard medical terminology and be thorough in your analysis.`;
-
 export async function POST(request: NextRequest) {
   try {
     const body: ProcessBatchRequest = await request.json();
-    const { sessionId, batchIndex, images } = body;
+    const { sessionId, batchIndex, images, seriesContext, caseSummary, metadata } = body;
 
     if (!sessionId || batchIndex === undefined || !images || images.length === 0) {
       return NextResponse.json(
@@ -40,92 +59,233 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (images.length > 20) {
+    if (body.consensus && (body.provider || body.model)) {
       return NextResponse.json(
-        { error: 'Maximum 20 images per batch allowed' },
+        { error: 'A provider or model cannot be chosen for a consensus reading' },
         { status: 400 }
       );
     }
 
-    // Prepare messages for OpenRouter API
-    const content: OpenRouterMessage['content'] = [
-      {
-        type: 'text',
-        text: MEDICAL_ANALYSIS_PROMPT
+    const provider = createGuardedAIProvider(getAIProviderConfig(body.provider, body.model));
+    let consensusProviders: AIProvider[] | undefined;
+    if (body.consensus) {
+      consensusProviders = createConsensusProviders();
+      if (consensusProviders.length < 2) {
+        return NextResponse.json(
+          { error: 'Consensus reading needs at least two models in AI_CONSENSUS_MODELS' },
+          { status: 400 }
+        );
       }
-    ];
-
-    // Add images to the content
-    images.forEach((imageBase64, index) => {
-      content.push({
-        type: 'image_url',
-        image_url: {
-          url: `data:image/png;base64,${imageBase64}`
+    }
+    const budget = { ...getImageBudgetOptions(), provider: provider.name };
+
+    if (images.length > budget.maxImagesPerRequest) {
+      return NextResponse.json(
+        { error: `Maximum ${budget.maxImagesPerRequest} images per batch allowed` },
+        { status: 400 }
+      );
+    }
+
+    // The model sees images by position, so the same images make the same prompt and cache
+    // key in every upload; findings are mapped to imageIds before the result is returned
+    const positionalIds = images.map((_, index) => `image_${index + 1}`);
+    const imageIds = body.imageIds?.length === images.length ? body.imageIds : positionalIds;
+
+    const template = body.templateId
+      ? await PromptTemplates.get(body.templateId)
+      : await PromptTemplates.select(metadata);
+    if (!template) {
+      return NextResponse.json(
+        { error: `Unknown prompt template: ${body.templateId}` },
+        { status: 400 }
+      );
+    }
+    const cacheKey = ResultCache.key({
+      images,
+      promptTemplate: PromptTemplates.ref(template),
+      provider: provider.name,
+      // A consensus result depends on every model that took part
+      model: consensusProviders ? consensusProviders.map(Consensus.label).join('+') : provider.model,
+      budget,
+      seriesContext,
+      caseSummary
+    });
+
+    const cached = body.cache === false
+      ? null
+      : await ResultCache.get<Record<string, unknown> & { findings?: DiagnosticFinding[] }>(cacheKey);
+    if (cached) {
+      // Replayed to stream subscribers so the dashboard shows the output as usual
+      BatchStreams.start(sessionId, batchIndex);
+      BatchStreams.append(sessionId, batchIndex, String(cached.result.analysis ?? ''));
+      await BatchStreams.finish(sessionId, batchIndex, 'completed');
+
+      return NextResponse.json({
+        success: true,
+        result: {
+          ...withImageIds(cached.result, imageIds),
+          sessionId,
+          batchIndex,
+          cached: true,
+          cacheKey,
+          // Nothing was sent to the provider
+          usage: { inputTokens: 0, outputTokens: 0, cost: 0 },
+          cachedAt: cached.createdAt,
+          processedAt: new Date().toISOString()
         }
       });
-    });
+    }
 
-    const messages: OpenRouterMessage[] = [
-      {
-        role: 'user',
-        content: content
-      }
-    ];
-
-    // Make request to OpenRouter API
-    const openRouterResponse = await fetch('https://oi-server.onrender.com/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
-        'CustomerId': process.env.CUSTOMER_ID || 'default-customer'
-      },
-      body: JSON.stringify({
-        model: 'openrouter/anthropic/claude-3.5-sonnet',
-        messages: messages,
-        max_tokens: 4000,
-        temperature: 0.1,
-        stream: false
-      })
-    });
+    // Converted uploads arrive as data URLs; they are downscaled, and tiled where enabled
+    const prepared = (await Promise.all(images.map((image, index) =>
+      ImageBudget.prepare(image, positionalIds[index], metadata, budget)
+    ))).flat();
+    const imageTokens = prepared.reduce((sum, image) => sum + image.tokens, 0);
 
-    if (!openRouterResponse.ok) {
-      const errorText = await openRouterResponse.text();
-      console.error('OpenRouter API Error:', errorText);
+    // A single image over budget cannot be split further and is sent as it is
+    if (imageTokens > budget.requestTokenBudget && images.length > 1) {
       return NextResponse.json(
-        { 
-          error: 'AI analysis failed',
-          details: `API returned ${openRouterResponse.status}: ${errorText}`
+        {
+          error: 'Batch exceeds the image token budget',
+          details: `Estimated ${imageTokens} image tokens, budget is ${budget.requestTokenBudget}; send fewer images per batch`
         },
-        { status: 500 }
+        { status: 413 }
       );
     }
 
-    const aiResponse = await openRouterResponse.json();
-    
-    if (!aiResponse.choices || !aiResponse.choices[0] || !aiResponse.choices[0].message) {
+    const prompt = [
+      template.prompt,
+      seriesContext,
+      ImageBudget.describeTiles(prepared),
+      caseContextPrompt(caseSummary),
+      structuredOutputInstructions(prepared.map(image => image.id))
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+    // The model's text is streamed to dashboard subscribers as it is written. The call stops
+    // when the batch is aborted from the dashboard or the caller goes away.
+    const abortSignal = AbortSignal.any([BatchStreams.start(sessionId, batchIndex), request.signal]);
+    let structured: StructuredAnalysisResult;
+    let readings: ModelReading[];
+
+    try {
+      const analysisRequest = {
+        prompt,
+        images: prepared.map(image => image.image),
+        estimatedInputTokens: Math.ceil(prompt.length / 4) + imageTokens,
+        signal: abortSignal,
+        onText: (delta: string) => BatchStreams.append(sessionId, batchIndex, delta),
+        onRetry: () => BatchStreams.reset(sessionId, batchIndex)
+      };
+      if (consensusProviders) {
+        ({ primary: structured, readings } = await Consensus.read(consensusProviders, analysisRequest));
+      } else {
+        structured = await StructuredFindings.analyze(provider, analysisRequest);
+        readings = [{ label: Consensus.label(provider), result: structured }];
+      }
+    } catch (error) {
+      if (abortSignal.aborted) {
+        await BatchStreams.finish(sessionId, batchIndex, 'aborted');
+        return NextResponse.json(
+          { error: 'Batch aborted', aborted: true },
+          { status: 409 }
+        );
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await BatchStreams.finish(sessionId, batchIndex, 'error', message);
+      console.error(`${provider.name} API Error:`, error);
+      // The client retries only failures marked retryable, after Retry-After when given
+      const { status, retryable, headers } = aiErrorStatus(error);
       return NextResponse.json(
-        { error: 'Invalid response from AI service' },
-        { status: 500 }
+        { 
+          error: 'AI analysis failed',
+          details: message,
+          retryable
+        },
+        { status, headers }
       );
     }
 
-    const analysisResult = aiResponse.choices[0].message.content;
+    await BatchStreams.finish(sessionId, batchIndex, 'completed');
 
-    // Store the batch result (in a real app, you'd use a database)
-    // For now, we'll return the result directly
+    // Every model that answered is billed, consensus or not
+    const recorded = await Promise.all(readings.map(({ result }) => result?.usage && UsageLedger.record({
+      sessionId,
+      userId: requestUserId(request),
+      kind: 'batch',
+      batchIndex,
+      provider: result.response.provider,
+      model: result.response.model,
+      ...result.usage
+    }).catch(error => {
+      console.error('Failed to record token usage:', error);
+      return undefined;
+    })));
+    const usage = recorded.some(Boolean)
+      ? recorded.reduce((sum, record) => ({
+        inputTokens: sum.inputTokens + (record?.inputTokens ?? 0),
+        outputTokens: sum.outputTokens + (record?.outputTokens ?? 0),
+        cost: sum.cost + (record?.cost ?? 0)
+      }), { inputTokens: 0, outputTokens: 0, cost: 0 })
+      : undefined;
+
+    readings.forEach(({ result }) => result?.analysis?.findings.forEach(finding => {
+      finding.relatedImageIds = ImageBudget.toSourceIds(finding.relatedImageIds, prepared);
+    }));
+    const consensus = consensusProviders ? Consensus.align(readings) : undefined;
+
+    if (!structured.analysis) {
+      console.warn(`Batch ${batchIndex}: AI output failed validation after ${structured.attempts} attempts:`, structured.validationErrors);
+    }
+
+    // BatchProcessor stores the result with the session's batch
     const batchResult = {
       sessionId,
       batchIndex,
       imageCount: images.length,
-      analysis: analysisResult,
+      estimatedImageTokens: imageTokens,
+      usage,
+      // Raw model text is kept even when structured output could not be recovered
+      analysis: structured.rawText,
+      structured: Boolean(structured.analysis),
+      findings: consensus?.findings ?? (structured.analysis ? StructuredFindings.toDiagnosticFindings(structured.analysis) : []),
+      recommendations: consensus
+        ? [...new Set(readings.flatMap(({ result }) => result?.analysis?.recommendations ?? []))]
+        : structured.analysis?.recommendations ?? [],
+      urgency: consensus?.urgency ?? structured.analysis?.urgency,
+      consensus: consensus && {
+        agreement: consensus.agreement,
+        discordant: consensus.discordant,
+        requiresReview: consensus.requiresReview,
+        disagreements: consensus.disagreements,
+        models: consensus.models
+      },
+      impression: structured.analysis?.impression,
+      caseSummary: CaseSynthesis.nextSummary(caseSummary, batchIndex + 1, structured.analysis),
+      validationErrors: structured.validationErrors,
+      promptTemplate: PromptTemplates.ref(template),
+      provider: structured.response.provider,
+      model: structured.response.model,
       processedAt: new Date().toISOString(),
       status: 'completed'
     };
 
+    // Cached with positional image ids. Only validated output is reused; a failed parse is
+    // worth another model call, and so is a consensus reading that a model failed, since the
+    // comparison it lacked would be cached with it.
+    if (readings.every(reading => !reading.error && reading.result?.analysis)) {
+      await ResultCache.set(cacheKey, {
+        provider: provider.name,
+        model: consensusProviders ? consensusProviders.map(Consensus.label).join('+') : provider.model,
+        promptTemplate: batchResult.promptTemplate,
+        imageCount: images.length
+      }, batchResult).catch(error => console.error('Failed to cache batch result:', error));
+    }
+
     return NextResponse.json({
       success: true,
-      result: batchResult
+      result: { ...withImageIds(batchResult, imageIds), cached: false, cacheKey }
     });
 
   } catch (error) {
@@ -140,6 +300,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Abort a batch while the model is still writing, e.g. DELETE /api/process-batch?sessionId=abc&batchIndex=2
+ */
+export async function DELETE(request: NextRequest) {
+  const sessionId = request.nextUrl.searchParams.get('sessionId');
+  const batchIndex = Number(request.nextUrl.searchParams.get('batchIndex'));
+
+  if (!sessionId || !Number.isInteger(batchIndex)) {
+    return NextResponse.json(
+      { error: 'Missing required parameters: sessionId and batchIndex' },
+      { status: 400 }
+    );
+  }
+
+  if (!BatchStreams.abort(sessionId, batchIndex)) {
+    return NextResponse.json(
+      { error: 'Batch is not being processed' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true, sessionId, batchIndex, aborted: true });
+}
+
 export async function GET(request: NextRequest) {
   return NextResponse.json(
     { error: 'Method not allowed. Use POST to process batches.' },
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PromptTemplates } from '@/lib/prompt-templates';
+
+/**
+ * A template with its version history; ?version=N returns that version instead of the latest
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ templateId: string }> }
+) {
+  try {
+    const { templateId } = await params;
+    const history = await PromptTemplates.history(templateId);
+
+    if (history.length === 0) {
+      return NextResponse.json(
+        { error: 'Prompt template not found' },
+        { status: 404 }
+      );
+    }
+
+    const version = request.nextUrl.searchParams.get('version');
+    const template = version
+      ? history.find(entry => entry.version === Number(version))
+      : history[history.length - 1];
+
+    if (!template) {
+      return NextResponse.json(
+        { error: `Version ${version} of ${templateId} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, template, history });
+
+  } catch (error) {
+    console.error('Prompt template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load prompt template' },
+      { status: 500 }
+    );
+  }
+}
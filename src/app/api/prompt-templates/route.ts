@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { requireAdmin } from '@/lib/admin-auth';
+import { PromptTemplates } from '@/lib/prompt-templates';
+
+/**
+ * Latest version of every prompt template. With modality, bodyPart or description query
+ * parameters the response also names the template those would select.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const templates = await PromptTemplates.list();
+
+    const modality = searchParams.get('modality') || undefined;
+    const bodyPart = searchParams.get('bodyPart') || undefined;
+    const description = searchParams.get('description') || undefined;
+    const selected = modality || bodyPart || description
+      ? PromptTemplates.ref(await PromptTemplates.select({
+        modality,
+        bodyPartExamined: bodyPart,
+        studyDescription: description
+      }))
+      : undefined;
+
+    return NextResponse.json({ success: true, templates, selected });
+
+  } catch (error) {
+    console.error('Prompt template list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load prompt templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Save a template as a new version (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const body = await request.json();
+    const template = await PromptTemplates.save(
+      body,
+      typeof body.updatedBy === 'string' && body.updatedBy.trim() ? body.updatedBy.trim() : undefined
+    );
+
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid prompt template',
+          details: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Prompt template save error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save prompt template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
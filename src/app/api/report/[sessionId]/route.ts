@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { BatchProcessor } from '@/lib/batch-processor';
+import { SessionStore } from '@/lib/session-store';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { DiagnosticFinding } from '@/types/medical';
 
-// Create a global batch processor instance
-let globalBatchProcessor: BatchProcessor | null = null;
-
-function getBatchProcessor(): BatchProcessor {
-  if (!globalBatchProcessor) {
-    globalBatchProcessor = new BatchProcessor();
-  }
-  return globalBatchProcessor;
-}
+// Finding severity on the report page's scale
+const SEVERITY_SCALE: Record<DiagnosticFinding['severity'], string> = {
+  low: 'low',
+  moderate: 'medium',
+  high: 'high',
+  critical: 'critical'
+};
 
 export async function GET(
   _request: NextRequest,
-  { params }: { params: { sessionId: string } }
+  { params }: { params: Promise<{ sessionId: string }> }
 ) {
   try {
-    const { sessionId } = params;
+    const { sessionId } = await params;
     
     if (!sessionId) {
       return NextResponse.json({ 
@@ -25,8 +25,7 @@ export async function GET(
       }, { status: 400 });
     }
 
-    const batchProcessor = getBatchProcessor();
-    const session = batchProcessor.getSession(sessionId);
+    const session = await SessionStore.getInstance().getSession(sessionId);
     
     if (!session) {
       return NextResponse.json({ 
@@ -35,7 +34,8 @@ export async function GET(
       }, { status: 404 });
     }
 
-    if (!session.finalReport) {
+    const report = session.report;
+    if (!report) {
       return NextResponse.json({ 
         success: false, 
         error: 'Report not ready yet. Processing may still be in progress.' 
@@ -45,31 +45,40 @@ export async function GET(
     return NextResponse.json({
       success: true,
       report: {
-        sessionId: session.finalReport.sessionId,
-        patientInfo: session.finalReport.patientInfo,
-        summary: session.finalReport.summary,
-        findings: session.finalReport.findings,
-        recommendations: session.finalReport.recommendations,
-        batchReports: session.finalReport.batchReports.map(batch => ({
-          batchId: batch.batchId,
-          imageCount: batch.imageCount,
-          findings: batch.findings,
-          keyObservations: batch.keyObservations,
-          processingTime: batch.processingTime
-        })),
-        generatedAt: session.finalReport.generatedAt,
+        sessionId: report.sessionId,
+        patientInfo: report.patientInfo,
+        summary: report.summary,
+        findings: report.findings.map(finding => ({ ...finding, severity: SEVERITY_SCALE[finding.severity] })),
+        recommendations: report.recommendations,
+        urgency: report.urgency,
+        requiresReview: report.requiresReview ?? false,
+        batchReports: report.batchReports.map(batchReport => {
+          const batch = session.batches.find(candidate => candidate.batchNumber === batchReport.batchNumber);
+          return {
+            batchId: batch?.id ?? `${session.id}-${batchReport.batchNumber}`,
+            imageCount: batchReport.imageCount,
+            findings: batchReport.findings,
+            keyObservations: batchReport.keyObservations,
+            urgency: batchReport.urgency,
+            processingTime: batch?.startedAt && batch.completedAt
+              ? batch.completedAt.getTime() - batch.startedAt.getTime()
+              : 0
+          };
+        }),
+        generatedAt: report.createdAt.toISOString(),
         statistics: {
           totalImages: session.totalImages,
-          totalBatches: session.batches.length,
-          totalProcessingTime: session.endTime && session.startTime 
-            ? Math.round((session.endTime.getTime() - session.startTime.getTime()) / 1000)
+          totalBatches: session.totalBatches,
+          totalProcessingTime: session.completedAt
+            ? Math.round((session.completedAt.getTime() - session.startedAt.getTime()) / 1000)
             : 0,
           findingsBreakdown: {
-            critical: session.finalReport.findings.filter(f => f.severity === 'critical').length,
-            high: session.finalReport.findings.filter(f => f.severity === 'high').length,
-            medium: session.finalReport.findings.filter(f => f.severity === 'medium').length,
-            low: session.finalReport.findings.filter(f => f.severity === 'low').length
-          }
+            critical: report.findings.filter(f => f.severity === 'critical').length,
+            high: report.findings.filter(f => f.severity === 'high').length,
+            medium: report.findings.filter(f => f.severity === 'moderate').length,
+            low: report.findings.filter(f => f.severity === 'low').length
+          },
+          usage: await UsageLedger.sessionTotals(sessionId)
         }
       }
     });
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ResultCache } from '@/lib/result-cache';
+
+/**
+ * One cached batch result, including the stored result (admin only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { key } = await params;
+  if (!ResultCache.isKey(key)) {
+    return NextResponse.json(
+      { error: 'Invalid cache key' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const entry = await ResultCache.inspect(key);
+    if (!entry) {
+      return NextResponse.json(
+        { error: 'Cache entry not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, entry });
+
+  } catch (error) {
+    console.error('Result cache read error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read cache entry' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove one cached batch result (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { key } = await params;
+  if (!ResultCache.isKey(key)) {
+    return NextResponse.json(
+      { error: 'Invalid cache key' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await ResultCache.delete(key))) {
+      return NextResponse.json(
+        { error: 'Cache entry not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, key, removed: true });
+
+  } catch (error) {
+    console.error('Result cache delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete cache entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { ResultCache } from '@/lib/result-cache';
+
+/**
+ * Cached batch results without their content, newest first, with totals (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const entries = await ResultCache.list();
+    return NextResponse.json({
+      success: true,
+      totals: {
+        entries: entries.length,
+        bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+        hits: entries.reduce((sum, entry) => sum + entry.hits, 0)
+      },
+      entries
+    });
+
+  } catch (error) {
+    console.error('Result cache list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list cached results' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Purge cached results (admin only). Without parameters everything is removed; model,
+ * templateId and createdBefore (ISO date) narrow the purge, e.g.
+ * DELETE /api/result-cache?templateId=ct-chest
+ */
+export async function DELETE(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const createdBefore = searchParams.get('createdBefore');
+  if (createdBefore && Number.isNaN(Date.parse(createdBefore))) {
+    return NextResponse.json(
+      { error: 'createdBefore must be an ISO date' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await ResultCache.purge({
+      model: searchParams.get('model') || undefined,
+      templateId: searchParams.get('templateId') || undefined,
+      createdBefore: createdBefore ? new Date(createdBefore) : undefined
+    });
+    return NextResponse.json({ success: true, removed });
+
+  } catch (error) {
+    console.error('Result cache purge error:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge cached results' },
+      { status: 500 }
+    );
+  }
+}
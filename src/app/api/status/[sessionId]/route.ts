@@ -1,162 +1,112 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { readFile } from 'fs/promises';
-import { join } from 'path';
+import { ProcessingJob, SessionStore } from '@/lib/session-store';
+import { SessionPriorities } from '@/lib/session-priority';
+import { ProcessingBatch, ProcessingSession } from '@/types/medical';
 
-interface ProcessingStatus {
-  sessionId: string;
-  status: 'uploading' | 'converting' | 'processing' | 'completed' | 'error';
-  totalImages: number;
-  processedImages: number;
-  currentBatch: number;
-  totalBatches: number;
-  completedBatches: number;
-  errors: string[];
-  startTime: string;
-  endTime?: string;
-  progress: number;
-  message: string;
-  convertedImages: number;
-  failedConversions: number;
-  aiProcessingResults: any[];
-}
+// The dashboard calls failures 'failed'
+const toClientStatus = <T extends string>(status: T): T | 'failed' => (status === 'error' ? 'failed' : status);
+
+const batchTime = (batch: ProcessingBatch): number | undefined =>
+  batch.startedAt && batch.completedAt ? batch.completedAt.getTime() - batch.startedAt.getTime() : undefined;
 
+/**
+ * Progress of a stored session: counts, each batch's state and, once finished, a summary
+ * of the report
+ */
 export async function GET(
-  request: NextRequest,
-  { params }: { params: { sessionId: string } }
+  _request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
 ) {
   try {
-    const { sessionId } = params;
+    const { sessionId } = await params;
 
     if (!sessionId) {
       return NextResponse.json(
-        { error: 'Session ID is required' },
+        { success: false, error: 'Session ID is required' },
         { status: 400 }
       );
     }
 
-    // Try to read status file from temp directory
-    const statusFilePath = join(process.cwd(), 'temp', `${sessionId}_status.json`);
-    
-    try {
-      const statusData = await readFile(statusFilePath, 'utf-8');
-      const status: ProcessingStatus = JSON.parse(statusData);
-      
-      return NextResponse.json(status);
-    } catch (fileError) {
-      // If status file doesn't exist, return default status
-      const defaultStatus: ProcessingStatus = {
-        sessionId,
-        status: 'error',
-        totalImages: 0,
-        processedImages: 0,
-        currentBatch: 0,
-        totalBatches: 0,
-        completedBatches: 0,
-        errors: ['Session not found or expired'],
-        startTime: new Date().toISOString(),
-        progress: 0,
-        message: 'Session not found',
-        convertedImages: 0,
-        failedConversions: 0,
-        aiProcessingResults: []
-      };
-
-      return NextResponse.json(defaultStatus, { status: 404 });
+    const store = SessionStore.getInstance();
+    const session = await store.getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Session not found' },
+        { status: 404 }
+      );
     }
+
+    return NextResponse.json(toStatusResponse(session, await store.getJob(sessionId)));
   } catch (error) {
     console.error('Error fetching processing status:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch processing status' },
+      { success: false, error: 'Failed to fetch processing status' },
       { status: 500 }
     );
   }
 }
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { sessionId: string } }
-) {
-  try {
-    const { sessionId } = params;
-    const updates = await request.json();
+function toStatusResponse(session: ProcessingSession, job: ProcessingJob | null) {
+  const failedBatches = session.batches.filter(batch => batch.status === 'error').length;
+  const sla = SessionPriorities.sla(session);
 
-    if (!sessionId) {
-      return NextResponse.json(
-        { error: 'Session ID is required' },
-        { status: 400 }
-      );
+  return {
+    success: true,
+    sessionId: session.id,
+    status: toClientStatus(session.status),
+    error: session.errorMessage,
+    priority: session.priority,
+    // Turnaround target from upload; the dashboard counts down to dueAt
+    sla: {
+      targetMinutes: sla.targetMinutes,
+      dueAt: sla.dueAt.toISOString(),
+      missed: sla.missed
+    },
+    progress: {
+      total: session.totalImages,
+      // Images are uploaded and converted before a session is stored
+      uploaded: session.totalImages,
+      converted: session.totalImages,
+      processed: session.processedImages,
+      currentBatch: session.currentBatch,
+      totalBatches: session.totalBatches,
+      completedBatches: session.completedBatches
+    },
+    session: {
+      sessionId: session.id,
+      totalImages: session.totalImages,
+      processedImages: session.processedImages,
+      totalBatches: session.totalBatches,
+      completedBatches: session.completedBatches,
+      failedBatches,
+      startTime: session.startedAt.toISOString(),
+      endTime: session.completedAt?.toISOString(),
+      status: session.status
+    },
+    batches: session.batches.map(batch => ({
+      batchId: batch.id,
+      imageCount: batch.images.length,
+      // Instances whose tags can be browsed through /api/dicom-tags
+      dicomImages: batch.images
+        .filter(image => image.isDicom)
+        .map(image => ({ id: image.id, name: image.originalName })),
+      status: toClientStatus(batch.status),
+      processingTime: batchTime(batch),
+      error: batch.errorMessage
+    })),
+    // Background processing: attempts include runs cut short by a restart
+    job: job && {
+      status: job.status,
+      stopRequested: job.stopRequested,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError
+    },
+    finalReport: session.report && {
+      summary: session.report.summary,
+      findingsCount: session.report.findings.length,
+      recommendationsCount: session.report.recommendations.length,
+      generatedAt: session.report.createdAt.toISOString()
     }
-
-    const statusFilePath = join(process.cwd(), 'temp', `${sessionId}_status.json`);
-    
-    let currentStatus: ProcessingStatus;
-    
-    try {
-      const statusData = await readFile(statusFilePath, 'utf-8');
-      currentStatus = JSON.parse(statusData);
-    } catch {
-      // Create new status if doesn't exist
-      currentStatus = {
-        sessionId,
-        status: 'uploading',
-        totalImages: 0,
-        processedImages: 0,
-        currentBatch: 0,
-        totalBatches: 0,
-        completedBatches: 0,
-        errors: [],
-        startTime: new Date().toISOString(),
-        progress: 0,
-        message: 'Initializing...',
-        convertedImages: 0,
-        failedConversions: 0,
-        aiProcessingResults: []
-      };
-    }
-
-    // Update status with provided updates
-    const updatedStatus = { ...currentStatus, ...updates };
-    
-    // Calculate progress based on status
-    if (updatedStatus.totalImages > 0) {
-      switch (updatedStatus.status) {
-        case 'uploading':
-          updatedStatus.progress = 10;
-          break;
-        case 'converting':
-          updatedStatus.progress = 20 + (updatedStatus.convertedImages / updatedStatus.totalImages) * 30;
-          break;
-        case 'processing':
-          updatedStatus.progress = 50 + (updatedStatus.completedBatches / updatedStatus.totalBatches) * 40;
-          break;
-        case 'completed':
-          updatedStatus.progress = 100;
-          updatedStatus.endTime = new Date().toISOString();
-          break;
-        case 'error':
-          updatedStatus.progress = Math.max(updatedStatus.progress, 0);
-          break;
-      }
-    }
-
-    // Write updated status back to file
-    const { writeFile, mkdir } = await import('fs/promises');
-    const tempDir = join(process.cwd(), 'temp');
-    
-    try {
-      await mkdir(tempDir, { recursive: true });
-    } catch (mkdirError) {
-      // Directory might already exist
-    }
-    
-    await writeFile(statusFilePath, JSON.stringify(updatedStatus, null, 2));
-
-    return NextResponse.json(updatedStatus);
-  } catch (error) {
-    console.error('Error updating processing status:', error);
-    return NextResponse.json(
-      { error: 'Failed to update processing status' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  };
+}
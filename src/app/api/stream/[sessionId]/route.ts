@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchStreamEvent, BatchStreamState, BatchStreams } from '@/lib/batch-streams';
+
+// Keeps proxies from closing an idle stream between batches
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Server-sent events with the live model output of a session's batches. The first event is a
+ * snapshot of every batch so far; delta, start and status events follow as batches stream.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await params;
+
+  let batches: BatchStreamState[];
+  try {
+    batches = await BatchStreams.snapshot(sessionId);
+  } catch (error) {
+    console.error('Stream snapshot error:', error);
+    return NextResponse.json(
+      { error: 'Invalid session ID' },
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      send('snapshot', { sessionId, batches });
+      const unsubscribe = BatchStreams.subscribe(sessionId, (event: BatchStreamEvent) => {
+        send(event.type, event);
+      });
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the runtime
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { aiErrorStatus, createGuardedAIProvider } from '@/lib/ai-guard';
+import { BatchOutcome, CaseSynthesis } from '@/lib/case-synthesis';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { requestUserId } from '@/lib/request-user';
+
+interface SynthesizeRequest {
+  sessionId: string;
+  /** Results of the session's successful batches, in batch order */
+  batches: BatchOutcome[];
+}
+
+/**
+ * Final pass over all batch results of a session (text only) producing the de-duplicated,
+ * study-level impression and findings
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body: SynthesizeRequest = await request.json();
+    const { sessionId, batches } = body;
+
+    if (!sessionId || !Array.isArray(batches)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: sessionId or batches' },
+        { status: 400 }
+      );
+    }
+
+    const provider = createGuardedAIProvider();
+    const synthesis = await CaseSynthesis.synthesize(provider, batches, request.signal);
+    if (synthesis.usage) {
+      await UsageLedger.record({
+        sessionId,
+        userId: requestUserId(request),
+        kind: 'synthesis',
+        provider: provider.name,
+        model: provider.model,
+        ...synthesis.usage
+      }).catch(error => console.error('Failed to record token usage:', error));
+    }
+
+    return NextResponse.json({
+      success: true,
+      result: {
+        sessionId,
+        ...synthesis,
+        provider: provider.name,
+        model: provider.model,
+        synthesizedAt: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Case synthesis error:', error);
+    const { status, retryable, headers } = aiErrorStatus(error);
+    return NextResponse.json(
+      {
+        error: 'Failed to synthesize study report',
+        details: error instanceof Error ? error.message : 'Unknown error',
+        retryable
+      },
+      { status, headers }
+    );
+  }
+}
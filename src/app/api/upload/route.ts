@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { DicomConverter } from '@/lib/dicom-converter';
+import { ConversionPool } from '@/lib/conversion-pool';
 import { BatchProcessor } from '@/lib/batch-processor';
-import { DicomFile, ProcessedImage } from '@/types/medical';
+import { JobWorker } from '@/lib/job-worker';
+import { StudyArchive } from '@/lib/study-archive';
+import { DicomDeidentifier, getDeidentificationOptions } from '@/lib/dicom-deidentifier';
+import { DicomTagDump, InstanceTags } from '@/lib/dicom-tag-dump';
+import { WindowPresetSelection, WindowPresets } from '@/lib/window-presets';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { requestUserId } from '@/lib/request-user';
+import { PromptTemplates } from '@/lib/prompt-templates';
+import { SESSION_PRIORITIES, SessionPriorities } from '@/lib/session-priority';
+import { DicomMetadata, ProcessedImage } from '@/types/medical';
 
 export async function POST(request: NextRequest) {
   try {
@@ -17,6 +26,39 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Monthly budget caps stop new sessions; sessions already running are finished
+    const userId = requestUserId(request);
+    const budget = await UsageLedger.checkBudget(userId);
+    if (!budget.allowed) {
+      return NextResponse.json({ 
+        success: false, 
+        error: budget.reason,
+        budget
+      }, { status: 402 });
+    }
+
+    let windowPresets: WindowPresetSelection;
+    try {
+      windowPresets = WindowPresets.parseSelection(
+        (formData.get('windowPresets') as string | null) ?? process.env.WINDOW_PRESETS
+      );
+    } catch (error) {
+      return NextResponse.json({ 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Invalid window presets' 
+      }, { status: 400 });
+    }
+
+    // Chosen by the uploader, else inferred from the DICOM order once the files are read
+    const priority = (formData.get('priority') as string | null) || undefined;
+    if (priority !== undefined && !SessionPriorities.isPriority(priority)) {
+      return NextResponse.json({ 
+        success: false, 
+        error: `priority must be one of ${SESSION_PRIORITIES.join(', ')}` 
+      }, { status: 400 });
+    }
+
+    // The limit counts uploaded files; archives may hold many more instances
     if (files.length > 200) {
       return NextResponse.json({ 
         success: false, 
@@ -24,106 +66,182 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    console.log(`Processing ${files.length} files...`);
+    // Unpack ZIP archives and CD exports, dropping non-image DICOM objects. Files are read
+    // as they are needed rather than all copied up front.
+    const ingestion = await StudyArchive.ingest(files.map(file => ({
+      name: file.name,
+      type: file.type,
+      read: async () => Buffer.from(await file.arrayBuffer())
+    })));
+    const members = ingestion.members;
+    // Converted DICOM images are de-identified here, before anything can reach the AI provider
+    const deidentificationOptions = getDeidentificationOptions();
+    const ingestionReport = {
+      ingested: members.map(member => member.name),
+      rejected: ingestion.rejected,
+      // DICOMDIR records name the patient too
+      patients: await DicomDeidentifier.deidentifyDirectory(ingestion.patients, deidentificationOptions)
+    };
+
+    console.log(`Processing ${members.length} files from ${files.length} uploads (${ingestion.rejected.length} rejected)...`);
 
-    // Process files: convert to DicomFile format and handle DICOM conversion
-    const processedImages: ProcessedImage[] = [];
+    // Process files: regular images are encoded here, DICOM files go to the conversion pool.
+    // Each member fills its own slot so the result keeps upload order.
+    const slots: ProcessedImage[][] = members.map(() => []);
+    const dicomMembers: Array<{ memberIndex: number; fileId: string }> = [];
+    // Metadata as read from the files, before de-identification removes the descriptions
+    const sourceMetadata: DicomMetadata[] = [];
+    // Masked headers, kept with the session for the tag browser
+    const instanceTags: InstanceTags[] = [];
     const errors: string[] = [];
+    const warnings: string[] = [];
 
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
+    for (let i = 0; i < members.length; i++) {
+      const file = members[i];
       
       try {
-        // Get file info from form data
-        const fileInfoStr = formData.get(`fileInfo_${i}`) as string;
+        // Get file info from form data; archive members are identified by their content
+        const fileInfoStr = file.archive ? null : formData.get(`fileInfo_${file.uploadIndex}`) as string;
         const fileInfo = fileInfoStr ? JSON.parse(fileInfoStr) : { 
           id: `file_${Date.now()}_${i}`,
-          isDicom: file.name.toLowerCase().endsWith('.dcm') || file.name.toLowerCase().endsWith('.dicom'),
+          isDicom: file.isDicom || file.name.toLowerCase().endsWith('.dcm') || file.name.toLowerCase().endsWith('.dicom'),
           originalName: file.name
         };
 
-        console.log(`Processing file ${i + 1}/${files.length}: ${file.name} (DICOM: ${fileInfo.isDicom})`);
-
-        const fileBuffer = await file.arrayBuffer();
-
         if (fileInfo.isDicom) {
-          // Convert DICOM to PNG
-          const dicomFile: DicomFile = {
-            id: fileInfo.id,
-            originalName: file.name,
-            buffer: fileBuffer,
-            size: file.size
-          };
-
           // Validate DICOM file
-          if (!DicomConverter.isDicomFile(fileBuffer)) {
+          if (!file.isDicom) {
             console.warn(`File ${file.name} is not a valid DICOM file, treating as regular image`);
             fileInfo.isDicom = false;
           } else {
-            const convertedImage = await DicomConverter.convertDicomToPng(dicomFile);
-            processedImages.push(convertedImage);
+            dicomMembers.push({ memberIndex: i, fileId: fileInfo.id });
             continue;
           }
         }
 
         // Handle regular image files
-        if (!fileInfo.isDicom) {
-          // Validate image file type
-          const validImageTypes = ['image/png', 'image/jpeg', 'image/jpg', 'image/bmp', 'image/tiff'];
-          if (!validImageTypes.includes(file.type) && !file.name.match(/\.(png|jpg|jpeg|bmp|tiff)$/i)) {
-            errors.push(`${file.name}: Unsupported file type`);
+        // Validate image file type
+        const validImageTypes = ['image/png', 'image/jpeg', 'image/jpg', 'image/bmp', 'image/tiff'];
+        if (!validImageTypes.includes(file.type) && !file.name.match(/\.(png|jpg|jpeg|bmp|tiff)$/i)) {
+          errors.push(`${file.name}: Unsupported file type`);
+          continue;
+        }
+
+        slots[i].push({
+          id: fileInfo.id,
+          originalName: file.name,
+          convertedPath: `original/${fileInfo.id}`,
+          base64Data: `data:${file.type};base64,${(await file.read()).toString('base64')}`,
+          conversionStatus: 'success'
+        });
+
+      } catch (error) {
+        console.error(`Error processing file ${file.name}:`, error);
+        errors.push(`${file.name}: Processing failed - ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    // Convert DICOM to PNG on worker threads, one image per frame and window preset,
+    // de-identifying each file as soon as its conversion finishes
+    const conversions = ConversionPool.getInstance().convertAll(
+      dicomMembers.map(({ memberIndex }) => ({ read: members[memberIndex].read, fileName: members[memberIndex].name })),
+      { windowPresets }
+    );
+    let converted = 0;
+
+    for await (const { index, results } of conversions) {
+      const { memberIndex, fileId } = dicomMembers[index];
+      const file = members[memberIndex];
+      console.log(`Converted file ${++converted}/${dicomMembers.length}: ${file.name}`);
+
+      try {
+        for (const frame of results) {
+          if (!frame.success || !frame.pngBuffer) {
+            errors.push(`${file.name}: ${frame.error || 'Conversion failed'}`);
             continue;
           }
 
-          // Convert to base64 for AI processing
-          const uint8Array = new Uint8Array(fileBuffer);
-          const binaryString = Array.from(uint8Array, byte => String.fromCharCode(byte)).join('');
-          const base64Data = `data:${file.type};base64,${btoa(binaryString)}`;
-          
-          processedImages.push({
-            id: fileInfo.id,
+          const frameSuffix = (frame.metadata?.numberOfFrames ?? 1) > 1 ? `_f${(frame.metadata?.frameIndex ?? 0) + 1}` : '';
+          const windowSuffix = frame.metadata?.windowPreset ? `_w${frame.metadata.windowPreset}` : '';
+          const frameId = `${fileId}${frameSuffix}${windowSuffix}`;
+          // Study and series descriptions pick the template but are removed by de-identification
+          const promptTemplate = await PromptTemplates.select(frame.metadata);
+          if (frame.metadata) {
+            sourceMetadata.push(frame.metadata);
+          }
+          const deidentified = await DicomDeidentifier.deidentify(
+            frame.pngBuffer,
+            frame.metadata || {},
+            deidentificationOptions
+          );
+          warnings.push(...deidentified.warnings.map(warning => `${file.name}: ${warning}`));
+
+          slots[memberIndex].push({
+            id: frameId,
             originalName: file.name,
-            convertedPath: `original/${fileInfo.id}`,
-            base64Data,
+            convertedPath: `converted/${frameId}.png`,
+            base64Data: `data:image/png;base64,${deidentified.pngBuffer.toString('base64')}`,
+            metadata: deidentified.metadata,
+            promptTemplateId: promptTemplate.id,
             conversionStatus: 'success'
           });
         }
 
+        if (slots[memberIndex].length > 0) {
+          try {
+            instanceTags.push({
+              imageIds: slots[memberIndex].map(image => image.id),
+              dump: DicomTagDump.dump(await file.read(), { maskPhi: true })
+            });
+          } catch (error) {
+            warnings.push(`${file.name}: DICOM tags not kept - ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
       } catch (error) {
         console.error(`Error processing file ${file.name}:`, error);
         errors.push(`${file.name}: Processing failed - ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
+    const processedImages = slots.flat();
+
     console.log(`Successfully processed ${processedImages.length} files, ${errors.length} errors`);
 
     if (processedImages.length === 0) {
       return NextResponse.json({ 
         success: false, 
         error: 'No files could be processed successfully',
-        details: errors
+        details: errors,
+        ingestion: ingestionReport
       }, { status: 400 });
     }
 
-    // Create processing session
-    const batchProcessor = new BatchProcessor();
-    const session = batchProcessor.createSession(processedImages);
+    // Create processing session; it is stored, so status and report routes find it
+    const batchProcessor = new BatchProcessor({
+      userId,
+      // Opt-in multi-model reading for high-stakes studies
+      consensus: formData.get('consensus') === 'true',
+      priority: priority ?? SessionPriorities.infer(sourceMetadata)
+    });
+    const session = await batchProcessor.createSession(processedImages);
+    await DicomTagDump.save(session.id, instanceTags);
     
-    console.log(`Created session ${session.sessionId} with ${session.batches.length} batches`);
+    console.log(`Created ${session.priority} session ${session.id} with ${session.batches.length} batches`);
 
-    // Start async processing (don't await - let it run in background)
-    processImagesAsync(session.sessionId, batchProcessor).catch(error => {
-      console.error('Async processing error:', error);
-    });
+    // Processed by a job worker, which resumes it if this server goes down mid-way
+    await JobWorker.enqueue(session.id);
 
     return NextResponse.json({
       success: true,
-      sessionId: session.sessionId,
+      sessionId: session.id,
       totalFiles: files.length,
       processedFiles: processedImages.length,
       batches: session.batches.length,
+      priority: session.priority,
       errors: errors.length > 0 ? errors : undefined,
-      message: `Successfully uploaded ${processedImages.length} files. Processing started.`
+      warnings: warnings.length > 0 ? warnings : undefined,
+      ingestion: ingestionReport,
+      message: `Successfully uploaded ${processedImages.length} files. Processing queued.`
     });
 
   } catch (error) {
@@ -135,22 +253,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Async function to process images in the background
-async function processImagesAsync(sessionId: string, batchProcessor: BatchProcessor) {
-  try {
-    console.log(`Starting async processing for session ${sessionId}`);
-    const report = await batchProcessor.processSession(sessionId);
-    
-    if (report) {
-      console.log(`Session ${sessionId} completed successfully`);
-    } else {
-      console.error(`Session ${sessionId} processing failed`);
-    }
-  } catch (error) {
-    console.error(`Async processing failed for session ${sessionId}:`, error);
-  }
-}
-
 // Handle preflight requests
 export async function OPTIONS() {
   return new NextResponse(null, {
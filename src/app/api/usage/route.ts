@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { UsageLedger, getUsageBudgetOptions } from '@/lib/usage-ledger';
+
+/**
+ * Token usage and estimated cost for a month (?month=YYYY-MM, default the current one),
+ * rolled up per day, user and session, with the budget caps (admin only)
+ */
+export async function GET(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) {
+    return denied;
+  }
+
+  const month = request.nextUrl.searchParams.get('month') || UsageLedger.currentMonth();
+  if (!/^\d{4}-\d{2}$/.test(month)) {
+    return NextResponse.json(
+      { error: 'month must be YYYY-MM' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const summary = await UsageLedger.summary(month);
+    return NextResponse.json({ success: true, ...summary, budget: getUsageBudgetOptions() });
+
+  } catch (error) {
+    console.error('Usage summary error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,11 +8,29 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type ControlAction = 'pause' | 'resume' | 'cancel' | 'retry-failed' | 'rerun-batch';
+type SessionPriority = 'stat' | 'urgent' | 'routine';
+
+const PRIORITY_LABELS: Record<SessionPriority, string> = { stat: 'STAT', urgent: 'Urgent', routine: 'Routine' };
+
+// Select values cannot be empty
+const AUTOMATIC = 'automatic';
 
 interface ProcessingStatus {
   success: boolean;
   sessionId: string;
-  status: 'uploading' | 'converting' | 'processing' | 'completed' | 'failed';
+  status: 'uploading' | 'converting' | 'queued' | 'processing' | 'paused' | 'completed' | 'cancelled' | 'failed';
+  priority: SessionPriority;
+  sla: {
+    targetMinutes: number;
+    dueAt: string;
+    missed: boolean;
+  };
   progress: {
     total: number;
     uploaded: number;
@@ -40,6 +58,13 @@ interface ProcessingStatus {
     processingTime?: number;
     error?: string;
   }>;
+  job?: {
+    status: string;
+    stopRequested?: 'pause' | 'cancel';
+    attempts: number;
+    maxAttempts: number;
+    lastError?: string;
+  } | null;
   finalReport?: {
     summary: string;
     findingsCount: number;
@@ -57,6 +82,15 @@ export default function ProcessingDashboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+  const [pendingAction, setPendingAction] = useState<ControlAction | null>(null);
+  const [controlError, setControlError] = useState<string | null>(null);
+  const [rerunIndex, setRerunIndex] = useState<number | null>(null);
+  const [templates, setTemplates] = useState<Array<{ id: string; name: string }>>([]);
+  const [rerunTemplate, setRerunTemplate] = useState(AUTOMATIC);
+  const [rerunProvider, setRerunProvider] = useState(AUTOMATIC);
+  const [rerunModel, setRerunModel] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const unfinished = status !== null && !['completed', 'failed', 'cancelled'].includes(status.status);
 
   // Poll for status updates
   useEffect(() => {
@@ -87,7 +121,7 @@ export default function ProcessingDashboard() {
 
     // Poll every 3 seconds while processing
     const interval = setInterval(() => {
-      if (status?.status === 'processing' || status?.status === 'converting' || !status) {
+      if (status?.status === 'queued' || status?.status === 'processing' || status?.status === 'converting' || !status) {
         fetchStatus();
       }
     }, 3000);
@@ -95,6 +129,64 @@ export default function ProcessingDashboard() {
     return () => clearInterval(interval);
   }, [sessionId, status?.status]);
 
+  // The SLA timer counts down every second until the session is finished
+  useEffect(() => {
+    if (!unfinished) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [unfinished]);
+
+  const control = async (action: ControlAction, options: Record<string, unknown> = {}) => {
+    setPendingAction(action);
+    setControlError(null);
+    try {
+      const response = await fetch(`/api/control/${sessionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ...options })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `Failed to ${action} session`);
+
+      const refreshed = await (await fetch(`/api/status/${sessionId}`)).json();
+      if (refreshed.success) {
+        setStatus(refreshed);
+        setLastUpdated(new Date());
+      }
+      return true;
+    } catch (err) {
+      setControlError(err instanceof Error ? err.message : `Failed to ${action} session`);
+      return false;
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const openRerun = async (batchIndex: number) => {
+    setRerunIndex(batchIndex);
+    setRerunTemplate(AUTOMATIC);
+    setRerunProvider(AUTOMATIC);
+    setRerunModel('');
+    if (templates.length === 0) {
+      try {
+        const data = await (await fetch('/api/prompt-templates')).json();
+        setTemplates(data.templates || []);
+      } catch (err) {
+        console.error('Prompt template fetch error:', err);
+      }
+    }
+  };
+
+  const rerunBatch = async () => {
+    const rerun = await control('rerun-batch', {
+      batchIndex: rerunIndex,
+      templateId: rerunTemplate === AUTOMATIC ? undefined : rerunTemplate,
+      provider: rerunProvider === AUTOMATIC ? undefined : rerunProvider,
+      model: rerunModel.trim() || undefined
+    });
+    if (rerun) setRerunIndex(null);
+  };
+
   // Navigate to report when completed
   const viewReport = () => {
     router.push(`/report/${sessionId}`);
@@ -130,6 +222,27 @@ export default function ProcessingDashboard() {
     return `${minutes}m ${seconds}s`;
   };
 
+  const formatSpan = (ms: number): string => {
+    const totalMinutes = Math.floor(ms / 60000);
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    const seconds = Math.floor(ms / 1000) % 60;
+
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${seconds}s`;
+  };
+
+  const getSlaText = (): string => {
+    if (!status) return '';
+    const dueAt = new Date(status.sla.dueAt).getTime();
+
+    if (status.status === 'cancelled') return `Target ${formatSpan(status.sla.targetMinutes * 60000)}`;
+    if (!unfinished) {
+      const finishedAt = status.session.endTime ? new Date(status.session.endTime).getTime() : now;
+      return status.sla.missed ? `Finished ${formatSpan(finishedAt - dueAt)} past target` : 'Finished within target';
+    }
+    return now > dueAt ? `Overdue by ${formatSpan(now - dueAt)}` : `${formatSpan(dueAt - now)} left`;
+  };
+
 
   const getStatusBadgeVariant = (statusStr: string): "default" | "secondary" | "destructive" | "outline" => {
     switch (statusStr) {
@@ -187,6 +300,12 @@ export default function ProcessingDashboard() {
     );
   }
 
+  const active = status.status === 'queued' || status.status === 'processing';
+  const finished = status.status === 'completed' || status.status === 'failed';
+  const stopRequested = status.job?.stopRequested;
+  // Checked here too, so the timer turns red the moment the target passes
+  const slaMissed = status.sla.missed || (unfinished && now > new Date(status.sla.dueAt).getTime());
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
       <div className="max-w-4xl mx-auto space-y-6">
@@ -204,12 +323,20 @@ export default function ProcessingDashboard() {
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
               Overall Progress
-              <Badge variant={getStatusBadgeVariant(status.status)} className="ml-2">
-                {status.status.charAt(0).toUpperCase() + status.status.slice(1)}
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge variant={status.priority === 'stat' ? 'destructive' : status.priority === 'urgent' ? 'secondary' : 'outline'}>
+                  {PRIORITY_LABELS[status.priority]}
+                </Badge>
+                <Badge variant={getStatusBadgeVariant(status.status)}>
+                  {status.status.charAt(0).toUpperCase() + status.status.slice(1)}
+                </Badge>
+              </div>
             </CardTitle>
-            <CardDescription>
-              Processing {status.session.totalImages} medical images
+            <CardDescription className="flex items-center justify-between">
+              <span>Processing {status.session.totalImages} medical images</span>
+              <span className={slaMissed ? 'font-medium text-red-600' : 'text-gray-600'}>
+                SLA: {getSlaText()}
+              </span>
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -246,6 +373,65 @@ export default function ProcessingDashboard() {
           </CardContent>
         </Card>
 
+        {/* Session Controls */}
+        {(active || finished || status.status === 'paused') && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Session Controls</CardTitle>
+              <CardDescription>
+                {stopRequested === 'pause'
+                  ? 'Pausing once the current batch is done'
+                  : stopRequested === 'cancel'
+                    ? 'Cancelling'
+                    : status.status === 'paused'
+                      ? 'Paused. Resume to continue with the next batch.'
+                      : finished
+                        ? 'Retry failed batches, or re-run one batch with another prompt template or model'
+                        : 'Pause stops after the current batch; cancel stops right away'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex flex-wrap gap-3">
+                {active && (
+                  <Button
+                    variant="outline"
+                    onClick={() => control('pause')}
+                    disabled={pendingAction !== null || stopRequested !== undefined}
+                  >
+                    {pendingAction === 'pause' ? 'Pausing...' : 'Pause'}
+                  </Button>
+                )}
+                {status.status === 'paused' && (
+                  <Button onClick={() => control('resume')} disabled={pendingAction !== null}>
+                    {pendingAction === 'resume' ? 'Resuming...' : 'Resume'}
+                  </Button>
+                )}
+                {(active || status.status === 'paused') && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => control('cancel')}
+                    disabled={pendingAction !== null || stopRequested === 'cancel'}
+                  >
+                    {pendingAction === 'cancel' ? 'Cancelling...' : 'Cancel Session'}
+                  </Button>
+                )}
+                {finished && status.session.failedBatches > 0 && (
+                  <Button onClick={() => control('retry-failed')} disabled={pendingAction !== null}>
+                    {pendingAction === 'retry-failed'
+                      ? 'Retrying...'
+                      : `Retry ${status.session.failedBatches} Failed Batch${status.session.failedBatches === 1 ? '' : 'es'}`}
+                  </Button>
+                )}
+              </div>
+              {controlError && rerunIndex === null && (
+                <Alert className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-800">{controlError}</AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Batch Processing Status */}
         <Card>
           <CardHeader>
@@ -285,6 +471,11 @@ export default function ProcessingDashboard() {
                     <Badge variant={getStatusBadgeVariant(batch.status)}>
                       {batch.status}
                     </Badge>
+                    {finished && (
+                      <Button size="sm" variant="outline" onClick={() => openRerun(index)} disabled={pendingAction !== null}>
+                        Re-run
+                      </Button>
+                    )}
                   </div>
                 </div>
               ))}
@@ -362,6 +553,78 @@ export default function ProcessingDashboard() {
             </AlertDescription>
           </Alert>
         )}
+
+        {status.status === 'cancelled' && (
+          <Alert className="border-gray-200 bg-gray-50">
+            <AlertDescription className="text-gray-800">
+              Processing was cancelled. Batches not yet analyzed were left pending.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Re-run one batch */}
+        <Dialog open={rerunIndex !== null} onOpenChange={open => !open && setRerunIndex(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Re-run Batch {rerunIndex !== null ? rerunIndex + 1 : ''}</DialogTitle>
+              <DialogDescription>
+                The batch is analyzed again without the result cache, and the report is regenerated.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rerun-template">Prompt template</Label>
+                <Select value={rerunTemplate} onValueChange={setRerunTemplate}>
+                  <SelectTrigger id="rerun-template">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Selected from the image metadata</SelectItem>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rerun-provider">Provider</Label>
+                <Select value={rerunProvider} onValueChange={setRerunProvider}>
+                  <SelectTrigger id="rerun-provider">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={AUTOMATIC}>Configured provider</SelectItem>
+                    <SelectItem value="openai">OpenAI-compatible</SelectItem>
+                    <SelectItem value="anthropic">Anthropic</SelectItem>
+                    <SelectItem value="mock">Mock</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rerun-model">Model</Label>
+                <Input
+                  id="rerun-model"
+                  placeholder="Provider default"
+                  value={rerunModel}
+                  onChange={event => setRerunModel(event.target.value)}
+                />
+              </div>
+              {controlError && (
+                <Alert className="border-red-200 bg-red-50">
+                  <AlertDescription className="text-red-800">{controlError}</AlertDescription>
+                </Alert>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRerunIndex(null)}>
+                Close
+              </Button>
+              <Button onClick={rerunBatch} disabled={pendingAction !== null}>
+                {pendingAction === 'rerun-batch' ? 'Starting...' : 'Re-run Batch'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
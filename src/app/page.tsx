@@ -201,7 +201,7 @@ export default function RadiologistUpload() {
               Medical Image Upload
             </CardTitle>
             <CardDescription>
-              Upload up to 200 medical images including DICOM files. Supported formats: DICOM (.dcm), PNG, JPG, JPEG
+              Upload up to 200 medical images including DICOM files. Supported formats: DICOM (.dcm), PNG, JPG, JPEG, and ZIP study archives or CD exports with a DICOMDIR
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -226,7 +226,7 @@ export default function RadiologistUpload() {
                 <input
                   type="file"
                   multiple
-                  accept=".dcm,.dicom,.png,.jpg,.jpeg"
+                  accept=".dcm,.dicom,.png,.jpg,.jpeg,.zip"
                   onChange={handleFileInput}
                   className="hidden"
                   id="file-upload"
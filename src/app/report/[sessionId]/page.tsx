@@ -16,6 +16,10 @@ interface DiagnosticFinding {
   severity: 'low' | 'medium' | 'high' | 'critical';
   location: string;
   confidence: number;
+  /** Share of consensus models reporting the finding, 0 to 1 */
+  agreement?: number;
+  discordant?: boolean;
+  reportedBy?: string[];
 }
 
 interface BatchReport {
@@ -23,6 +27,7 @@ interface BatchReport {
   imageCount: number;
   findings: string;
   keyObservations: string[];
+  urgency?: 'routine' | 'urgent' | 'emergent';
   processingTime: number;
 }
 
@@ -38,6 +43,10 @@ interface DiagnosticReport {
   summary: string;
   findings: DiagnosticFinding[];
   recommendations: string[];
+  /** Highest urgency the models assigned to the study */
+  urgency?: 'routine' | 'urgent' | 'emergent';
+  /** Models disagreed on some finding; a radiologist must review it */
+  requiresReview?: boolean;
   batchReports: BatchReport[];
   generatedAt: string;
   statistics: {
@@ -50,6 +59,13 @@ interface DiagnosticReport {
       medium: number;
       low: number;
     };
+    usage?: {
+      requests: number;
+      inputTokens: number;
+      outputTokens: number;
+      /** Estimated, in USD */
+      cost: number;
+    };
   };
 }
 
@@ -181,6 +197,16 @@ export default function DiagnosticReportPage() {
           <p className="text-sm text-gray-500">Session ID: {reportData.sessionId}</p>
         </div>
 
+        {/* Consensus disagreement */}
+        {reportData.requiresReview && (
+          <Alert className="border-amber-300 bg-amber-50">
+            <AlertDescription className="text-amber-800">
+              The AI models disagreed on {reportData.findings.filter(finding => finding.discordant).length || 'some'} finding(s).
+              Discordant findings are marked below and require radiologist review.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Patient Information */}
         {reportData.patientInfo && (
           <Card>
@@ -213,7 +239,7 @@ export default function DiagnosticReportPage() {
         )}
 
         {/* Statistics Overview */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className={`grid grid-cols-2 ${reportData.statistics.usage ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-4`}>
           <Card>
             <CardContent className="p-4 text-center">
               <div className="text-2xl font-bold text-blue-600">{reportData.statistics.totalImages}</div>
@@ -245,12 +271,33 @@ export default function DiagnosticReportPage() {
               <div className="text-sm text-gray-600">Processing Time</div>
             </CardContent>
           </Card>
+
+          {reportData.statistics.usage && (
+            <Card>
+              <CardContent className="p-4 text-center">
+                <div className="text-2xl font-bold text-gray-700">
+                  {(reportData.statistics.usage.inputTokens + reportData.statistics.usage.outputTokens).toLocaleString()}
+                </div>
+                <div className="text-sm text-gray-600">AI Tokens</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {reportData.statistics.usage.inputTokens.toLocaleString()} in · {reportData.statistics.usage.outputTokens.toLocaleString()} out · ${reportData.statistics.usage.cost.toFixed(2)} est.
+                </div>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Executive Summary */}
         <Card>
           <CardHeader>
-            <CardTitle>Executive Summary</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>Executive Summary</CardTitle>
+              {reportData.urgency && (
+                <Badge variant={reportData.urgency === 'routine' ? 'outline' : 'destructive'}>
+                  {reportData.urgency.toUpperCase()}
+                </Badge>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             <div className="prose prose-gray max-w-none">
@@ -325,12 +372,25 @@ export default function DiagnosticReportPage() {
                                     • {finding.location}
                                   </span>
                                 )}
+                                {finding.discordant && (
+                                  <Badge variant="outline" className="border-amber-400 text-amber-700">
+                                    Discordant – review required
+                                  </Badge>
+                                )}
                               </div>
-                              <div className="text-sm text-gray-500">
-                                {finding.confidence}% confidence
+                              <div className="text-sm text-gray-500 text-right">
+                                <div>{finding.confidence}% confidence</div>
+                                {finding.agreement !== undefined && (
+                                  <div>{Math.round(finding.agreement * 100)}% model agreement</div>
+                                )}
                               </div>
                             </div>
                             <p className="text-gray-700">{finding.description}</p>
+                            {finding.reportedBy && finding.reportedBy.length > 0 && (
+                              <p className="text-xs text-gray-500 mt-2">
+                                Reported by {finding.reportedBy.join(', ')}
+                              </p>
+                            )}
                           </CardContent>
                         </Card>
                       ))}
@@ -368,6 +428,11 @@ export default function DiagnosticReportPage() {
                         <CardTitle className="flex justify-between items-center">
                           <span>Batch {index + 1}</span>
                           <div className="flex items-center space-x-2">
+                            {batch.urgency && batch.urgency !== 'routine' && (
+                              <Badge variant="destructive">
+                                {batch.urgency.toUpperCase()}
+                              </Badge>
+                            )}
                             <Badge variant="outline">
                               {batch.imageCount} images
                             </Badge>
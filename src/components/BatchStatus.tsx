@@ -5,6 +5,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { CheckCircle, Clock, AlertCircle, Loader2 } from 'lucide-react';
+import LiveBatchOutput from '@/components/LiveBatchOutput';
+import type { LiveBatchStream } from '@/hooks/use-batch-stream';
 
 export interface BatchInfo {
   id: string;
@@ -25,6 +27,9 @@ interface BatchStatusProps {
   currentBatch?: number;
   totalImages: number;
   processedImages: number;
+  /** Live model output keyed by batch number, see useBatchStream */
+  streams?: Record<number, LiveBatchStream>;
+  onAbortBatch?: (batchNumber: number) => Promise<void>;
 }
 
 const BatchStatus: React.FC<BatchStatusProps> = ({
@@ -32,7 +37,9 @@ const BatchStatus: React.FC<BatchStatusProps> = ({
   overallProgress,
   currentBatch,
   totalImages,
-  processedImages
+  processedImages,
+  streams = {},
+  onAbortBatch
 }) => {
   const getStatusIcon = (status: BatchInfo['status']) => {
     switch (status) {
@@ -145,6 +152,16 @@ const BatchStatus: React.FC<BatchStatusProps> = ({
                   </div>
                 )}
 
+                {/* Model Output */}
+                {streams[batch.batchNumber] && (
+                  <div className="mb-3">
+                    <LiveBatchOutput
+                      stream={streams[batch.batchNumber]}
+                      onAbort={onAbortBatch && (() => onAbortBatch(batch.batchNumber))}
+                    />
+                  </div>
+                )}
+
                 {/* Error Message */}
                 {batch.status === 'error' && batch.errorMessage && (
                   <div className="mt-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Loader2, Search } from 'lucide-react';
+import type { TagDump, TagDumpElement } from '@/lib/dicom-tag-dump';
+
+/**
+ * A file not yet uploaded, or an instance of an uploaded session whose tags were kept masked
+ */
+type DicomTagBrowserProps =
+  | { file: File; sessionId?: never; imageId?: never }
+  | { file?: never; sessionId: string; imageId: string };
+
+interface TagRow {
+  key: string;
+  depth: number;
+  element?: TagDumpElement;
+  /** Item header inside a sequence */
+  itemLabel?: string;
+}
+
+/**
+ * Normalise a search for tag numbers so '(0010,0010)', '0010,0010' and '00100010' all match
+ */
+const normaliseTagQuery = (query: string): string | null => {
+  const hex = query.replace(/[()\s,]/g, '').toUpperCase();
+  return /^[0-9A-F]{4,8}$/.test(hex) ? hex : null;
+};
+
+const matches = (element: TagDumpElement, query: string): boolean => {
+  const tagQuery = normaliseTagQuery(query);
+  if (tagQuery && element.tag.replace(/[(),]/g, '').startsWith(tagQuery)) {
+    return true;
+  }
+  const needle = query.toLowerCase();
+  return Boolean(
+    element.keyword?.toLowerCase().includes(needle)
+    || element.privateCreator?.toLowerCase().includes(needle)
+  );
+};
+
+/**
+ * Keep matching elements and the sequences that lead to them
+ */
+const filterElements = (elements: TagDumpElement[], query: string): TagDumpElement[] => {
+  if (!query) return elements;
+
+  return elements.flatMap(element => {
+    if (matches(element, query)) {
+      return [element];
+    }
+    const items = element.items?.map(item => filterElements(item, query));
+    return items?.some(item => item.length > 0) ? [{ ...element, items }] : [];
+  });
+};
+
+const toRows = (elements: TagDumpElement[], depth = 0, prefix = ''): TagRow[] =>
+  elements.flatMap(element => {
+    const key = `${prefix}${element.tag}`;
+    const rows: TagRow[] = [{ key, depth, element }];
+    element.items?.forEach((item, index) => {
+      if (item.length === 0) return;
+      rows.push({ key: `${key}/${index}`, depth: depth + 1, itemLabel: `Item ${index + 1}` });
+      rows.push(...toRows(item, depth + 2, `${key}/${index}/`));
+    });
+    return rows;
+  });
+
+export default function DicomTagBrowser({ file, sessionId, imageId }: DicomTagBrowserProps) {
+  const [dump, setDump] = useState<TagDump | null>(null);
+  const [maskPhi, setMaskPhi] = useState(true);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const loadTags = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        let response: Response;
+        if (file) {
+          const formData = new FormData();
+          formData.append('file', file);
+          formData.append('maskPhi', String(maskPhi));
+          response = await fetch('/api/dicom-tags', {
+            method: 'POST',
+            body: formData,
+            signal: controller.signal
+          });
+        } else {
+          const params = new URLSearchParams({ sessionId, imageId });
+          response = await fetch(`/api/dicom-tags?${params}`, { signal: controller.signal });
+        }
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.details || result.error || 'Failed to read DICOM tags');
+        }
+        setDump(result as TagDump);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to read DICOM tags');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadTags();
+    return () => controller.abort();
+  }, [file, sessionId, imageId, maskPhi]);
+
+  const rows = useMemo(
+    () => (dump ? toRows(filterElements(dump.elements, query.trim())) : []),
+    [dump, query]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by keyword or (gggg,eeee)"
+            className="pl-8"
+          />
+        </div>
+        {file && (
+          <div className="flex items-center gap-2">
+            <Switch id="mask-phi" checked={maskPhi} onCheckedChange={setMaskPhi} />
+            <Label htmlFor="mask-phi" className="text-sm">Mask PHI</Label>
+          </div>
+        )}
+      </div>
+
+      {dump && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+          <span>{dump.transferSyntax}</span>
+          {dump.sopClass && <span>{dump.sopClass}</span>}
+          <span>{dump.elementCount} elements</span>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-red-600">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {isLoading && !dump ? (
+        <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Reading tags...
+        </div>
+      ) : (
+        <ScrollArea className="h-[60vh] rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-32">Tag</TableHead>
+                <TableHead>Keyword</TableHead>
+                <TableHead className="w-12">VR</TableHead>
+                <TableHead>Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ key, depth, element, itemLabel }) => (
+                <TableRow key={key}>
+                  {element ? (
+                    <>
+                      <TableCell className="font-mono text-xs" style={{ paddingLeft: `${0.5 + depth}rem` }}>
+                        {element.tag}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        <div className="flex items-center gap-1">
+                          <span>{element.keyword || 'Unknown'}</span>
+                          {element.private && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0" title={element.privateCreator}>
+                              Private
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{element.vr}</TableCell>
+                      <TableCell className="text-xs break-all">
+                        {element.masked ? (
+                          <Badge variant="secondary" className="text-[10px] bg-yellow-100 text-yellow-800">
+                            Masked
+                          </Badge>
+                        ) : (
+                          <span className={element.binary ? 'text-gray-500 italic' : ''}>{element.value}</span>
+                        )}
+                      </TableCell>
+                    </>
+                  ) : (
+                    <TableCell
+                      colSpan={4}
+                      className="text-xs font-medium text-gray-500"
+                      style={{ paddingLeft: `${0.5 + depth}rem` }}
+                    >
+                      {itemLabel}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {dump && rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-sm text-gray-500">
+                    No tags match &quot;{query}&quot;
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
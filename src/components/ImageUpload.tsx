@@ -5,8 +5,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Upload, X, FileImage, Activity, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, X, FileImage, Activity, AlertCircle, CheckCircle, Tags } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import DicomTagBrowser from '@/components/DicomTagBrowser';
 
 interface UploadedFile {
   id: string;
@@ -38,8 +40,11 @@ export default function ImageUpload({ onFilesReady, maxFiles = 200 }: ImageUploa
     'image/bmp',
     'image/tiff',
     'application/dicom',
+    'application/zip',
+    'application/x-zip-compressed',
     '.dcm',
-    '.dicom'
+    '.dicom',
+    '.zip'
   ];
 
   const isDicomFile = (file: File): boolean => {
@@ -48,12 +53,24 @@ export default function ImageUpload({ onFilesReady, maxFiles = 200 }: ImageUploa
            file.type === 'application/dicom';
   };
 
+  // Study archives are unpacked on the server during upload
+  const isArchiveFile = (file: File): boolean => {
+    return file.name.toLowerCase().endsWith('.zip') ||
+           file.type === 'application/zip' ||
+           file.type === 'application/x-zip-compressed';
+  };
+
   const createPreview = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       if (isDicomFile(file)) {
         resolve('/api/placeholder/150/150?text=DICOM');
         return;
       }
+
+      if (isArchiveFile(file)) {
+        resolve('/api/placeholder/150/150?text=ZIP');
+        return;
+      }
       
       const reader = new FileReader();
       reader.onload = (e) => resolve(e.target?.result as string);
@@ -71,11 +88,13 @@ export default function ImageUpload({ onFilesReady, maxFiles = 200 }: ImageUploa
       body: formData,
     });
 
-    if (!response.ok) {
-      throw new Error(`DICOM conversion failed: ${response.statusText}`);
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(`DICOM conversion failed: ${data.details || data.error || response.statusText}`);
     }
 
-    return response.blob();
+    // The endpoint returns the first frame as a PNG data URL
+    return (await fetch(data.image)).blob();
   };
 
   const processFiles = async (files: File[]) => {
@@ -137,7 +156,8 @@ export default function ImageUpload({ onFilesReady, maxFiles = 200 }: ImageUploa
       const isValidType = acceptedTypes.some(type => 
         type.startsWith('.') ? file.name.toLowerCase().endsWith(type) : file.type === type
       );
-      return isValidType && file.size <= 50 * 1024 * 1024; // 50MB limit
+      // Archives hold whole studies, so they get a larger size limit
+      return isValidType && file.size <= (isArchiveFile(file) ? 2048 : 50) * 1024 * 1024;
     });
 
     if (validFiles.length + uploadedFiles.length > maxFiles) {
@@ -342,9 +362,23 @@ export default function ImageUpload({ onFilesReady, maxFiles = 200 }: ImageUploa
                           <span className="ml-1 capitalize">{file.status}</span>
                         </Badge>
                         {file.isDicom && (
-                          <Badge variant="outline" className="text-xs">
-                            DICOM
-                          </Badge>
+                          <Dialog>
+                            <DialogTrigger asChild>
+                              <Badge variant="outline" className="text-xs cursor-pointer" title="Browse DICOM tags">
+                                <Tags className="h-3 w-3 mr-1" />
+                                DICOM
+                              </Badge>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-4xl">
+                              <DialogHeader>
+                                <DialogTitle className="truncate">{file.file.name}</DialogTitle>
+                                <DialogDescription>
+                                  Complete DICOM dataset including sequences and private tags
+                                </DialogDescription>
+                              </DialogHeader>
+                              <DicomTagBrowser file={file.file} />
+                            </DialogContent>
+                          </Dialog>
                         )}
                       </div>
                       {file.error && (
@@ -0,0 +1,70 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Square } from 'lucide-react';
+import type { LiveBatchStream } from '@/hooks/use-batch-stream';
+
+interface LiveBatchOutputProps {
+  stream: LiveBatchStream;
+  onAbort?: () => Promise<void>;
+}
+
+/**
+ * The model's report for one batch as it is being written
+ */
+const LiveBatchOutput: React.FC<LiveBatchOutputProps> = ({ stream, onAbort }) => {
+  const [aborting, setAborting] = useState(false);
+  const [abortError, setAbortError] = useState<string | null>(null);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  // Follow the text while it grows
+  useEffect(() => {
+    if (stream.status === 'streaming' && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [stream.text, stream.status]);
+
+  const handleAbort = async () => {
+    if (!onAbort) return;
+    setAborting(true);
+    setAbortError(null);
+    try {
+      await onAbort();
+    } catch (err) {
+      setAbortError(err instanceof Error ? err.message : 'Failed to abort batch');
+    } finally {
+      setAborting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {stream.status === 'streaming' && 'AI output (live)'}
+          {stream.status === 'completed' && 'AI output'}
+          {stream.status === 'aborted' && 'AI output (aborted)'}
+          {stream.status === 'error' && 'AI output (failed)'}
+        </span>
+        {stream.status === 'streaming' && onAbort && (
+          <Button variant="outline" size="sm" onClick={handleAbort} disabled={aborting}>
+            <Square className="h-3 w-3 mr-1" />
+            {aborting ? 'Aborting...' : 'Abort'}
+          </Button>
+        )}
+      </div>
+      <div
+        ref={outputRef}
+        className="max-h-48 overflow-y-auto rounded border bg-gray-50 p-2 font-mono text-xs whitespace-pre-wrap break-words"
+      >
+        {stream.text || <span className="text-gray-400">Waiting for the model...</span>}
+      </div>
+      {(abortError || stream.error) && (
+        <div className="text-xs text-red-600">{abortError || stream.error}</div>
+      )}
+    </div>
+  );
+};
+
+export default LiveBatchOutput;
@@ -6,12 +6,17 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { CheckCircle, Clock, AlertCircle, FileImage, Brain, Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { CheckCircle, Clock, AlertCircle, FileImage, Brain, Download, Tags } from 'lucide-react';
+import LiveBatchOutput from '@/components/LiveBatchOutput';
+import DicomTagBrowser from '@/components/DicomTagBrowser';
+import { useBatchStream } from '@/hooks/use-batch-stream';
 
 interface BatchStatus {
   id: number;
   status: 'pending' | 'processing' | 'completed' | 'error';
   imageCount: number;
+  dicomImages?: Array<{ id: string; name: string }>;
   progress: number;
   error?: string;
   startTime?: Date;
@@ -46,6 +51,8 @@ export default function ProcessingDashboard({ sessionId, onComplete }: Processin
   const [isProcessing, setIsProcessing] = useState(true);
   const [reportReady, setReportReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { streams, abort } = useBatchStream(sessionId);
+  const [tagImageId, setTagImageId] = useState<string | null>(null);
 
   useEffect(() => {
     const pollStatus = async () => {
@@ -233,6 +240,42 @@ export default function ProcessingDashboard({ sessionId, onComplete }: Processin
                   <Progress value={batch.progress} className="h-2" />
                 </div>
 
+                {batch.dicomImages && batch.dicomImages.length > 0 && (
+                  <Dialog onOpenChange={open => setTagImageId(open ? batch.dicomImages![0].id : null)}>
+                    <DialogTrigger asChild>
+                      <Button variant="outline" size="sm" className="w-full">
+                        <Tags className="h-3 w-3 mr-1" />
+                        DICOM tags
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl">
+                      <DialogHeader>
+                        <DialogTitle>Batch {batch.id} DICOM tags</DialogTitle>
+                        <DialogDescription>
+                          De-identified headers of the uploaded instances
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="flex flex-wrap gap-1">
+                        {batch.dicomImages.map(image => (
+                          <Badge
+                            key={image.id}
+                            variant={image.id === tagImageId ? 'default' : 'outline'}
+                            className="text-xs cursor-pointer"
+                            onClick={() => setTagImageId(image.id)}
+                          >
+                            {image.name}
+                          </Badge>
+                        ))}
+                      </div>
+                      {tagImageId && <DicomTagBrowser sessionId={sessionId} imageId={tagImageId} />}
+                    </DialogContent>
+                  </Dialog>
+                )}
+
+                {streams[batch.id] && (
+                  <LiveBatchOutput stream={streams[batch.id]} onAbort={() => abort(batch.id)} />
+                )}
+
                 {batch.error && (
                   <div className="text-xs text-red-600 bg-red-50 p-2 rounded">
                     {batch.error}
@@ -0,0 +1,58 @@
+import * as React from "react"
+import type { BatchStreamEvent, BatchStreamState, BatchStreamStatus } from "@/lib/batch-streams"
+
+export interface LiveBatchStream {
+  text: string
+  status: BatchStreamStatus
+  error?: string
+}
+
+/**
+ * Live model output of a session's batches over /api/stream, keyed by 1-based batch number
+ */
+export function useBatchStream(sessionId: string) {
+  const [streams, setStreams] = React.useState<Record<number, LiveBatchStream>>({})
+
+  React.useEffect(() => {
+    const source = new EventSource(`/api/stream/${sessionId}`)
+
+    const update = (batchIndex: number, change: (stream: LiveBatchStream) => LiveBatchStream) => {
+      setStreams(current => {
+        const stream = current[batchIndex + 1] ?? { text: "", status: "streaming" }
+        return { ...current, [batchIndex + 1]: change(stream) }
+      })
+    }
+
+    source.addEventListener("snapshot", (message) => {
+      const { batches } = JSON.parse((message as MessageEvent).data) as { batches: BatchStreamState[] }
+      setStreams(Object.fromEntries(
+        batches.map(batch => [batch.batchIndex + 1, { text: batch.text, status: batch.status, error: batch.error }])
+      ))
+    })
+    source.addEventListener("start", (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<BatchStreamEvent, { type: "start" }>
+      update(event.batchIndex, () => ({ text: "", status: "streaming" }))
+    })
+    source.addEventListener("delta", (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<BatchStreamEvent, { type: "delta" }>
+      update(event.batchIndex, stream => ({ ...stream, text: stream.text + event.delta }))
+    })
+    source.addEventListener("status", (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as Extract<BatchStreamEvent, { type: "status" }>
+      update(event.batchIndex, stream => ({ ...stream, status: event.status, error: event.error }))
+    })
+
+    return () => source.close()
+  }, [sessionId])
+
+  const abort = React.useCallback(async (batchNumber: number) => {
+    const params = new URLSearchParams({ sessionId, batchIndex: String(batchNumber - 1) })
+    const response = await fetch(`/api/process-batch?${params}`, { method: "DELETE" })
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new Error(data.error || `Failed to abort batch ${batchNumber}`)
+    }
+  }, [sessionId])
+
+  return { streams, abort }
+}
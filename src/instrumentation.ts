@@ -0,0 +1,10 @@
+/**
+ * Runs once when a server process starts: the job worker resumes sessions left queued or
+ * interrupted by the previous process
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { JobWorker } = await import('./lib/job-worker');
+    JobWorker.start();
+  }
+}
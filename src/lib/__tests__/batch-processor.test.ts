@@ -0,0 +1,65 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BatchProcessor } from '../batch-processor';
+import { BatchScheduler } from '../batch-scheduler';
+import { MemorySessionRepository } from '../session-store';
+
+const saved = { ...process.env };
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'processor-'));
+  Object.assign(process.env, { DATA_DIR: dataDir, AI_PROVIDER: 'mock' });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  process.env = { ...saved };
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('BatchProcessor.processSession', () => {
+  it('sends the batches of a session in order with the case summary at any concurrency', async () => {
+    const received: Array<string | undefined> = [];
+    let active = 0;
+    let peak = 0;
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      if (url !== 'http://app.test/api/process-batch') {
+        return new Response('{}', { status: 500 });
+      }
+      const { batchIndex, imageIds, caseSummary } = JSON.parse(init.body as string);
+      peak = Math.max(peak, ++active);
+      received.push(caseSummary);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return Response.json({
+        result: { batchIndex, imageIds, analysis: 'Normal', findings: [], caseSummary: `through batch ${batchIndex + 1}` }
+      });
+    });
+
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 0, b: 0 } } }).png().toBuffer();
+    const processor = new BatchProcessor(
+      { apiBaseUrl: 'http://app.test', batchSize: 1, useCache: false },
+      new MemorySessionRepository(),
+      new BatchScheduler({ concurrency: { openai: 2, anthropic: 2, mock: 2 } })
+    );
+    const session = await processor.createSession(['a', 'b', 'c'].map(id => ({
+      id,
+      originalName: `${id}.png`,
+      convertedPath: `original/${id}`,
+      base64Data: `data:image/png;base64,${png.toString('base64')}`,
+      conversionStatus: 'success' as const
+    })));
+
+    await processor.processSession(session.id);
+
+    expect(session.totalBatches).toBe(3);
+    expect(peak).toBe(1);
+    expect(received).toEqual([undefined, 'through batch 1', 'through batch 2']);
+  });
+});
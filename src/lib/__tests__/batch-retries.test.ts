@@ -0,0 +1,92 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { NextRequest } from 'next/server';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as processBatch } from '@/app/api/process-batch/route';
+import { AIProvider, AIProviderError } from '../ai-provider';
+import { GuardedProvider } from '../ai-guard';
+import { BatchProcessor } from '../batch-processor';
+import { BatchScheduler } from '../batch-scheduler';
+import { MemorySessionRepository } from '../session-store';
+
+const saved = { ...process.env };
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'retries-'));
+  Object.assign(process.env, {
+    DATA_DIR: dataDir,
+    AI_PROVIDER: 'openai',
+    AI_MODEL: `retry-test-${Math.random()}`,
+    AI_API_KEY: 'test',
+    AI_BASE_URL: 'http://provider.test',
+    AI_MAX_RETRIES: '3',
+    AI_RETRY_BASE_DELAY_MS: '1',
+    AI_CIRCUIT_FAILURE_THRESHOLD: '100'
+  });
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  process.env = { ...saved };
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('batch retries', () => {
+  it('calls a provider that keeps failing only as often as the guard retries', async () => {
+    let providerCalls = 0;
+    vi.stubGlobal('fetch', async (url: string, init: RequestInit) => {
+      if (url.startsWith('http://provider.test')) {
+        providerCalls++;
+        return new Response('Service Unavailable', { status: 503 });
+      }
+      if (url === 'http://app.test/api/process-batch') {
+        return processBatch(new NextRequest(url, init as ConstructorParameters<typeof NextRequest>[1]));
+      }
+      return new Response('{}', { status: 500 });
+    });
+
+    const png = await sharp({ create: { width: 8, height: 8, channels: 3, background: { r: 0, g: 0, b: 0 } } }).png().toBuffer();
+    const processor = new BatchProcessor(
+      { apiBaseUrl: 'http://app.test', retryDelay: 1, maxRetries: 3, useCache: false },
+      new MemorySessionRepository(),
+      new BatchScheduler({ concurrency: { openai: 1, anthropic: 1, mock: 1 } })
+    );
+    const session = await processor.createSession([{
+      id: 'image-1',
+      originalName: 'slice.png',
+      convertedPath: 'original/image-1',
+      base64Data: `data:image/png;base64,${png.toString('base64')}`,
+      conversionStatus: 'success'
+    }]);
+
+    await processor.processSession(session.id);
+
+    expect(providerCalls).toBe(4);
+    expect(processor.getStatus().errors).toHaveLength(1);
+  });
+
+  it('marks the last failure retryable only while the circuit is open', async () => {
+    const failing: AIProvider = {
+      name: 'mock',
+      model: `circuit-test-${Math.random()}`,
+      analyze: async () => {
+        throw new AIProviderError('Service Unavailable', { reason: 'overloaded', retryable: true, status: 503 });
+      }
+    };
+    const options = { requestsPerMinute: 0, tokensPerMinute: 0, maxRetries: 1, retryBaseDelayMs: 1, cooldownMs: 60000 };
+
+    const exhausted = new GuardedProvider(failing, { ...options, failureThreshold: 100 });
+    await expect(exhausted.analyze({ prompt: '', images: [] })).rejects.toMatchObject({ retryable: false, reason: 'overloaded' });
+
+    const open = new GuardedProvider({ ...failing, model: `${failing.model}-open` }, { ...options, failureThreshold: 2 });
+    const error = await open.analyze({ prompt: '', images: [] }).catch(caught => caught);
+    expect(error).toMatchObject({ retryable: true, reason: 'circuit_open' });
+    expect(error.retryAfterMs).toBeGreaterThan(59000);
+  });
+});
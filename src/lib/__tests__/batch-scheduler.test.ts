@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { BatchScheduler, getBatchSchedulerOptions } from '../batch-scheduler';
+import { SessionPriority } from '@/types/medical';
+
+const scheduler = (concurrency = 1) => new BatchScheduler({ concurrency: { openai: concurrency, anthropic: concurrency, mock: concurrency } });
+
+/**
+ * Queue the batches and record the order they are granted a slot in, releasing each slot at once
+ */
+async function grantOrder(target: BatchScheduler, batches: Array<[sessionId: string, priority?: SessionPriority]>): Promise<string[]> {
+  const order: string[] = [];
+  const hold = await target.acquire('mock', 'blocker');
+  const waiting = batches.map(([sessionId, priority], index) =>
+    target.acquire('mock', sessionId, undefined, priority).then(release => {
+      order.push(`${sessionId}#${index}`);
+      release();
+    })
+  );
+  hold();
+  await Promise.all(waiting);
+  return order;
+}
+
+describe('BatchScheduler', () => {
+  it('gives sessions of the same priority turns', async () => {
+    const order = await grantOrder(scheduler(), [['a'], ['a'], ['a'], ['b'], ['b']]);
+
+    expect(order).toEqual(['a#0', 'b#3', 'a#1', 'b#4', 'a#2']);
+  });
+
+  it('serves the most urgent session first', async () => {
+    const order = await grantOrder(scheduler(), [['routine'], ['urgent', 'urgent'], ['stat', 'stat'], ['routine']]);
+
+    expect(order).toEqual(['stat#2', 'urgent#1', 'routine#0', 'routine#3']);
+  });
+
+  it('never runs more batches of a provider than its concurrency', async () => {
+    const target = scheduler(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(Array.from({ length: 6 }, (_, i) => target.run('mock', `s${i % 2}`, async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+    })));
+
+    expect(peak).toBe(2);
+    expect(target.status()).toEqual([{ provider: 'mock', concurrency: 2, active: 0, waiting: {} }]);
+  });
+
+  it('drops a waiting batch whose signal aborts', async () => {
+    const target = scheduler();
+    const hold = await target.acquire('mock', 'a');
+    const controller = new AbortController();
+
+    const waiting = target.acquire('mock', 'b', controller.signal);
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+    await expect(waiting).rejects.toThrow('Cancelled');
+    expect(target.status()[0].waiting).toEqual({});
+    hold();
+    expect(target.status()[0].active).toBe(0);
+  });
+
+  it('ignores a second release of the same slot', async () => {
+    const target = scheduler();
+    const release = await target.acquire('mock', 'a');
+
+    release();
+    release();
+
+    expect(target.status()[0].active).toBe(0);
+  });
+});
+
+describe('getBatchSchedulerOptions', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('applies AI_BATCH_CONCURRENCY to providers without their own setting', () => {
+    process.env.AI_BATCH_CONCURRENCY = '3';
+    process.env.AI_BATCH_CONCURRENCY_ANTHROPIC = '1';
+
+    expect(getBatchSchedulerOptions().concurrency).toEqual({ openai: 3, anthropic: 1, mock: 3 });
+  });
+
+  it('rejects a concurrency that is not a positive integer', () => {
+    process.env.AI_BATCH_CONCURRENCY = '0';
+
+    expect(() => getBatchSchedulerOptions()).toThrow('AI_BATCH_CONCURRENCY must be a positive integer');
+  });
+});
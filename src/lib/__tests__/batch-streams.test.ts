@@ -0,0 +1,34 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BatchStreams } from '../batch-streams';
+
+const saved = { ...process.env };
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'streams-'));
+  process.env.DATA_DIR = dataDir;
+});
+
+afterEach(async () => {
+  process.env = { ...saved };
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('BatchStreams.abortSession', () => {
+  it('aborts every streaming batch of the session and no other', async () => {
+    const first = BatchStreams.start('cancelled', 0);
+    const second = BatchStreams.start('cancelled', 1);
+    const other = BatchStreams.start('other', 0);
+
+    expect(BatchStreams.abortSession('cancelled')).toBe(2);
+    expect([first.aborted, second.aborted, other.aborted]).toEqual([true, true, false]);
+
+    await BatchStreams.finish('cancelled', 0, 'aborted');
+    await BatchStreams.finish('cancelled', 1, 'aborted');
+    await BatchStreams.finish('other', 0, 'completed');
+    expect(BatchStreams.abortSession('cancelled')).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIProviderError } from '../ai-provider';
+import { CircuitBreaker } from '../circuit-breaker';
+
+const overloaded = () => new AIProviderError('Service Unavailable', { reason: 'overloaded', retryable: true, status: 503 });
+const rejected = () => new AIProviderError('Bad Request', { reason: 'rejected', retryable: false, status: 400 });
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function fail(error: unknown, signal?: AbortSignal) {
+    await breaker.acquire();
+    breaker.record(error, signal);
+  }
+
+  it('opens after consecutive retryable failures', async () => {
+    await fail(overloaded());
+    expect(breaker.status().state).toBe('closed');
+
+    await fail(overloaded());
+    expect(breaker.status()).toMatchObject({ state: 'open', consecutiveFailures: 2, lastError: 'Service Unavailable' });
+  });
+
+  it('does not count a rejected request against the provider', async () => {
+    await fail(overloaded());
+    await fail(rejected());
+    await fail(overloaded());
+
+    expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+
+  it('lets one probe through after the cooldown and closes when it succeeds', async () => {
+    await fail(overloaded());
+    await fail(overloaded());
+
+    let waited = false;
+    const waiting = breaker.acquire().then(() => {
+      waited = true;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(waited).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(breaker.status().state).toBe('half-open');
+
+    breaker.record();
+    expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('opens again when the probe fails', async () => {
+    await fail(overloaded());
+    await fail(overloaded());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await fail(overloaded());
+
+    expect(breaker.status()).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+  });
+
+  it('hands the probe on when its caller aborts', async () => {
+    await fail(overloaded());
+    await fail(overloaded());
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const controller = new AbortController();
+    await breaker.acquire();
+    controller.abort(new Error('Cancelled'));
+    breaker.record(new Error('Cancelled'), controller.signal);
+
+    expect(breaker.status()).toMatchObject({ state: 'open', consecutiveFailures: 2 });
+    await breaker.acquire();
+    expect(breaker.status().state).toBe('half-open');
+  });
+
+  it('rejects a waiting caller when its signal aborts', async () => {
+    await fail(overloaded());
+    await fail(overloaded());
+
+    const controller = new AbortController();
+    const waiting = breaker.acquire(controller.signal);
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+
+    await expect(waiting).rejects.toThrow('Cancelled');
+  });
+});
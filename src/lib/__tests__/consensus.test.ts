@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AIAnalysisRequest, AIProvider } from '../ai-provider';
+import { Consensus, ModelReading, getConsensusModels } from '../consensus';
+import { StructuredAnalysis, StructuredFinding } from '../structured-findings';
+
+const NODULE: StructuredFinding = {
+  category: 'Pulmonary nodule',
+  severity: 'moderate',
+  description: 'Solid nodule in the right upper lobe',
+  location: 'right upper lobe',
+  laterality: 'right',
+  confidence: 0.8,
+  relatedImageIds: ['image_1']
+};
+
+const EFFUSION: StructuredFinding = {
+  category: 'Pleural effusion',
+  severity: 'high',
+  description: 'Large left pleural effusion',
+  location: 'left pleural space',
+  laterality: 'left',
+  confidence: 0.9,
+  relatedImageIds: ['image_2']
+};
+
+function reading(label: string, findings: StructuredFinding[], urgency: StructuredAnalysis['urgency'] = 'routine'): ModelReading {
+  const analysis: StructuredAnalysis = { findings, recommendations: [], urgency };
+  return {
+    label,
+    result: { analysis, rawText: JSON.stringify(analysis), attempts: 1, response: { text: '', provider: 'mock', model: label } }
+  };
+}
+
+function provider(model: string, answer: StructuredAnalysis | Error): AIProvider {
+  return {
+    name: 'mock',
+    model,
+    analyze: async () => {
+      if (answer instanceof Error) throw answer;
+      return { text: JSON.stringify(answer), provider: 'mock', model };
+    }
+  };
+}
+
+const REQUEST: AIAnalysisRequest = { prompt: 'Read these images', images: [] };
+
+describe('Consensus.align', () => {
+  it('matches the same finding across models and reports full agreement', () => {
+    const result = Consensus.align([
+      reading('a', [NODULE]),
+      reading('b', [{ ...NODULE, description: 'Right upper lobe nodule', confidence: 0.6 }])
+    ]);
+
+    expect(result.findings).toHaveLength(1);
+    expect(result.findings[0]).toMatchObject({ agreement: 1, discordant: false, reportedBy: ['a', 'b'], confidence: 0.7 });
+    expect(result).toMatchObject({ agreement: 1, discordant: false, requiresReview: false, urgency: 'routine' });
+  });
+
+  it('flags a significant finding that one model missed', () => {
+    const result = Consensus.align([reading('a', [NODULE, EFFUSION]), reading('b', [NODULE])]);
+
+    const effusion = result.findings.find(finding => finding.category === 'Pleural effusion');
+    expect(effusion).toMatchObject({ agreement: 0.5, discordant: true, reportedBy: ['a'] });
+    expect(result.requiresReview).toBe(true);
+    expect(result.disagreements).toEqual(['Pleural effusion (left pleural space): a high; not reported by b']);
+  });
+
+  it('never matches findings on opposite sides', () => {
+    const result = Consensus.align([
+      reading('a', [NODULE]),
+      reading('b', [{ ...NODULE, location: 'left upper lobe', laterality: 'left' }])
+    ]);
+
+    expect(result.findings).toHaveLength(2);
+  });
+
+  it('takes the most urgent answer and flags differing urgency', () => {
+    const result = Consensus.align([reading('a', [], 'routine'), reading('b', [], 'emergent')]);
+
+    expect(result.urgency).toBe('emergent');
+    expect(result.discordant).toBe(true);
+    expect(result.disagreements).toEqual(['Urgency: a routine, b emergent']);
+  });
+
+  it('requires review when fewer than two models gave a valid answer', () => {
+    const result = Consensus.align([reading('a', [NODULE]), { label: 'b', error: 'Service Unavailable' }]);
+
+    expect(result.discordant).toBe(false);
+    expect(result.requiresReview).toBe(true);
+    expect(result.models[1]).toMatchObject({ label: 'b', success: false, error: 'Service Unavailable' });
+  });
+});
+
+describe('Consensus.read', () => {
+  it('keeps the readings of the models that answered', async () => {
+    const analysis: StructuredAnalysis = { findings: [NODULE], recommendations: [], urgency: 'routine' };
+
+    const { readings, primary } = await Consensus.read([provider('a', analysis), provider('b', new Error('down'))], REQUEST);
+
+    expect(primary.analysis).toEqual(analysis);
+    expect(readings.map(({ label, error }) => ({ label, error }))).toEqual([
+      { label: 'mock:a', error: undefined },
+      { label: 'mock:b', error: 'down' }
+    ]);
+  });
+
+  it('fails when no model answered', async () => {
+    await expect(Consensus.read([provider('a', new Error('down'))], REQUEST)).rejects.toThrow('down');
+  });
+});
+
+describe('Consensus.carryFlags', () => {
+  it('adds back discordant findings the synthesis dropped', () => {
+    const { findings } = Consensus.align([reading('a', [NODULE, EFFUSION]), reading('b', [NODULE])]);
+    const synthesized = [{ ...findings[0], agreement: undefined, discordant: undefined, reportedBy: undefined }];
+
+    const carried = Consensus.carryFlags(synthesized, findings);
+
+    expect(carried).toHaveLength(2);
+    expect(carried[0]).toMatchObject({ agreement: 1, discordant: false });
+    expect(carried[1]).toMatchObject({ category: 'Pleural effusion', discordant: true });
+  });
+});
+
+describe('getConsensusModels', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('reads provider:model pairs and bare models of AI_PROVIDER', () => {
+    process.env.AI_PROVIDER = 'anthropic';
+    process.env.AI_CONSENSUS_MODELS = 'openai:gpt-4o, claude-3-5-sonnet-latest,';
+
+    expect(getConsensusModels()).toEqual([
+      { provider: 'openai', model: 'gpt-4o' },
+      { provider: 'anthropic', model: 'claude-3-5-sonnet-latest' }
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DeidentificationOptions, DicomDeidentifier } from '../dicom-deidentifier';
+
+const BASIC: DeidentificationOptions = { enabled: true, retainDates: false, retainUids: false, maskRegions: [] };
+
+const METADATA = {
+  patientName: 'DOE^JANE',
+  patientId: 'MRN-1',
+  studyDate: '20240101',
+  studyDescription: 'CT CHEST',
+  institutionName: 'General Hospital',
+  studyInstanceUid: '1.2.840.1',
+  seriesInstanceUid: '1.2.840.1.2',
+  modality: 'CT',
+  instanceNumber: 4
+};
+
+let dataDir: string;
+
+beforeAll(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'deid-'));
+  process.env.DATA_DIR = dataDir;
+});
+
+afterAll(async () => {
+  delete process.env.DATA_DIR;
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('DicomDeidentifier.getAction', () => {
+  it('follows the basic profile and its retain options', () => {
+    expect(DicomDeidentifier.getAction('x00100010', BASIC)).toBe('Z');
+    expect(DicomDeidentifier.getAction('x00080020', BASIC)).toBe('Z');
+    expect(DicomDeidentifier.getAction('x00080020', { ...BASIC, retainDates: true })).toBe('K');
+    expect(DicomDeidentifier.getAction('x0020000d', BASIC)).toBe('U');
+    expect(DicomDeidentifier.getAction('x0020000d', { ...BASIC, retainUids: true })).toBe('K');
+  });
+
+  it('removes private attributes, curves and overlay comments and keeps the rest', () => {
+    expect(DicomDeidentifier.getAction('x00091001', BASIC)).toBe('X');
+    expect(DicomDeidentifier.getAction('x50000010', BASIC)).toBe('X');
+    expect(DicomDeidentifier.getAction('x60004000', BASIC)).toBe('X');
+    expect(DicomDeidentifier.getAction('x00280010', BASIC)).toBe('K');
+  });
+});
+
+describe('DicomDeidentifier.deidentifyMetadata', () => {
+  it('pseudonymises the patient, replaces UIDs and drops identifying text', async () => {
+    const result = await DicomDeidentifier.deidentifyMetadata(METADATA, BASIC);
+
+    expect(result.patientId).toMatch(/^ANON-[0-9A-F]{12}$/);
+    expect(result.patientName).toBe(result.patientId);
+    expect(result.studyInstanceUid).toMatch(/^2\.25\.\d+$/);
+    expect(result.studyInstanceUid).not.toBe(METADATA.studyInstanceUid);
+    expect(result).not.toHaveProperty('studyDate');
+    expect(result).not.toHaveProperty('studyDescription');
+    expect(result).not.toHaveProperty('institutionName');
+    expect(result).toMatchObject({ modality: 'CT', instanceNumber: 4, patientIdentityRemoved: true });
+  });
+
+  it('gives the same patient and UID the same replacement every time', async () => {
+    const first = await DicomDeidentifier.deidentifyMetadata(METADATA, BASIC);
+    const second = await DicomDeidentifier.deidentifyMetadata({ ...METADATA, sopInstanceUid: '1.2.840.1.2.3' }, BASIC);
+
+    expect(second.patientId).toBe(first.patientId);
+    expect(second.seriesInstanceUid).toBe(first.seriesInstanceUid);
+  });
+
+  it('keeps dates and UIDs under the retain options and names them in the method', async () => {
+    const result = await DicomDeidentifier.deidentifyMetadata(METADATA, { ...BASIC, retainDates: true, retainUids: true });
+
+    expect(result.studyDate).toBe('20240101');
+    expect(result.studyInstanceUid).toBe('1.2.840.1');
+    expect(result.deidentificationMethod).toContain('Retain Longitudinal Temporal Information With Full Dates Option');
+    expect(result.deidentificationMethod).toContain('Retain UIDs Option');
+  });
+});
+
+describe('DicomDeidentifier.deidentifyDirectory', () => {
+  it('applies the profile to DICOMDIR patient, study and series records', async () => {
+    const [patient] = await DicomDeidentifier.deidentifyDirectory([{
+      patientId: 'MRN-1',
+      patientName: 'DOE^JANE',
+      studies: [{
+        studyInstanceUid: '1.2.840.1',
+        studyDescription: 'CT CHEST',
+        accessionNumber: 'ACC-9',
+        series: [{ seriesInstanceUid: '1.2.840.1.2', modality: 'CT', instances: [] }]
+      }]
+    }], BASIC);
+    const image = await DicomDeidentifier.deidentifyMetadata(METADATA, BASIC);
+
+    expect(patient.patientId).toBe(image.patientId);
+    expect(patient.studies[0]).toMatchObject({
+      studyInstanceUid: image.studyInstanceUid,
+      studyDescription: undefined,
+      accessionNumber: undefined
+    });
+    expect(patient.studies[0].series[0].seriesInstanceUid).toBe(image.seriesInstanceUid);
+  });
+});
+
+describe('DicomDeidentifier.deidentify', () => {
+  it('blacks out the mask regions of matching modalities', async () => {
+    const white = await sharp({ create: { width: 10, height: 10, channels: 3, background: { r: 255, g: 255, b: 255 } } }).png().toBuffer();
+
+    const result = await DicomDeidentifier.deidentify(white, METADATA, {
+      ...BASIC,
+      maskRegions: [{ modality: 'ct', x: 0, y: 0, width: 0.5, height: 1 }]
+    });
+    const { data } = await sharp(result.pngBuffer).raw().toBuffer({ resolveWithObject: true });
+
+    expect([...data.subarray(0, 3)]).toEqual([0, 0, 0]);
+    expect([...data.subarray(9 * 3, 10 * 3)]).toEqual([255, 255, 255]);
+  });
+
+  it('warns when burned-in annotation has no mask region', async () => {
+    const png = await sharp({ create: { width: 2, height: 2, channels: 3, background: { r: 0, g: 0, b: 0 } } }).png().toBuffer();
+
+    const result = await DicomDeidentifier.deidentify(png, { ...METADATA, burnedInAnnotation: 'YES' }, BASIC);
+
+    expect(result.pngBuffer).toBe(png);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
@@ -0,0 +1,47 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DicomTagDump, TagDump } from '../dicom-tag-dump';
+
+const saved = { ...process.env };
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'tags-'));
+  process.env.DATA_DIR = dataDir;
+});
+
+afterEach(async () => {
+  process.env = { ...saved };
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+function dump(modality: string): TagDump {
+  return {
+    transferSyntax: 'Explicit VR Little Endian',
+    elementCount: 2,
+    elements: [
+      { tag: '(0008,0060)', keyword: 'Modality', vr: 'CS', length: modality.length, value: modality, private: false },
+      { tag: '(0010,0010)', keyword: 'PatientName', vr: 'PN', length: 8, private: false, masked: true }
+    ]
+  };
+}
+
+describe('DicomTagDump session storage', () => {
+  it('finds the instance each converted image came from', async () => {
+    await DicomTagDump.save('session-1', [
+      { imageIds: ['ct_f1', 'ct_f2'], dump: dump('CT') },
+      { imageIds: ['mr'], dump: dump('MR') }
+    ]);
+
+    expect(await DicomTagDump.load('session-1', 'ct_f2')).toEqual(dump('CT'));
+    expect(await DicomTagDump.load('session-1', 'mr')).toEqual(dump('MR'));
+    expect(await DicomTagDump.load('session-1', 'photo')).toBeNull();
+    expect(await DicomTagDump.load('session-2', 'mr')).toBeNull();
+  });
+
+  it('rejects session ids that are not directory names', async () => {
+    await expect(DicomTagDump.load('../sessions', 'mr')).rejects.toThrow('Invalid session id');
+  });
+});
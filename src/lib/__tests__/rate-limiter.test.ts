@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../rate-limiter';
+
+describe('RateLimiter', () => {
+  it('reserves requests and tokens from the budget', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10, tokensPerMinute: 1000 });
+
+    await limiter.acquire(400);
+    await limiter.acquire(100);
+
+    expect(limiter.status()).toMatchObject({ waiting: 0, requestsAvailable: 8, tokensAvailable: 500 });
+  });
+
+  it('makes a caller wait until the bucket has refilled', async () => {
+    // Refills 100 tokens per second
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 6000 });
+    await limiter.acquire(6000);
+
+    const start = Date.now();
+    await limiter.acquire(20);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+  });
+
+  it('lets a request larger than the budget through once the bucket is full', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 1000 });
+
+    await limiter.acquire(5000);
+
+    expect(limiter.status().tokensAvailable).toBeLessThan(0);
+  });
+
+  it('rejects an aborted caller without blocking the ones behind it', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 6000 });
+    await limiter.acquire(6000);
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire(6000, controller.signal);
+    const next = limiter.acquire(10);
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await next;
+    expect(limiter.status().waiting).toBe(0);
+  });
+
+  it('holds every caller back while paused', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 0 });
+    limiter.pause(200);
+
+    expect(limiter.status().pausedUntil).toBeDefined();
+    const start = Date.now();
+    await limiter.acquire(1);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+  });
+
+  it('returns unused tokens when the actual usage is known', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 0, tokensPerMinute: 1000 });
+    await limiter.acquire(800);
+
+    limiter.reconcile(800, 300);
+
+    expect(limiter.status().tokensAvailable).toBe(700);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DicomMetadata } from '@/types/medical';
+import { SeriesOrganizer } from '../series-organizer';
+
+const AXIAL = [1, 0, 0, 0, 1, 0];
+
+function image(id: string, metadata?: DicomMetadata) {
+  return { id, metadata };
+}
+
+function slice(id: string, series: string, z: number, extra: DicomMetadata = {}) {
+  return image(id, {
+    studyInstanceUid: '1.2.3',
+    seriesInstanceUid: series,
+    imageOrientation: AXIAL,
+    imagePosition: [0, 0, z],
+    ...extra
+  });
+}
+
+const ids = (images: Array<{ id: string }>) => images.map(({ id }) => id);
+
+describe('SeriesOrganizer.groupBySeries', () => {
+  it('orders slices along the slice normal, not by upload order', () => {
+    const [series] = SeriesOrganizer.groupBySeries([
+      slice('c', '1.2.3.1', 20),
+      slice('a', '1.2.3.1', -10),
+      slice('b', '1.2.3.1', 5)
+    ]);
+
+    expect(series.ordering).toBe('position');
+    expect(ids(series.images)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('falls back to instance number when orientations differ', () => {
+    const [series] = SeriesOrganizer.groupBySeries([
+      slice('b', '1.2.3.1', 0, { instanceNumber: 2 }),
+      slice('a', '1.2.3.1', 10, { instanceNumber: 1, imageOrientation: [0, 1, 0, 0, 0, -1] })
+    ]);
+
+    expect(series.ordering).toBe('instance');
+    expect(ids(series.images)).toEqual(['a', 'b']);
+  });
+
+  it('sorts series of a study by series number and puts images without UIDs last', () => {
+    const series = SeriesOrganizer.groupBySeries([
+      image('loose'),
+      slice('s3', '1.2.3.3', 0, { seriesNumber: 3 }),
+      slice('s1', '1.2.3.1', 0, { seriesNumber: 1 })
+    ]);
+
+    expect(series.map(s => s.seriesNumber)).toEqual([1, 3, undefined]);
+    expect(series[2].ordering).toBe('upload');
+    expect(ids(series[2].images)).toEqual(['loose']);
+  });
+
+  it('keeps each window preset rendering of a series as its own stack', () => {
+    const series = SeriesOrganizer.groupBySeries([
+      slice('lung', '1.2.3.1', 0, { windowPreset: 'lung' }),
+      slice('bone', '1.2.3.1', 0, { windowPreset: 'bone' })
+    ]);
+
+    expect(series).toHaveLength(2);
+  });
+});
+
+describe('SeriesOrganizer.createBatches', () => {
+  it('never mixes series in a batch and splits evenly', () => {
+    const images = [
+      ...Array.from({ length: 7 }, (_, i) => slice(`a${i}`, '1.2.3.1', i, { seriesNumber: 1 })),
+      ...Array.from({ length: 2 }, (_, i) => slice(`b${i}`, '1.2.3.2', i, { seriesNumber: 2 }))
+    ];
+
+    const batches = SeriesOrganizer.createBatches(images, 5);
+
+    expect(batches.map(batch => batch.images.length)).toEqual([4, 3, 2]);
+    expect(batches.map(batch => batch.startIndex)).toEqual([0, 4, 0]);
+    batches.forEach(batch => {
+      expect(new Set(batch.images.map(i => i.metadata?.seriesInstanceUid)).size).toBe(1);
+    });
+  });
+
+  it('cuts batches by the token budget and gives an oversized image its own batch', () => {
+    const images = Array.from({ length: 4 }, (_, i) => slice(`s${i}`, '1.2.3.1', i));
+    const costs: Record<string, number> = { s0: 100, s1: 700, s2: 100, s3: 100 };
+
+    const batches = SeriesOrganizer.createBatches(images, 10, { maxTokens: 600, cost: image => costs[image.id] });
+
+    expect(batches.map(batch => ids(batch.images))).toEqual([['s0'], ['s1'], ['s2', 's3']]);
+  });
+});
+
+describe('SeriesOrganizer.describeBatch', () => {
+  it('says where the batch sits in its series', () => {
+    const images = Array.from({ length: 4 }, (_, i) =>
+      slice(`s${i}`, '1.2.3.1', i, { modality: 'CT', seriesNumber: 2, seriesDescription: 'Chest' })
+    );
+
+    const [, second] = SeriesOrganizer.createBatches(images, 2);
+
+    expect(SeriesOrganizer.describeBatch(second)).toBe(
+      'These images are 3-4 of 4 from a single CT series 2 Chest, ordered by slice position along the slice normal.'
+    );
+  });
+
+  it('has nothing to say about images without UIDs', () => {
+    const [batch] = SeriesOrganizer.createBatches([image('a')], 5);
+
+    expect(SeriesOrganizer.describeBatch(batch)).toBeUndefined();
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { SessionPriorities } from '../session-priority';
+
+const described = (studyDescription: string, seriesDescription?: string) =>
+  SessionPriorities.infer([{ studyDescription, seriesDescription }]);
+
+describe('SessionPriorities.infer', () => {
+  it('follows the Requested Procedure Priority first', () => {
+    expect(SessionPriorities.infer([{ requestedProcedurePriority: 'stat' }])).toBe('stat');
+    expect(SessionPriorities.infer([{ requestedProcedurePriority: 'HIGH', studyDescription: 'CODE STROKE' }])).toBe('urgent');
+    expect(SessionPriorities.infer([undefined, { requestedProcedurePriority: 'ROUTINE' }])).toBe('routine');
+  });
+
+  it('recognises emergency phrases in the descriptions', () => {
+    expect(described('CT HEAD WO CONTRAST', 'CODE_STROKE')).toBe('stat');
+    expect(described('CTA HEAD NECK STROKE PROTOCOL')).toBe('stat');
+    expect(described('CT CHEST ABD PELVIS TRAUMA PANSCAN')).toBe('stat');
+    expect(described('CT HEAD STAT')).toBe('stat');
+    expect(described('XR CHEST', 'EMERGENCY DEPT')).toBe('urgent');
+    expect(described('US ABDOMEN URGENT')).toBe('urgent');
+  });
+
+  it('leaves descriptions that merely mention such words routine', () => {
+    expect(described('MR BREAST ER PR STATUS')).toBe('routine');
+    expect(described('XR KNEE', 'ED FOLLOW UP')).toBe('routine');
+    expect(described('CT HEAD', 'CODE 2')).toBe('routine');
+    expect(described('MR BRAIN POST STROKE FOLLOW UP')).toBe('routine');
+    expect(described('XR SPINE PRIOR TRAUMA')).toBe('routine');
+    expect(described('CT CHEST', 'EMERGENCY CONTACT ON FILE')).toBe('routine');
+    expect(described('CT ABDOMEN', 'STATIC PHASE')).toBe('routine');
+  });
+});
@@ -0,0 +1,145 @@
+import Database from 'better-sqlite3';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProcessingSession, SessionPriority } from '@/types/medical';
+import { MemorySessionRepository, SessionRepository, SqliteSessionRepository } from '../session-store';
+
+let dataDir: string;
+
+beforeEach(async () => {
+  dataDir = await mkdtemp(join(tmpdir(), 'sessions-'));
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+function session(id: string, priority: SessionPriority = 'routine'): ProcessingSession {
+  return {
+    id,
+    priority,
+    totalImages: 1,
+    processedImages: 0,
+    totalBatches: 1,
+    completedBatches: 0,
+    status: 'queued',
+    startedAt: new Date(),
+    images: [{
+      id: `${id}-image`,
+      originalName: 'slice.dcm',
+      fileName: 'slice.png',
+      filePath: `${id}/slice.png`,
+      fileSize: 10,
+      mimeType: 'image/png',
+      isDicom: true,
+      uploadedAt: new Date(),
+      status: 'converted'
+    }],
+    batches: []
+  };
+}
+
+/** Stores and queues each session, one second apart */
+async function enqueue(store: SessionRepository, sessions: ProcessingSession[], maxAttempts = 3) {
+  for (const entry of sessions) {
+    await store.createSession(entry);
+    await store.enqueueJob(entry.id, maxAttempts);
+    vi.advanceTimersByTime(1000);
+  }
+}
+
+describe.each([
+  ['sqlite', () => new SqliteSessionRepository(join(dataDir, 'sessions.db'))],
+  ['memory', () => new MemorySessionRepository()]
+])('%s claimJob', (_, open: () => SessionRepository) => {
+  let store: SessionRepository;
+
+  beforeEach(() => {
+    store = open();
+  });
+
+  afterEach(() => {
+    if (store instanceof SqliteSessionRepository) {
+      store.close();
+    }
+  });
+
+  it('claims the most urgent job first, oldest first within a priority', async () => {
+    await enqueue(store, [session('routine-1'), session('urgent-1', 'urgent'), session('stat-1', 'stat'), session('urgent-2', 'urgent')]);
+
+    const claimed: string[] = [];
+    for (let job = await store.claimJob('worker', 60000); job; job = await store.claimJob('worker', 60000)) {
+      claimed.push(job.sessionId);
+    }
+
+    expect(claimed).toEqual(['stat-1', 'urgent-1', 'urgent-2', 'routine-1']);
+  });
+
+  it('leases a job to one worker until the lease expires', async () => {
+    await enqueue(store, [session('a')]);
+
+    const first = await store.claimJob('worker-1', 60000);
+    expect(first).toMatchObject({ status: 'running', leaseOwner: 'worker-1', attempts: 1 });
+    expect(await store.claimJob('worker-2', 60000)).toBeNull();
+
+    vi.advanceTimersByTime(60000);
+    expect(await store.claimJob('worker-2', 60000)).toMatchObject({ id: first!.id, leaseOwner: 'worker-2', attempts: 2 });
+  });
+
+  it('fails a job and its session once it runs out of attempts', async () => {
+    await enqueue(store, [session('a')], 1);
+    await store.claimJob('worker-1', 1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(await store.claimJob('worker-2', 1000)).toBeNull();
+    expect(await store.getJob('a')).toMatchObject({ status: 'failed' });
+    expect(await store.getSession('a')).toMatchObject({ status: 'error' });
+  });
+
+  it('does not claim a job before it is due', async () => {
+    await enqueue(store, [session('a')]);
+    const job = await store.claimJob('worker', 60000);
+    await store.failJob(job!.id, 'worker', 'Service Unavailable', new Date(Date.now() + 30000));
+
+    expect(await store.claimJob('worker', 60000)).toBeNull();
+    vi.advanceTimersByTime(30000);
+    expect(await store.claimJob('worker', 60000)).toMatchObject({ sessionId: 'a', lastError: 'Service Unavailable' });
+  });
+});
+
+describe('SqliteSessionRepository migrations', () => {
+  it('upgrades a database created by an earlier version', async () => {
+    const path = join(dataDir, 'sessions.db');
+    new SqliteSessionRepository(path).close();
+    const fresh = new Database(path);
+    const current = fresh.pragma('user_version', { simple: true });
+    fresh.close();
+
+    // The tables of the first schema that later migrations change
+    const old = new Database(join(dataDir, 'old.db'));
+    old.exec(`CREATE TABLE sessions (id TEXT PRIMARY KEY, user_id TEXT, consensus INTEGER NOT NULL DEFAULT 0, status TEXT NOT NULL,
+      total_images INTEGER NOT NULL, processed_images INTEGER NOT NULL DEFAULT 0, total_batches INTEGER NOT NULL,
+      completed_batches INTEGER NOT NULL DEFAULT 0, current_batch INTEGER, started_at TEXT NOT NULL, completed_at TEXT, error_message TEXT);
+      CREATE TABLE batches (id TEXT PRIMARY KEY, session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      batch_number INTEGER NOT NULL, status TEXT NOT NULL, series_context TEXT, started_at TEXT, completed_at TEXT,
+      ai_response TEXT, result TEXT, error_message TEXT, UNIQUE (session_id, batch_number));
+      INSERT INTO sessions (id, status, total_images, total_batches, started_at) VALUES ('legacy', 'completed', 1, 1, '2024-01-01T00:00:00.000Z');`);
+    old.pragma('user_version = 1');
+    old.close();
+
+    const store = new SqliteSessionRepository(join(dataDir, 'old.db'));
+    store.close();
+
+    const upgraded = new Database(join(dataDir, 'old.db'));
+    expect(upgraded.pragma('user_version', { simple: true })).toBe(current);
+    expect(upgraded.prepare('SELECT priority FROM sessions WHERE id = ?').get('legacy')).toEqual({ priority: 'routine' });
+    expect((upgraded.pragma('table_info(batches)') as Array<{ name: string }>).map(column => column.name))
+      .toEqual(expect.arrayContaining(['overrides', 'template_id']));
+    upgraded.close();
+  });
+});
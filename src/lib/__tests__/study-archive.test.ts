@@ -0,0 +1,54 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { StudyArchive } from '../study-archive';
+
+const limits = { maxMembers: 10, maxUnpackedBytes: 64 * 1024 };
+
+async function zip(members: Record<string, Buffer>): Promise<Buffer> {
+  const archive = new JSZip();
+  Object.entries(members).forEach(([name, data]) => archive.file(name, data));
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/** Rewrite the uncompressed size in every local and central directory header */
+function declareSize(archive: Buffer, size: number): Buffer {
+  const patched = Buffer.from(archive);
+  for (let offset = 0; offset < patched.length - 4; offset++) {
+    const signature = patched.readUInt32LE(offset);
+    if (signature === 0x04034b50) {
+      patched.writeUInt32LE(size, offset + 22);
+    } else if (signature === 0x02014b50) {
+      patched.writeUInt32LE(size, offset + 24);
+    }
+  }
+  return patched;
+}
+
+function upload(data: Buffer) {
+  return [{ name: 'study.zip', type: 'application/zip', read: async () => data }];
+}
+
+describe('StudyArchive.ingest', () => {
+  it('unpacks members within the size limit', async () => {
+    const { members, rejected } = await StudyArchive.ingest(upload(await zip({ 'slice.png': Buffer.alloc(1024) })), limits);
+
+    expect(rejected).toEqual([]);
+    expect(members).toMatchObject([{ name: 'study.zip/slice.png', size: 1024 }]);
+  });
+
+  it('rejects a member whose declared size is over the limit without unpacking it', async () => {
+    const archive = await zip({ 'slice.png': Buffer.alloc(128 * 1024), 'small.png': Buffer.alloc(1024) });
+    const { members, rejected } = await StudyArchive.ingest(upload(archive), limits);
+
+    expect(rejected).toEqual([{ name: 'study.zip/slice.png', reason: 'Unpacked archive size limit reached' }]);
+    expect(members.map(member => member.name)).toEqual(['study.zip/small.png']);
+  });
+
+  it('stops unpacking a member that understates its size', async () => {
+    const archive = declareSize(await zip({ 'slice.png': Buffer.alloc(1024 * 1024) }), 1024);
+    const { members, rejected } = await StudyArchive.ingest(upload(archive), limits);
+
+    expect(rejected).toEqual([{ name: 'study.zip/slice.png', reason: 'Unpacked archive size limit reached' }]);
+    expect(members).toEqual([]);
+  });
+});
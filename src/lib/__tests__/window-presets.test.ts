@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { WindowPresets } from '../window-presets';
+
+describe('WindowPresets.parseSelection', () => {
+  it('keeps the stored window unless presets are asked for', () => {
+    expect(WindowPresets.parseSelection(undefined)).toBe('stored');
+    expect(WindowPresets.parseSelection(null)).toBe('stored');
+    expect(WindowPresets.parseSelection('  ')).toBe('stored');
+    expect(WindowPresets.parseSelection('auto')).toBe('auto');
+  });
+
+  it('reads a list of preset ids and rejects unknown ones', () => {
+    expect(WindowPresets.parseSelection('lung, mediastinal')).toEqual(['lung', 'mediastinal']);
+    expect(() => WindowPresets.parseSelection('lung,sinus')).toThrow('Unknown window preset: sinus');
+  });
+});
+
+describe('WindowPresets.resolve', () => {
+  it('picks presets from the body part with auto and none with stored', () => {
+    const head = { modality: 'CT', bodyPartExamined: 'HEAD' };
+
+    expect(WindowPresets.resolve('auto', head).map(preset => preset.id)).toEqual(['brain', 'subdural', 'bone']);
+    expect(WindowPresets.resolve('stored', head)).toEqual([]);
+  });
+});
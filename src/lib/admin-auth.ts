@@ -0,0 +1,24 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Guard for admin endpoints: when ADMIN_TOKEN is set, requests must send it as a bearer
+ * token. Returns the error response to send, or null when the request may proceed.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return null;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json(
+      { error: 'Admin token required' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
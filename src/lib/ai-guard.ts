@@ -0,0 +1,212 @@
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  AIAnalysisRequest,
+  AIAnalysisResponse,
+  AIProvider,
+  AIProviderConfig,
+  AIProviderError,
+  AIProviderName,
+  DEFAULT_MAX_TOKENS,
+  classifyAIError,
+  createAIProvider,
+  getAIProviderConfig
+} from './ai-provider';
+import { RateLimiter, RateLimiterOptions, RateLimiterStatus } from './rate-limiter';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerStatus } from './circuit-breaker';
+
+export interface AIGuardOptions extends RateLimiterOptions, CircuitBreakerOptions {
+  /** Retries of a retryable failure within one call */
+  maxRetries: number;
+  /** First retry delay; doubles per attempt, with jitter */
+  retryBaseDelayMs: number;
+}
+
+export interface AIGuardStatus {
+  provider: AIProviderName;
+  model: string;
+  limiter: RateLimiterStatus;
+  circuit: CircuitBreakerStatus;
+}
+
+// Used when the caller gives no estimate of the image tokens
+const FALLBACK_IMAGE_TOKENS = 1600;
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Rate limiters and circuit breakers shared by every request in the process, one per
+ * provider and model, so concurrent sessions draw from the same quota
+ */
+export class AIGuard {
+  private static guards = new Map<string, { provider: AIProviderName; model: string; limiter: RateLimiter; breaker: CircuitBreaker }>();
+
+  static shared(provider: AIProvider, options: AIGuardOptions): { limiter: RateLimiter; breaker: CircuitBreaker } {
+    const key = `${provider.name}:${provider.model}`;
+    let guard = this.guards.get(key);
+    if (!guard) {
+      guard = {
+        provider: provider.name,
+        model: provider.model,
+        limiter: new RateLimiter(options),
+        breaker: new CircuitBreaker(options)
+      };
+      this.guards.set(key, guard);
+    }
+    return guard;
+  }
+
+  static status(): AIGuardStatus[] {
+    return [...this.guards.values()].map(guard => ({
+      provider: guard.provider,
+      model: guard.model,
+      limiter: guard.limiter.status(),
+      circuit: guard.breaker.status()
+    }));
+  }
+}
+
+/**
+ * Provider wrapper that waits for the circuit breaker and rate limiter before each call and
+ * retries transient failures, honouring Retry-After. Fatal errors are thrown at once, and
+ * so is the last failure once the retries are used up, marked as no longer retryable.
+ */
+export class GuardedProvider implements AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  private limiter: RateLimiter;
+  private breaker: CircuitBreaker;
+
+  constructor(private provider: AIProvider, private options: AIGuardOptions = getAIGuardOptions()) {
+    this.name = provider.name;
+    this.model = provider.model;
+    ({ limiter: this.limiter, breaker: this.breaker } = AIGuard.shared(provider, options));
+  }
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const estimate = this.estimateTokens(request);
+
+    for (let attempt = 0; ; attempt++) {
+      await this.breaker.acquire(request.signal);
+      try {
+        await this.limiter.acquire(estimate, request.signal);
+        const response = await this.provider.analyze(request);
+        this.breaker.record();
+        if (response.usage) {
+          this.limiter.reconcile(estimate, response.usage.inputTokens + response.usage.outputTokens);
+        }
+        // Usage is billed and counted against budgets even when the provider leaves it out
+        return { ...response, usage: response.usage ?? this.estimateUsage(request, response.text) };
+      } catch (error) {
+        this.breaker.record(error, request.signal);
+        const { retryable, retryAfterMs } = classifyAIError(error, request.signal);
+        if (retryAfterMs !== undefined) {
+          this.limiter.pause(retryAfterMs);
+        }
+        if (!retryable || request.signal?.aborted) {
+          throw error;
+        }
+        if (attempt >= this.options.maxRetries) {
+          throw this.exhausted(error);
+        }
+
+        const delay = Math.max(retryAfterMs ?? 0, this.backoff(attempt));
+        console.warn(`${this.name} request failed, retry ${attempt + 1} of ${this.options.maxRetries} in ${delay} ms:`, (error as Error).message);
+        await sleep(delay, undefined, { signal: request.signal });
+        request.onRetry?.(attempt + 1, error as Error);
+      }
+    }
+  }
+
+  /**
+   * The error of a call whose retries are used up. Retrying the call would only repeat them,
+   * so it is no longer retryable, unless the failures opened the circuit: then it may be
+   * tried again once the cooldown is over.
+   */
+  private exhausted(error: unknown): AIProviderError {
+    const { reason, retryAfterMs } = classifyAIError(error);
+    const message = error instanceof Error ? error.message : String(error);
+    const status = error instanceof AIProviderError ? error.status : undefined;
+    const circuit = this.breaker.status();
+
+    if (circuit.state === 'open' && circuit.retryAt) {
+      return new AIProviderError(message, {
+        reason: 'circuit_open',
+        retryable: true,
+        status,
+        retryAfterMs: Math.max(Date.parse(circuit.retryAt) - Date.now(), retryAfterMs ?? 0)
+      });
+    }
+    return new AIProviderError(message, { reason, retryable: false, status });
+  }
+
+  private estimateTokens(request: AIAnalysisRequest): number {
+    return this.estimateInputTokens(request) + (request.maxTokens ?? DEFAULT_MAX_TOKENS);
+  }
+
+  private estimateInputTokens(request: AIAnalysisRequest): number {
+    return request.estimatedInputTokens
+      ?? Math.ceil(request.prompt.length / 4) + request.images.length * FALLBACK_IMAGE_TOKENS;
+  }
+
+  private estimateUsage(request: AIAnalysisRequest, text: string): NonNullable<AIAnalysisResponse['usage']> {
+    return {
+      inputTokens: this.estimateInputTokens(request),
+      outputTokens: Math.ceil(text.length / 4),
+      estimated: true
+    };
+  }
+
+  private backoff(attempt: number): number {
+    const delay = Math.min(this.options.retryBaseDelayMs * Math.pow(2, attempt), MAX_RETRY_DELAY_MS);
+    return Math.round(delay * (0.5 + Math.random() / 2));
+  }
+}
+
+/**
+ * Route response for a failed AI call: 503 with Retry-After when trying again later may
+ * succeed, 502 when the provider rejected the request or kept failing through every retry
+ * of the GuardedProvider
+ */
+export function aiErrorStatus(error: unknown): { status: number; retryable: boolean; headers?: Record<string, string> } {
+  const { retryable, retryAfterMs } = classifyAIError(error);
+  if (!retryable) {
+    return { status: error instanceof AIProviderError ? 502 : 500, retryable };
+  }
+  return {
+    status: 503,
+    retryable,
+    headers: retryAfterMs !== undefined ? { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) } : undefined
+  };
+}
+
+/**
+ * Limits from AI_REQUESTS_PER_MINUTE, AI_TOKENS_PER_MINUTE, AI_MAX_RETRIES,
+ * AI_RETRY_BASE_DELAY_MS, AI_CIRCUIT_FAILURE_THRESHOLD and AI_CIRCUIT_COOLDOWN_MS
+ */
+export function getAIGuardOptions(): AIGuardOptions {
+  const integer = (name: string, fallback: number, allowZero = false): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+      throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+    }
+    return parsed;
+  };
+
+  return {
+    requestsPerMinute: integer('AI_REQUESTS_PER_MINUTE', 50, true),
+    // Off by default: gateways count tokens differently and most quotas are per request
+    tokensPerMinute: integer('AI_TOKENS_PER_MINUTE', 0, true),
+    maxRetries: integer('AI_MAX_RETRIES', 3, true),
+    retryBaseDelayMs: integer('AI_RETRY_BASE_DELAY_MS', 2000),
+    failureThreshold: integer('AI_CIRCUIT_FAILURE_THRESHOLD', 5),
+    cooldownMs: integer('AI_CIRCUIT_COOLDOWN_MS', 30000)
+  };
+}
+
+/**
+ * Provider selected by configuration, behind the shared rate limiter and circuit breaker
+ */
+export function createGuardedAIProvider(config: AIProviderConfig = getAIProviderConfig()): AIProvider {
+  return new GuardedProvider(createAIProvider(config));
+}
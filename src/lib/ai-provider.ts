@@ -0,0 +1,622 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+
+export type AIProviderName = 'openai' | 'anthropic' | 'mock';
+
+export interface AIImage {
+  /** Base64 payload without a data URL prefix */
+  base64: string;
+  mediaType: string;
+}
+
+export interface AIAnalysisRequest {
+  prompt: string;
+  images: AIImage[];
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  /** Stream the completion, receiving text as the model writes it */
+  onText?: (delta: string) => void;
+  /** Estimated input tokens (prompt and images), used for rate limiting */
+  estimatedInputTokens?: number;
+  /** Called before a failed request is sent again; text streamed so far is void */
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+export interface AIAnalysisResponse {
+  text: string;
+  provider: AIProviderName;
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+    /** Estimated from the request and the answer's length; the provider reported none */
+    estimated?: boolean;
+  };
+}
+
+/**
+ * One vision model endpoint. Adapters translate the request into the vendor's wire format.
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse>;
+}
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  /** Sent as the CustomerId header by OpenAI-compatible gateways that bill per customer */
+  customerId?: string;
+  /** Whole request for plain calls; longest silence between chunks when streaming */
+  timeoutMs: number;
+  /** Mock provider: directory of canned responses */
+  fixtureDir?: string;
+  /** Mock provider: pause between streamed chunks */
+  streamDelayMs?: number;
+}
+
+interface OpenAICompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string }; delta?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface AnthropicMessage {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+export type AIErrorReason =
+  | 'rate_limited'
+  | 'overloaded'
+  | 'server_error'
+  | 'timeout'
+  | 'network'
+  | 'circuit_open'
+  | 'rejected'
+  | 'aborted'
+  | 'unknown';
+
+/**
+ * Failed provider call, with what the caller needs to decide whether to try again
+ */
+export class AIProviderError extends Error {
+  readonly status?: number;
+  readonly reason: AIErrorReason;
+  readonly retryable: boolean;
+  /** Wait requested by the provider (Retry-After), when it sent one */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { reason: AIErrorReason; retryable: boolean; status?: number; retryAfterMs?: number }) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.status = options.status;
+    this.reason = options.reason;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /**
+   * Error for an HTTP failure: 408, 409, 425, 429 and 5xx (529 is Anthropic's overloaded)
+   * are worth retrying, other 4xx will fail the same way again
+   */
+  static fromResponse(provider: string, status: number, body: string, headers: Headers): AIProviderError {
+    const reason: AIErrorReason = status === 429
+      ? 'rate_limited'
+      : status === 503 || status === 529
+        ? 'overloaded'
+        : status >= 500
+          ? 'server_error'
+          : status === 408
+            ? 'timeout'
+            : 'rejected';
+    return new AIProviderError(`${provider} request failed: ${status} - ${body}`, {
+      reason,
+      retryable: reason !== 'rejected' || status === 409 || status === 425,
+      status,
+      retryAfterMs: parseRetryAfter(headers)
+    });
+  }
+}
+
+/**
+ * Retry-After as seconds or an HTTP date, or the retry-after-ms header some gateways send
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether a failed call may succeed when repeated. Errors that are not AIProviderErrors
+ * are classified by their name: timeouts and network failures are transient, aborts and
+ * anything unrecognised are not. Any failure after the caller's signal fired is an abort,
+ * whatever reason the signal was given.
+ */
+export function classifyAIError(
+  error: unknown,
+  signal?: AbortSignal
+): { reason: AIErrorReason; retryable: boolean; retryAfterMs?: number } {
+  if (signal?.aborted) {
+    return { reason: 'aborted', retryable: false };
+  }
+  if (error instanceof AIProviderError) {
+    return { reason: error.reason, retryable: error.retryable, retryAfterMs: error.retryAfterMs };
+  }
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return { reason: 'aborted', retryable: false };
+    }
+    if (error.name === 'TimeoutError') {
+      return { reason: 'timeout', retryable: true };
+    }
+    // fetch reports connection failures as TypeError('fetch failed')
+    if (error.name === 'TypeError' && /fetch failed|network/i.test(error.message)) {
+      return { reason: 'network', retryable: true };
+    }
+  }
+  return { reason: 'unknown', retryable: false };
+}
+
+export const DEFAULT_MAX_TOKENS = 4000;
+const DEFAULT_TEMPERATURE = 0.1;
+const MOCK_CHUNK_LENGTH = 24;
+
+/**
+ * Split a data URL into media type and payload; bare base64 is assumed to be PNG
+ */
+export function toAIImage(value: string, fallbackMediaType = 'image/png'): AIImage {
+  const match = value.match(/^data:([^;,]+);base64,([\s\S]*)$/);
+  return match
+    ? { mediaType: match[1], base64: match[2] }
+    : { mediaType: fallbackMediaType, base64: value };
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal: AbortSignal, provider: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw AIProviderError.fromResponse(provider, response.status, errorText, response.headers);
+  }
+  return response;
+}
+
+/**
+ * Abort signal for a request. Streams time out after a silence of timeoutMs rather than a
+ * fixed total, so long reports keep going while tokens arrive.
+ */
+function requestTimeout(request: AIAnalysisRequest, timeoutMs: number): { signal: AbortSignal; touch: () => void; clear: () => void } {
+  if (!request.onText) {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    return {
+      signal: request.signal ? AbortSignal.any([request.signal, timeout]) : timeout,
+      touch: () => undefined,
+      clear: () => undefined
+    };
+  }
+
+  const idle = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => idle.abort(
+      new AIProviderError(`No data received for ${timeoutMs} ms`, { reason: 'timeout', retryable: true })
+    ), timeoutMs);
+  };
+  touch();
+
+  return {
+    signal: request.signal ? AbortSignal.any([request.signal, idle.signal]) : idle.signal,
+    touch,
+    clear: () => clearTimeout(timer)
+  };
+}
+
+/**
+ * Parse a text/event-stream body, calling onEvent for every complete event
+ */
+async function readEventStream(
+  response: Response,
+  onEvent: (event: string | undefined, data: string) => void,
+  onChunk: () => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) {
+      onEvent(event, data.join('\n'));
+    }
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      onChunk();
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+    if (buffer.trim()) {
+      dispatch(buffer);
+    }
+  } catch (error) {
+    // Stop the download when a handler rejects an event
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Chat Completions API (OpenAI, OpenRouter and compatible gateways)
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const headers: Record<string, string> = { 'Authorization': `Bearer ${this.config.apiKey}` };
+    if (this.config.customerId) {
+      headers['CustomerId'] = this.config.customerId;
+    }
+
+    const timeout = requestTimeout(request, this.config.timeoutMs);
+    try {
+      const response = await post(`${this.config.baseURL}/chat/completions`, headers, {
+        model: this.model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: request.prompt },
+              ...request.images.map(image => ({
+                type: 'image_url',
+                image_url: { url: `data:${image.mediaType};base64,${image.base64}` }
+              }))
+            ]
+          }
+        ],
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        stream: Boolean(request.onText),
+        // Streams carry no usage unless asked for; it arrives in a final chunk
+        ...(request.onText && { stream_options: { include_usage: true } })
+      }, timeout.signal, 'OpenAI-compatible');
+
+      return request.onText
+        ? await this.readStream(response, request.onText, timeout.touch)
+        : this.readCompletion(await response.json());
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private readCompletion(data: OpenAICompletion): AIAnalysisResponse {
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new Error('Invalid response from AI service');
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: data.model || this.model,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens ?? 0,
+        outputTokens: data.usage.completion_tokens ?? 0
+      }
+    };
+  }
+
+  private async readStream(response: Response, onText: (delta: string) => void, touch: () => void): Promise<AIAnalysisResponse> {
+    const result: AIAnalysisResponse = { text: '', provider: this.name, model: this.model };
+
+    await readEventStream(response, (_event, data) => {
+      if (data === '[DONE]') return;
+      const chunk: OpenAICompletion = JSON.parse(data);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        result.text += delta;
+        onText(delta);
+      }
+      if (chunk.model) result.model = chunk.model;
+      if (chunk.usage) {
+        result.usage = {
+          inputTokens: chunk.usage.prompt_tokens ?? 0,
+          outputTokens: chunk.usage.completion_tokens ?? 0
+        };
+      }
+    }, touch);
+
+    return result;
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const timeout = requestTimeout(request, this.config.timeoutMs);
+    try {
+      const response = await post(`${this.config.baseURL}/v1/messages`, {
+        'x-api-key': this.config.apiKey || '',
+        'anthropic-version': '2023-06-01'
+      }, {
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        stream: Boolean(request.onText),
+        messages: [
+          {
+            role: 'user',
+            content: [
+              // Images before the instructions, as recommended for vision prompts
+              ...request.images.map(image => ({
+                type: 'image',
+                source: { type: 'base64', media_type: image.mediaType, data: image.base64 }
+              })),
+              { type: 'text', text: request.prompt }
+            ]
+          }
+        ]
+      }, timeout.signal, 'Anthropic');
+
+      return request.onText
+        ? await this.readStream(response, request.onText, timeout.touch)
+        : this.readMessage(await response.json());
+    } finally {
+      timeout.clear();
+    }
+  }
+
+  private readMessage(data: AnthropicMessage): AIAnalysisResponse {
+    const blocks = Array.isArray(data.content) ? data.content : [];
+    const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('\n');
+    if (!text) {
+      throw new Error('Invalid response from AI service');
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: data.model || this.model,
+      usage: data.usage && {
+        inputTokens: data.usage.input_tokens ?? 0,
+        outputTokens: data.usage.output_tokens ?? 0
+      }
+    };
+  }
+
+  private async readStream(response: Response, onText: (delta: string) => void, touch: () => void): Promise<AIAnalysisResponse> {
+    const result: AIAnalysisResponse = { text: '', provider: this.name, model: this.model };
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    await readEventStream(response, (event, data) => {
+      const payload = JSON.parse(data);
+      switch (event ?? payload.type) {
+        case 'message_start':
+          result.model = payload.message?.model || result.model;
+          usage.inputTokens = payload.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (payload.delta?.type === 'text_delta' && payload.delta.text) {
+            result.text += payload.delta.text;
+            onText(payload.delta.text);
+          }
+          break;
+        case 'message_delta':
+          usage.outputTokens = payload.usage?.output_tokens ?? usage.outputTokens;
+          break;
+        case 'error': {
+          // Overload can also arrive mid-stream, after a 200 response
+          const overloaded = payload.error?.type === 'overloaded_error';
+          throw new AIProviderError(`Anthropic stream error: ${payload.error?.message || 'unknown error'}`, {
+            reason: overloaded ? 'overloaded' : 'server_error',
+            retryable: overloaded || payload.error?.type === 'api_error',
+            status: overloaded ? 529 : undefined
+          });
+        }
+      }
+    }, touch);
+
+    result.usage = usage;
+    return result;
+  }
+}
+
+/**
+ * Offline provider: answers from fixture files keyed by a hash of the request, falling back
+ * to default.txt and then to a generated report. Identical requests always get identical text.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  /**
+   * Fixture key for a request: sha256 over the prompt and image payloads
+   */
+  static requestKey(request: Pick<AIAnalysisRequest, 'prompt' | 'images'>): string {
+    const hash = createHash('sha256').update(request.prompt);
+    request.images.forEach(image => hash.update('\0').update(image.base64));
+    return hash.digest('hex');
+  }
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    request.signal?.throwIfAborted();
+    const key = MockProvider.requestKey(request);
+    const text = await this.readFixture(`${key}.txt`)
+      ?? await this.readFixture('default.txt')
+      ?? this.generateReport(key, request.images.length);
+
+    if (request.onText) {
+      for (let offset = 0; offset < text.length; offset += MOCK_CHUNK_LENGTH) {
+        if (this.config.streamDelayMs) {
+          await new Promise(resolve => setTimeout(resolve, this.config.streamDelayMs));
+        }
+        request.signal?.throwIfAborted();
+        request.onText(text.slice(offset, offset + MOCK_CHUNK_LENGTH));
+      }
+    }
+
+    return {
+      text,
+      provider: this.name,
+      model: this.model,
+      usage: {
+        inputTokens: Math.ceil(request.prompt.length / 4),
+        outputTokens: Math.ceil(text.length / 4)
+      }
+    };
+  }
+
+  private async readFixture(fileName: string): Promise<string | undefined> {
+    if (!this.config.fixtureDir) {
+      return undefined;
+    }
+    try {
+      return await readFile(join(this.config.fixtureDir, fileName), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Normal study in the structured findings format, so offline runs pass validation
+   */
+  private generateReport(key: string, imageCount: number): string {
+    return JSON.stringify({
+      findings: [],
+      recommendations: ['Mock response generated offline; not a medical interpretation'],
+      urgency: 'routine',
+      impression: `Mock analysis of ${imageCount} image${imageCount === 1 ? '' : 's'} (request ${key.slice(0, 12)})`,
+      caseSummary: 'No abnormal findings so far (mock)'
+    }, null, 2);
+  }
+}
+
+/**
+ * Provider settings from AI_PROVIDER, AI_MODEL, AI_API_KEY, AI_BASE_URL, AI_TIMEOUT_MS,
+ * AI_MOCK_FIXTURE_DIR and AI_MOCK_STREAM_DELAY_MS. The OpenRouter variables remain as fallbacks for the OpenAI-compatible
+ * gateway.
+ *
+ * A provider other than AI_PROVIDER (e.g. a second model for consensus reading) ignores
+ * AI_MODEL, AI_API_KEY and AI_BASE_URL, which belong to the primary provider, and uses the
+ * vendor variables instead.
+ */
+export function getAIProviderConfig(
+  provider: AIProviderName = (process.env.AI_PROVIDER || 'openai') as AIProviderName,
+  model?: string
+): AIProviderConfig {
+  const primary = provider === (process.env.AI_PROVIDER || 'openai');
+  const env = (name: string) => (primary ? process.env[name] : undefined);
+  const timeoutMs = Number(process.env.AI_TIMEOUT_MS || 300000);
+
+  switch (provider) {
+    case 'openai':
+      return {
+        provider,
+        model: model || env('AI_MODEL') || 'openrouter/anthropic/claude-3.5-sonnet',
+        apiKey: env('AI_API_KEY') || process.env.OPENROUTER_API_KEY,
+        baseURL: (env('AI_BASE_URL') || 'https://oi-server.onrender.com').replace(/\/$/, ''),
+        customerId: process.env.AI_CUSTOMER_ID || process.env.OPENROUTER_CUSTOMER_ID || process.env.CUSTOMER_ID,
+        timeoutMs
+      };
+    case 'anthropic':
+      return {
+        provider,
+        model: model || env('AI_MODEL') || 'claude-3-5-sonnet-latest',
+        apiKey: env('AI_API_KEY') || process.env.ANTHROPIC_API_KEY,
+        baseURL: (env('AI_BASE_URL') || 'https://api.anthropic.com').replace(/\/$/, ''),
+        timeoutMs
+      };
+    case 'mock':
+      return {
+        provider,
+        model: model || env('AI_MODEL') || 'mock-radiologist',
+        fixtureDir: process.env.AI_MOCK_FIXTURE_DIR,
+        streamDelayMs: Number(process.env.AI_MOCK_STREAM_DELAY_MS || 0),
+        timeoutMs
+      };
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${provider}"; expected openai, anthropic or mock`);
+  }
+}
+
+/**
+ * Provider selected by configuration
+ */
+export function createAIProvider(config: AIProviderConfig = getAIProviderConfig()): AIProvider {
+  if (config.provider !== 'mock' && !config.apiKey) {
+    throw new Error(`An API key is required for the ${config.provider} provider (set AI_API_KEY)`);
+  }
+
+  switch (config.provider) {
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    default:
+      return new OpenAICompatibleProvider(config);
+  }
+}
@@ -1,23 +1,72 @@
-import { DiagnosticReport, ProcessingStatus, ImageBatch } from '@/types/medical';
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { setTimeout as sleep } from 'timers/promises';
+import { dirname, join } from 'path';
+import { DiagnosticFinding, DiagnosticReport, MedicalImage, ProcessingBatch, ProcessingSession, ProcessingStatus, ProcessedImage, SessionPriority } from '@/types/medical';
+import { SeriesBatch, SeriesOrganizer } from './series-organizer';
+import { BatchOutcome, CaseSynthesis, CaseSynthesisResult } from './case-synthesis';
+import { ImageBudget, ImageBudgetOptions, getImageBudgetOptions } from './image-budget';
+import { AIProviderError, AIProviderName, classifyAIError, getAIProviderConfig, parseRetryAfter } from './ai-provider';
+import { SessionRepository, SessionStore } from './session-store';
+import { BatchScheduler } from './batch-scheduler';
+import { dataPath } from './storage-paths';
 
 export interface BatchProcessorOptions {
+  /** Most images per batch; batches are cut smaller when the image budget requires */
   batchSize: number;
+  imageBudget: ImageBudgetOptions;
   maxRetries: number;
   retryDelay: number;
+  /** Reuse cached results for batches already analysed with the same images and prompt */
+  useCache: boolean;
+  /** Who the session runs for; token usage is accounted to this user */
+  userId?: string;
+  /** Read every batch with all models in AI_CONSENSUS_MODELS, for high-stakes studies */
+  consensus: boolean;
+  /**
+   * Reading priority of new sessions, routine when not given. Infer it with
+   * SessionPriorities.infer from metadata read before de-identification, which removes the
+   * study and series descriptions it looks at.
+   */
+  priority?: SessionPriority;
+  /** Origin of this app's API routes, see getApiBaseUrl */
+  apiBaseUrl: string;
+  /**
+   * Awaited before each batch is sent, once it has a slot. false holds that batch and every
+   * later one back; the run then ends, unfinished.
+   */
+  onBatchStart?: (batchIndex: number) => Promise<boolean | void> | boolean | void;
   onProgress?: (progress: ProcessingStatus) => void;
   onBatchComplete?: (batchIndex: number, result: any) => void;
   onError?: (error: Error, batchIndex: number) => void;
 }
 
+/**
+ * A stored batch with its images read back for sending
+ */
+interface LoadedBatch {
+  batch: ProcessingBatch;
+  images: ProcessedImage[];
+}
+
 export class BatchProcessor {
   private options: BatchProcessorOptions;
   private processingStatus: ProcessingStatus;
 
-  constructor(options: Partial<BatchProcessorOptions> = {}) {
+  constructor(
+    options: Partial<BatchProcessorOptions> = {},
+    private store: SessionRepository = SessionStore.getInstance(),
+    private scheduler: BatchScheduler = BatchScheduler.getInstance()
+  ) {
+    const imageBudget = options.imageBudget ?? getImageBudgetOptions();
     this.options = {
-      batchSize: 20,
+      batchSize: imageBudget.maxImagesPerRequest,
+      imageBudget,
       maxRetries: 3,
       retryDelay: 2000,
+      useCache: true,
+      consensus: false,
+      apiBaseUrl: getApiBaseUrl(),
       ...options,
     };
 
@@ -32,149 +81,393 @@ export class BatchProcessor {
     };
   }
 
-  async processImages(images: string[], sessionId: string): Promise<DiagnosticReport> {
-    this.processingStatus = {
+  /**
+   * Store the images as a new session, cut into batches, ready for processSession
+   */
+  async createSession(images: ProcessedImage[], sessionId: string = randomUUID()): Promise<ProcessingSession> {
+    const batches = await this.createBatches(images);
+    const stored = new Map(await Promise.all(images.map(async (image, position) =>
+      [image, await this.saveImage(sessionId, image, position)] as const
+    )));
+
+    const session: ProcessingSession = {
+      id: sessionId,
+      userId: this.options.userId,
+      consensus: this.options.consensus,
+      priority: this.options.priority ?? 'routine',
       totalImages: images.length,
       processedImages: 0,
-      currentBatch: 0,
-      totalBatches: Math.ceil(images.length / this.options.batchSize),
-      status: 'processing',
-      errors: [],
-      results: [],
+      totalBatches: batches.length,
+      completedBatches: 0,
+      status: 'queued',
+      startedAt: new Date(),
+      images: [...stored.values()],
+      batches: batches.map((batch, index) => ({
+        id: `${sessionId}-${index + 1}`,
+        sessionId,
+        batchNumber: index + 1,
+        images: batch.images.map(image => stored.get(image)!),
+        status: 'pending',
+        seriesContext: SeriesOrganizer.describeBatch(batch),
+        templateId: batch.images.find(image => image.promptTemplateId)?.promptTemplateId
+      }))
     };
 
-    const batches = this.createBatches(images);
-    const batchResults: any[] = [];
+    await this.store.createSession(session);
+    return session;
+  }
 
-    for (let i = 0; i < batches.length; i++) {
-      this.processingStatus.currentBatch = i + 1;
-      this.options.onProgress?.(this.processingStatus);
+  /**
+   * Analyse the batches of a stored session. Progress is saved after each batch and the
+   * report at the end, so status and report routes in any request can read them. Batches
+   * finished by an earlier, interrupted run are kept, so processing resumes where it stopped.
+   * When the signal fires the run stops and the session is left to be resumed.
+   *
+   * Batches run in order, each sent the case summary of the batches before it, so a study
+   * reads the same whatever the concurrency. Each waits for a slot of its provider from the
+   * BatchScheduler, whose further slots serve other sessions.
+   */
+  async processSession(sessionId: string, signal?: AbortSignal): Promise<DiagnosticReport> {
+    const session = await this.store.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
 
-      try {
-        const result = await this.processBatchWithRetry(batches[i], i, sessionId);
-        batchResults.push(result);
-        this.processingStatus.results.push(result);
-        this.processingStatus.processedImages += batches[i].length;
-        this.options.onBatchComplete?.(i, result);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.processingStatus.errors.push({
-          batchIndex: i,
-          error: errorMessage,
-          timestamp: new Date().toISOString(),
-        });
-        this.options.onError?.(error as Error, i);
+    // Set when onBatchStart holds a batch back; no batch starts after that
+    let heldAt: number | undefined;
+
+    try {
+      await this.store.updateSession(session.id, { status: 'processing', completedAt: undefined, errorMessage: undefined });
+
+      this.processingStatus = {
+        totalImages: session.totalImages,
+        processedImages: 0,
+        currentBatch: 0,
+        totalBatches: session.totalBatches,
+        status: 'processing',
+        errors: [],
+        results: [],
+      };
+
+      // By batch index, so the report does not depend on which batch finished first
+      const results: any[] = new Array(session.batches.length);
+      const pending: ProcessingBatch[] = [];
+
+      for (const batch of session.batches) {
+        const i = batch.batchNumber - 1;
+        if (batch.status === 'completed' && batch.result) {
+          results[i] = batch.result;
+          this.processingStatus.results.push(batch.result);
+          this.processingStatus.processedImages += batch.images.length;
+        } else if (batch.status === 'error') {
+          this.processingStatus.errors.push({
+            batchIndex: i,
+            error: batch.errorMessage || 'Unknown error',
+            timestamp: (batch.completedAt ?? new Date()).toISOString(),
+          });
+        } else {
+          pending.push(batch);
+        }
       }
 
-      this.options.onProgress?.(this.processingStatus);
+      const runBatch = async (batch: ProcessingBatch, caseSummary?: string): Promise<void> => {
+        const i = batch.batchNumber - 1;
+        const imageIds = batch.images.map(image => image.id);
+
+        const release = await this.scheduler.acquire(this.providerFor(batch), session.id, signal, session.priority);
+        try {
+          if (heldAt !== undefined || await this.options.onBatchStart?.(i) === false) {
+            heldAt ??= i;
+            return;
+          }
+          signal?.throwIfAborted();
+          this.processingStatus.currentBatch = batch.batchNumber;
+          this.options.onProgress?.(this.processingStatus);
+          await this.store.updateSession(session.id, { currentBatch: batch.batchNumber });
+          await this.store.updateBatch(batch.id, { status: 'processing', startedAt: new Date(), completedAt: undefined, errorMessage: undefined });
+          await this.store.updateImages(session.id, imageIds, { status: 'processing' });
+
+          try {
+            const loaded = { batch, images: await Promise.all(batch.images.map(image => this.loadImage(image))) };
+            const result = await this.processBatchWithRetry(loaded, session, caseSummary, signal);
+            results[i] = result;
+            this.processingStatus.results.push(result);
+            this.processingStatus.processedImages += batch.images.length;
+
+            await this.store.updateBatch(batch.id, { status: 'completed', completedAt: new Date(), aiResponse: result.analysis, result });
+            await this.store.updateImages(session.id, imageIds, { status: 'processed' });
+            await this.store.updateSession(session.id, {
+              processedImages: this.processingStatus.processedImages,
+              completedBatches: results.filter(Boolean).length
+            });
+            this.options.onBatchComplete?.(i, result);
+          } catch (error) {
+            // Stopped, not failed: the batch runs again when the session resumes
+            if (signal?.aborted) {
+              throw error;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.processingStatus.errors.push({
+              batchIndex: i,
+              error: errorMessage,
+              timestamp: new Date().toISOString(),
+            });
+            await this.store.updateBatch(batch.id, { status: 'error', completedAt: new Date(), errorMessage });
+            await this.store.updateImages(session.id, imageIds, { status: 'error', errorMessage });
+            this.options.onError?.(error as Error, i);
+          }
+
+          this.options.onProgress?.(this.processingStatus);
+        } finally {
+          release();
+        }
+      };
+
+      for (const batch of pending) {
+        // Carried from batch to batch so findings spanning batches are recognised
+        const caseSummary = results.slice(0, batch.batchNumber - 1).findLast(result => result?.caseSummary)?.caseSummary;
+        await runBatch(batch, caseSummary);
+      }
+
+      signal?.throwIfAborted();
+      if (heldAt !== undefined) {
+        const held = new Error(`Stopped before batch ${heldAt + 1}`);
+        held.name = 'AbortError';
+        throw held;
+      }
+
+      const batchResults = results.filter(Boolean);
+      this.processingStatus.results = batchResults;
+      this.processingStatus.status = 'completed';
+      const report = await this.generateFinalReport(batchResults, session);
+      await this.store.saveReport(report);
+      await this.store.updateSession(session.id, {
+        status: batchResults.length > 0 ? 'completed' : 'error',
+        // Batches kept from an earlier run after the last re-run one are counted too
+        processedImages: this.processingStatus.processedImages,
+        completedBatches: batchResults.length,
+        currentBatch: undefined,
+        completedAt: new Date(),
+        errorMessage: batchResults.length > 0 ? undefined : 'Every batch failed'
+      });
+      return report;
+    } catch (error) {
+      // Stopped, not failed
+      if (signal?.aborted || heldAt !== undefined) {
+        throw error;
+      }
+      await this.store.updateSession(session.id, {
+        status: 'error',
+        completedAt: new Date(),
+        errorMessage: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
     }
+  }
 
-    this.processingStatus.status = 'completed';
-    return this.generateFinalReport(batchResults, sessionId);
+  /**
+   * Store the images as a session and process it
+   */
+  async processImages(images: ProcessedImage[], sessionId: string): Promise<DiagnosticReport> {
+    await this.createSession(images, sessionId);
+    return this.processSession(sessionId);
   }
 
-  private createBatches(images: string[]): string[][] {
-    const batches: string[][] = [];
-    for (let i = 0; i < images.length; i += this.options.batchSize) {
-      batches.push(images.slice(i, i + this.options.batchSize));
-    }
-    return batches;
+  getSession(sessionId: string): Promise<ProcessingSession | null> {
+    return this.store.getSession(sessionId);
+  }
+
+  /**
+   * Batches never span two series, slices within a series arrive in anatomical order and
+   * each batch fits the image token budget
+   */
+  private async createBatches(images: ProcessedImage[]): Promise<SeriesBatch<ProcessedImage>[]> {
+    const { imageBudget } = this.options;
+    const costs = new Map(await Promise.all(images.map(async image =>
+      [image, await ImageBudget.cost(image.base64Data, image.metadata, imageBudget)] as const
+    )));
+    return SeriesOrganizer.createBatches(images, this.options.batchSize, {
+      maxTokens: imageBudget.requestTokenBudget,
+      cost: image => costs.get(image)!
+    });
+  }
+
+  /**
+   * Provider whose slots a batch takes: the one it is re-run with, else AI_PROVIDER.
+   * Consensus readings count against AI_PROVIDER too.
+   */
+  private providerFor(batch?: ProcessingBatch): AIProviderName {
+    return batch?.overrides?.provider ?? getAIProviderConfig().provider;
   }
 
   private async processBatchWithRetry(
-    batch: string[],
-    batchIndex: number,
-    sessionId: string
+    loaded: LoadedBatch,
+    session: ProcessingSession,
+    caseSummary?: string,
+    signal?: AbortSignal
   ): Promise<any> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt < this.options.maxRetries; attempt++) {
       try {
-        return await this.processSingleBatch(batch, batchIndex, sessionId);
+        return await this.processSingleBatch(loaded, session, caseSummary, signal);
       } catch (error) {
         lastError = error as Error;
+        // Rejected requests fail the same way every time, and a batch aborted from the
+        // dashboard stays aborted
+        const { retryable, retryAfterMs } = classifyAIError(error, signal);
+        if (!retryable) {
+          throw lastError;
+        }
         if (attempt < this.options.maxRetries - 1) {
-          await this.delay(this.options.retryDelay * Math.pow(2, attempt));
+          await this.delay(Math.max(retryAfterMs ?? 0, this.options.retryDelay * Math.pow(2, attempt)), signal);
         }
       }
     }
 
-    throw lastError || new Error(`Failed to process batch ${batchIndex} after ${this.options.maxRetries} attempts`);
+    throw lastError || new Error(`Failed to process batch ${loaded.batch.batchNumber - 1} after ${this.options.maxRetries} attempts`);
   }
 
   private async processSingleBatch(
-    batch: string[],
-    batchIndex: number,
-    sessionId: string
+    { batch, images }: LoadedBatch,
+    session: ProcessingSession,
+    caseSummary?: string,
+    signal?: AbortSignal
   ): Promise<any> {
-    const response = await fetch('/api/process-batch', {
+    const batchIndex = batch.batchNumber - 1;
+    const response = await fetch(`${this.options.apiBaseUrl}/api/process-batch`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      signal,
+      headers: this.headers(session),
       body: JSON.stringify({
-        images: batch,
+        images: images.map(image => image.base64Data),
+        imageIds: images.map(image => image.id),
+        seriesContext: batch.seriesContext,
+        metadata: images.find(image => image.metadata)?.metadata,
+        caseSummary,
+        // A re-run batch gets a fresh reading, with the template or model it was re-run with
+        cache: batch.overrides ? false : this.options.useCache,
+        templateId: batch.overrides?.templateId ?? batch.templateId,
+        provider: batch.overrides?.provider,
+        model: batch.overrides?.model,
+        consensus: session.consensus,
         batchIndex,
-        sessionId,
-        totalBatches: this.processingStatus.totalBatches,
+        sessionId: session.id,
+        totalBatches: session.totalBatches,
       }),
     });
 
     if (!response.ok) {
-      throw new Error(`Batch processing failed: ${response.statusText}`);
+      const failure = await response.json().catch(() => ({}));
+      if (failure.aborted) {
+        const aborted = new Error(`Batch ${batchIndex + 1} was aborted`);
+        aborted.name = 'AbortError';
+        throw aborted;
+      }
+      // The route marks AI failures as retryable or not; other server errors may be transient
+      throw new AIProviderError(`Batch processing failed: ${failure.details || failure.error || response.statusText}`, {
+        reason: response.status === 429 ? 'rate_limited' : response.status >= 500 ? 'server_error' : 'rejected',
+        retryable: failure.retryable ?? (response.status === 429 || response.status >= 500),
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers)
+      });
     }
 
-    return await response.json();
+    const data = await response.json();
+    return data.result;
   }
 
   private async generateFinalReport(
     batchResults: any[],
-    sessionId: string
+    session: ProcessingSession
   ): Promise<DiagnosticReport> {
     const validResults = batchResults.filter(result => result && result.analysis);
-    
-    const report: DiagnosticReport = {
-      sessionId,
-      timestamp: new Date().toISOString(),
-      totalImages: this.processingStatus.totalImages,
-      processedImages: this.processingStatus.processedImages,
-      totalBatches: this.processingStatus.totalBatches,
-      successfulBatches: validResults.length,
-      failedBatches: this.processingStatus.errors.length,
-      overallFindings: this.aggregateFindings(validResults),
-      batchSummaries: validResults.map((result, index) => ({
-        batchNumber: index + 1,
-        imageCount: result.imageCount || this.options.batchSize,
-        findings: result.analysis || 'No analysis available',
-        confidence: result.confidence || 'medium',
-        keyObservations: result.keyObservations || [],
-      })),
-      recommendations: this.generateRecommendations(validResults),
-      errors: this.processingStatus.errors,
-      processingStats: {
-        totalProcessingTime: 0,
-        averageBatchTime: 0,
-        successRate: (validResults.length / this.processingStatus.totalBatches) * 100,
+    const synthesis = await this.synthesize(validResults.map(result => ({
+      batchNumber: result.batchIndex + 1,
+      imageIds: result.imageIds || [],
+      findings: result.findings || [],
+      recommendations: result.recommendations || [],
+      urgency: result.urgency,
+      impression: result.impression,
+      rawText: result.structured ? undefined : result.analysis,
+    })), session);
+    // De-identified by the upload route, so these are pseudonyms
+    const metadata = session.images.find(image => image.dicomMetadata)?.dicomMetadata;
+
+    return {
+      id: randomUUID(),
+      sessionId: session.id,
+      patientInfo: metadata && {
+        name: metadata.patientName,
+        id: metadata.patientId,
+        studyDate: metadata.studyDate,
       },
+      summary: synthesis.summary,
+      findings: synthesis.findings,
+      urgency: synthesis.urgency,
+      recommendations: [
+        ...synthesis.recommendations,
+        ...this.generateRecommendations(validResults)
+      ],
+      batchReports: validResults.map(result => ({
+        batchNumber: result.batchIndex + 1,
+        imageCount: result.imageCount,
+        findings: result.analysis,
+        keyObservations: (result.findings || []).map((finding: DiagnosticFinding) =>
+          `${finding.category}${finding.location ? ` (${finding.location})` : ''}: ${finding.description}`
+        ),
+        urgency: result.urgency,
+        processedAt: new Date(result.processedAt ?? Date.now()),
+        promptTemplate: result.promptTemplate,
+        consensus: result.consensus && {
+          agreement: result.consensus.agreement,
+          discordant: result.consensus.discordant,
+          requiresReview: result.consensus.requiresReview,
+          disagreements: result.consensus.disagreements,
+        },
+      })),
+      totalImages: session.totalImages,
+      processedImages: this.processingStatus.processedImages,
+      createdAt: new Date(),
+      status: 'completed',
+      requiresReview: synthesis.findings.some(finding => finding.discordant)
+        || validResults.some(result => result.consensus?.requiresReview),
     };
-
-    return report;
   }
 
-  private aggregateFindings(results: any[]): string {
-    if (results.length === 0) {
-      return 'No successful analyses completed. Please review errors and retry processing.';
-    }
+  /**
+   * Headers of the worker's API calls. They go to the routes directly rather than through
+   * the authenticating proxy, so the session's user is passed on as the proxy would.
+   */
+  private headers(session: ProcessingSession): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(session.userId && { 'X-User-Id': session.userId }),
+    };
+  }
 
-    const findings = results
-      .map(result => result.analysis)
-      .filter(analysis => analysis && analysis.trim().length > 0);
+  /**
+   * Study-level impression and de-duplicated findings from the synthesis endpoint; the batch
+   * results are merged as they are when synthesis fails
+   */
+  private async synthesize(batches: BatchOutcome[], session: ProcessingSession): Promise<CaseSynthesisResult> {
+    try {
+      const response = await fetch(`${this.options.apiBaseUrl}/api/synthesize`, {
+        method: 'POST',
+        headers: this.headers(session),
+        body: JSON.stringify({ sessionId: session.id, batches }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Synthesis failed: ${response.statusText}`);
+      }
 
-    if (findings.length === 0) {
-      return 'Analysis completed but no specific findings were generated.';
+      const data = await response.json();
+      return data.result;
+    } catch (error) {
+      console.error('Study-level synthesis failed, merging batch results:', error);
+      return CaseSynthesis.merge(batches);
     }
-
-    return `Comprehensive analysis of ${this.processingStatus.totalImages} medical images across ${results.length} batches:\n\n${findings.join('\n\n')}`;
   }
 
   private generateRecommendations(results: any[]): string[] {
@@ -198,13 +491,59 @@ export class BatchProcessor {
       recommendations.push(`Processing success rate: ${successRate.toFixed(1)}%. Consider reprocessing failed batches.`);
     }
 
+    const disagreements = results.flatMap(result => result.consensus?.disagreements ?? []);
+    if (disagreements.length > 0) {
+      recommendations.push(`Models disagree on ${disagreements.length} point${disagreements.length === 1 ? '' : 's'} (${disagreements.join('; ')}); radiologist review is required.`);
+    }
+
     recommendations.push('Consult with radiologist for final interpretation and clinical correlation.');
 
     return recommendations;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Write an image's bytes under the session's directory; the stored path is relative to the
+   * data directory
+   */
+  private async saveImage(sessionId: string, image: ProcessedImage, position: number): Promise<MedicalImage> {
+    const header = /^data:([^;,]+);base64,/.exec(image.base64Data);
+    const mimeType = header?.[1] || 'image/png';
+    const data = Buffer.from(image.base64Data.slice(header?.[0].length ?? 0), 'base64');
+    const fileName = `${String(position + 1).padStart(4, '0')}.${mimeType.split('/')[1] || 'png'}`;
+    const filePath = join('sessions', sessionId, 'images', fileName);
+
+    await mkdir(dirname(dataPath(filePath)), { recursive: true });
+    await writeFile(dataPath(filePath), data);
+
+    return {
+      id: image.id,
+      originalName: image.originalName,
+      fileName,
+      filePath,
+      fileSize: data.length,
+      mimeType,
+      isDicom: image.metadata !== undefined,
+      convertedPath: image.convertedPath,
+      dicomMetadata: image.metadata,
+      uploadedAt: new Date(),
+      status: 'converted',
+    };
+  }
+
+  private async loadImage(image: MedicalImage): Promise<ProcessedImage> {
+    const data = await readFile(dataPath(image.filePath));
+    return {
+      id: image.id,
+      originalName: image.originalName,
+      convertedPath: image.convertedPath ?? image.filePath,
+      base64Data: `data:${image.mimeType};base64,${data.toString('base64')}`,
+      metadata: image.dicomMetadata,
+      conversionStatus: 'success',
+    };
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, undefined, { signal });
   }
 
   getStatus(): ProcessingStatus {
@@ -226,4 +565,11 @@ export class BatchProcessor {
 
 export const createBatchProcessor = (options?: Partial<BatchProcessorOptions>) => {
   return new BatchProcessor(options);
-};
\ No newline at end of file
+};
+
+/**
+ * Origin the server reaches its own API routes at: APP_URL, default http://localhost:$PORT
+ */
+export function getApiBaseUrl(): string {
+  return (process.env.APP_URL || `http://localhost:${process.env.PORT || 3000}`).replace(/\/+$/, '');
+}
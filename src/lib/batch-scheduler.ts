@@ -0,0 +1,186 @@
+import { AIProviderName } from './ai-provider';
+import { SessionPriorities } from './session-priority';
+import { SessionPriority } from '@/types/medical';
+
+export interface BatchSchedulerOptions {
+  /**
+   * Batches sent at once to each provider, across every session in the process. A session
+   * sends one batch at a time, so the slots are shared between sessions.
+   */
+  concurrency: Record<AIProviderName, number>;
+}
+
+export interface BatchSchedulerStatus {
+  provider: AIProviderName;
+  concurrency: number;
+  active: number;
+  /** Batches waiting for a slot, per session */
+  waiting: Record<string, number>;
+}
+
+interface Waiter {
+  /** SessionPriorities.rank of the waiting session */
+  rank: number;
+  grant: () => void;
+}
+
+interface Pool {
+  active: number;
+  /** Waiting batches per session; the order of the map is the order of turns */
+  sessions: Map<string, Waiter[]>;
+}
+
+/**
+ * Slots for batch requests, per provider and shared by every session in the process. A freed
+ * slot goes to the most urgent waiting session; sessions of the same priority take turns, so
+ * a long study does not hold up the sessions queued behind it.
+ */
+export class BatchScheduler {
+  private static shared: BatchScheduler | null = null;
+
+  private pools = new Map<AIProviderName, Pool>();
+
+  constructor(private options: BatchSchedulerOptions = getBatchSchedulerOptions()) {}
+
+  static getInstance(): BatchScheduler {
+    if (!this.shared) {
+      this.shared = new BatchScheduler();
+    }
+    return this.shared;
+  }
+
+  concurrency(provider: AIProviderName): number {
+    return this.options.concurrency[provider];
+  }
+
+  /**
+   * Wait for a slot of the provider; call the returned function, once, to give it back.
+   * Rejects with the signal's reason when it fires while waiting.
+   */
+  acquire(
+    provider: AIProviderName,
+    sessionId: string,
+    signal?: AbortSignal,
+    priority: SessionPriority = 'routine'
+  ): Promise<() => void> {
+    signal?.throwIfAborted();
+    const pool = this.pool(provider);
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        rank: SessionPriorities.rank(priority),
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          pool.active++;
+          let released = false;
+          resolve(() => {
+            if (!released) {
+              released = true;
+              pool.active--;
+              this.dispatch(pool, provider);
+            }
+          });
+        }
+      };
+      const onAbort = () => {
+        const queue = pool.sessions.get(sessionId);
+        const index = queue?.indexOf(waiter) ?? -1;
+        if (index >= 0) {
+          queue!.splice(index, 1);
+          if (queue!.length === 0) {
+            pool.sessions.delete(sessionId);
+          }
+        }
+        reject(signal!.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pool.sessions.set(sessionId, [...(pool.sessions.get(sessionId) || []), waiter]);
+      this.dispatch(pool, provider);
+    });
+  }
+
+  /**
+   * Run task in a slot of the provider
+   */
+  async run<T>(
+    provider: AIProviderName,
+    sessionId: string,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+    priority?: SessionPriority
+  ): Promise<T> {
+    const release = await this.acquire(provider, sessionId, signal, priority);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  status(): BatchSchedulerStatus[] {
+    return [...this.pools.entries()].map(([provider, pool]) => ({
+      provider,
+      concurrency: this.concurrency(provider),
+      active: pool.active,
+      waiting: Object.fromEntries([...pool.sessions.entries()].map(([sessionId, queue]) => [sessionId, queue.length]))
+    }));
+  }
+
+  private pool(provider: AIProviderName): Pool {
+    let pool = this.pools.get(provider);
+    if (!pool) {
+      pool = { active: 0, sessions: new Map() };
+      this.pools.set(provider, pool);
+    }
+    return pool;
+  }
+
+  /**
+   * Hand free slots out in turn: the first of the most urgent sessions gets one and moves to
+   * the back
+   */
+  private dispatch(pool: Pool, provider: AIProviderName): void {
+    while (pool.active < this.concurrency(provider) && pool.sessions.size > 0) {
+      let [sessionId, queue] = pool.sessions.entries().next().value!;
+      for (const [candidateId, candidate] of pool.sessions) {
+        if (candidate[0].rank < queue[0].rank) {
+          [sessionId, queue] = [candidateId, candidate];
+        }
+      }
+      const waiter = queue.shift()!;
+      pool.sessions.delete(sessionId);
+      if (queue.length > 0) {
+        pool.sessions.set(sessionId, queue);
+      }
+      waiter.grant();
+    }
+  }
+}
+
+/**
+ * Batch concurrency from AI_BATCH_CONCURRENCY (default 1, one batch at a time) and per
+ * provider from AI_BATCH_CONCURRENCY_OPENAI, AI_BATCH_CONCURRENCY_ANTHROPIC and
+ * AI_BATCH_CONCURRENCY_MOCK. Above 1 it lets sessions run side by side (see JOB_CONCURRENCY);
+ * the batches of one session always run in order, carrying the case summary.
+ */
+export function getBatchSchedulerOptions(): BatchSchedulerOptions {
+  const integer = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+  };
+
+  const fallback = integer('AI_BATCH_CONCURRENCY', 1);
+  return {
+    concurrency: {
+      openai: integer('AI_BATCH_CONCURRENCY_OPENAI', fallback),
+      anthropic: integer('AI_BATCH_CONCURRENCY_ANTHROPIC', fallback),
+      mock: integer('AI_BATCH_CONCURRENCY_MOCK', fallback)
+    }
+  };
+}
@@ -0,0 +1,217 @@
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { dataPath } from './storage-paths';
+
+export type BatchStreamStatus = 'streaming' | 'completed' | 'aborted' | 'error';
+
+export interface BatchStreamState {
+  sessionId: string;
+  batchIndex: number;
+  status: BatchStreamStatus;
+  /** Model output so far */
+  text: string;
+  error?: string;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type BatchStreamEvent =
+  | { type: 'delta'; batchIndex: number; delta: string }
+  | { type: 'status'; batchIndex: number; status: BatchStreamStatus; error?: string }
+  | { type: 'start'; batchIndex: number; startedAt: string };
+
+type Listener = (event: BatchStreamEvent) => void;
+
+interface ActiveStream {
+  state: BatchStreamState;
+  controller: AbortController;
+  persistTimer?: NodeJS.Timeout;
+  /** Throttled write in flight, awaited before the final write */
+  writing?: Promise<void>;
+}
+
+// Partial text is written at most this often while a batch streams
+const PERSIST_INTERVAL_MS = 1000;
+
+/**
+ * Live model output per batch: fans deltas out to dashboard subscribers and keeps the
+ * partial text on disk, so a reconnecting viewer sees what was already written
+ */
+export class BatchStreams {
+  private static active = new Map<string, ActiveStream>();
+  private static listeners = new Map<string, Set<Listener>>();
+
+  /**
+   * Register a batch that is about to stream. The returned signal fires when the batch is
+   * aborted from the dashboard.
+   */
+  static start(sessionId: string, batchIndex: number): AbortSignal {
+    // Rejects ids that cannot be used as a directory name
+    this.sessionDir(sessionId);
+    const key = this.key(sessionId, batchIndex);
+    // A retried batch replaces its previous attempt
+    this.active.get(key)?.controller.abort(new DOMException('Batch restarted', 'AbortError'));
+
+    const now = new Date().toISOString();
+    const stream: ActiveStream = {
+      state: { sessionId, batchIndex, status: 'streaming', text: '', startedAt: now, updatedAt: now },
+      controller: new AbortController()
+    };
+    this.active.set(key, stream);
+    this.emit(sessionId, { type: 'start', batchIndex, startedAt: now });
+    this.schedulePersist(stream);
+    return stream.controller.signal;
+  }
+
+  /**
+   * Discard the text of a failed attempt before the provider call is retried; viewers see
+   * the batch start over
+   */
+  static reset(sessionId: string, batchIndex: number): void {
+    const stream = this.active.get(this.key(sessionId, batchIndex));
+    if (!stream) {
+      return;
+    }
+    const now = new Date().toISOString();
+    stream.state.text = '';
+    stream.state.startedAt = now;
+    stream.state.updatedAt = now;
+    this.emit(sessionId, { type: 'start', batchIndex, startedAt: now });
+    this.schedulePersist(stream);
+  }
+
+  static append(sessionId: string, batchIndex: number, delta: string): void {
+    const stream = this.active.get(this.key(sessionId, batchIndex));
+    if (!stream) {
+      return;
+    }
+    stream.state.text += delta;
+    stream.state.updatedAt = new Date().toISOString();
+    this.emit(sessionId, { type: 'delta', batchIndex, delta });
+    this.schedulePersist(stream);
+  }
+
+  static async finish(
+    sessionId: string,
+    batchIndex: number,
+    status: Exclude<BatchStreamStatus, 'streaming'>,
+    error?: string
+  ): Promise<void> {
+    const key = this.key(sessionId, batchIndex);
+    const stream = this.active.get(key);
+    if (!stream) {
+      return;
+    }
+    this.active.delete(key);
+    clearTimeout(stream.persistTimer);
+    await stream.writing;
+
+    stream.state.status = status;
+    stream.state.error = error;
+    stream.state.updatedAt = new Date().toISOString();
+    this.emit(sessionId, { type: 'status', batchIndex, status, error });
+    await this.persist(stream.state);
+  }
+
+  /**
+   * Abort a streaming batch; false when the batch is not streaming on this server
+   */
+  static abort(sessionId: string, batchIndex: number): boolean {
+    const stream = this.active.get(this.key(sessionId, batchIndex));
+    if (!stream) {
+      return false;
+    }
+    stream.controller.abort(new DOMException('Batch aborted by user', 'AbortError'));
+    return true;
+  }
+
+  /**
+   * Abort every batch of a session streaming on this server; returns how many were aborted
+   */
+  static abortSession(sessionId: string, reason = 'Session cancelled'): number {
+    let aborted = 0;
+    for (const stream of this.active.values()) {
+      if (stream.state.sessionId === sessionId) {
+        stream.controller.abort(new DOMException(reason, 'AbortError'));
+        aborted++;
+      }
+    }
+    return aborted;
+  }
+
+  /**
+   * Every batch of a session: live state for streaming batches, persisted state otherwise
+   */
+  static async snapshot(sessionId: string): Promise<BatchStreamState[]> {
+    const states = new Map<number, BatchStreamState>();
+
+    let files: string[] = [];
+    try {
+      files = await readdir(this.sessionDir(sessionId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    for (const file of files.filter(name => /^batch-\d+\.json$/.test(name))) {
+      const state: BatchStreamState = JSON.parse(await readFile(join(this.sessionDir(sessionId), file), 'utf-8'));
+      states.set(state.batchIndex, state);
+    }
+
+    for (const stream of this.active.values()) {
+      if (stream.state.sessionId === sessionId) {
+        states.set(stream.state.batchIndex, { ...stream.state });
+      }
+    }
+    return Array.from(states.values()).sort((a, b) => a.batchIndex - b.batchIndex);
+  }
+
+  static subscribe(sessionId: string, listener: Listener): () => void {
+    const listeners = this.listeners.get(sessionId) || new Set<Listener>();
+    listeners.add(listener);
+    this.listeners.set(sessionId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(sessionId);
+      }
+    };
+  }
+
+  private static emit(sessionId: string, event: BatchStreamEvent): void {
+    this.listeners.get(sessionId)?.forEach(listener => listener(event));
+  }
+
+  private static schedulePersist(stream: ActiveStream): void {
+    if (stream.persistTimer) {
+      return;
+    }
+    stream.persistTimer = setTimeout(() => {
+      stream.persistTimer = undefined;
+      const state = { ...stream.state };
+      stream.writing = (stream.writing ?? Promise.resolve()).then(() => this.persist(state)).catch(error => {
+        console.error(`Failed to persist stream for batch ${stream.state.batchIndex}:`, error);
+      });
+    }, PERSIST_INTERVAL_MS);
+  }
+
+  private static async persist(state: BatchStreamState): Promise<void> {
+    const path = join(this.sessionDir(state.sessionId), `batch-${state.batchIndex}.json`);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(state));
+    await rename(`${path}.tmp`, path);
+  }
+
+  private static sessionDir(sessionId: string): string {
+    // Session ids come from clients and become directory names
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return dataPath('streams', sessionId);
+  }
+
+  private static key(sessionId: string, batchIndex: number): string {
+    return `${sessionId}:${batchIndex}`;
+  }
+}
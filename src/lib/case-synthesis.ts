@@ -0,0 +1,167 @@
+import { AIAnalysisResponse, AIProvider } from './ai-provider';
+import { StructuredAnalysis, StructuredFindings, structuredOutputInstructions } from './structured-findings';
+import { Consensus } from './consensus';
+import { DiagnosticFinding } from '@/types/medical';
+
+/**
+ * What one batch contributed to the study, as fed into the synthesis pass
+ */
+export interface BatchOutcome {
+  batchNumber: number;
+  imageIds: string[];
+  findings: DiagnosticFinding[];
+  recommendations: string[];
+  urgency?: StructuredAnalysis['urgency'];
+  impression?: string;
+  /** Model text, only needed when the batch produced no structured output */
+  rawText?: string;
+}
+
+export interface CaseSynthesisResult {
+  /** Study-level impression, used as DiagnosticReport.summary */
+  summary: string;
+  /** Findings de-duplicated across batches */
+  findings: DiagnosticFinding[];
+  recommendations: string[];
+  urgency?: StructuredAnalysis['urgency'];
+  /** False when the batch results were merged without a synthesis request */
+  synthesized: boolean;
+  validationErrors?: string[];
+  /** Tokens spent on the synthesis request, absent when none was sent */
+  usage?: AIAnalysisResponse['usage'];
+}
+
+// Keeps the carried summary from crowding out the batch's own instructions
+const MAX_CASE_SUMMARY_LENGTH = 4000;
+
+const URGENCY_ORDER: StructuredAnalysis['urgency'][] = ['routine', 'urgent', 'emergent'];
+
+/**
+ * Prompt section handing the running case summary to the next batch
+ */
+export function caseContextPrompt(caseSummary?: string): string | undefined {
+  if (!caseSummary) {
+    return undefined;
+  }
+  return `Case summary from the earlier batches of this study:
+${caseSummary}
+
+Findings may continue from earlier images. Describe a continuing finding with the same category and location wording so it can be merged, and update the case summary with what these images add.`;
+}
+
+/**
+ * Cross-batch context: the rolling case summary carried between batches and the final
+ * text-only pass that merges all batch results into one study-level report
+ */
+export class CaseSynthesis {
+  /**
+   * Summary to carry into the next batch. Uses the model's updated summary, or appends this
+   * batch's findings when the output had none.
+   */
+  static nextSummary(previous: string | undefined, batchNumber: number, analysis?: StructuredAnalysis): string | undefined {
+    let summary = analysis?.caseSummary?.trim();
+
+    if (!summary && analysis) {
+      const findings = analysis.findings.map(finding =>
+        `${finding.category}${finding.location ? ` (${finding.location})` : ''}: ${finding.description}`
+      );
+      const added = findings.length > 0 ? findings.join('; ') : analysis.impression || 'no findings';
+      summary = [previous, `Batch ${batchNumber}: ${added}`].filter(Boolean).join('\n');
+    }
+
+    if (!summary) {
+      return previous;
+    }
+    // The latest state of the case matters most
+    return summary.length > MAX_CASE_SUMMARY_LENGTH
+      ? `...${summary.slice(summary.length - MAX_CASE_SUMMARY_LENGTH)}`
+      : summary;
+  }
+
+  /**
+   * Merge all batch results into a de-duplicated study-level result. Only the batch outputs
+   * are sent, not the images. A single batch has nothing to merge and needs no request.
+   */
+  static async synthesize(
+    provider: AIProvider,
+    batches: BatchOutcome[],
+    signal?: AbortSignal
+  ): Promise<CaseSynthesisResult> {
+    if (batches.length <= 1) {
+      return this.merge(batches);
+    }
+
+    const result = await StructuredFindings.analyze(provider, {
+      prompt: [
+        this.synthesisPrompt(batches),
+        structuredOutputInstructions(batches.flatMap(batch => batch.imageIds))
+      ].join('\n\n'),
+      images: [],
+      signal
+    });
+
+    if (!result.analysis) {
+      console.warn(`Case synthesis failed validation after ${result.attempts} attempts:`, result.validationErrors);
+      return { ...this.merge(batches), validationErrors: result.validationErrors, usage: result.usage };
+    }
+
+    return {
+      summary: result.analysis.impression || this.merge(batches).summary,
+      // Disagreements between consensus models survive the rewrite
+      findings: Consensus.carryFlags(
+        StructuredFindings.toDiagnosticFindings(result.analysis),
+        batches.flatMap(batch => batch.findings)
+      ),
+      recommendations: result.analysis.recommendations,
+      urgency: result.analysis.urgency,
+      synthesized: true,
+      usage: result.usage
+    };
+  }
+
+  /**
+   * Concatenated batch results, used when no synthesis is needed or possible
+   */
+  static merge(batches: BatchOutcome[]): CaseSynthesisResult {
+    const urgencies = batches.map(batch => batch.urgency).filter(Boolean) as StructuredAnalysis['urgency'][];
+    const impressions = batches.map(batch => batch.impression).filter(Boolean);
+
+    return {
+      summary: impressions.length > 0
+        ? impressions.join(' ')
+        : `Analysis of ${batches.length} image batch${batches.length === 1 ? '' : 'es'}; no study-level impression available.`,
+      findings: batches.flatMap(batch => batch.findings),
+      recommendations: [...new Set(batches.flatMap(batch => batch.recommendations))],
+      urgency: urgencies.length > 0
+        ? urgencies.reduce((highest, urgency) => URGENCY_ORDER.indexOf(urgency) > URGENCY_ORDER.indexOf(highest) ? urgency : highest)
+        : undefined,
+      synthesized: false
+    };
+  }
+
+  private static synthesisPrompt(batches: BatchOutcome[]): string {
+    const results = batches.map(batch => ({
+      batch: batch.batchNumber,
+      imageIds: batch.imageIds,
+      findings: batch.findings,
+      recommendations: batch.recommendations,
+      urgency: batch.urgency,
+      impression: batch.impression,
+      // Unstructured batches only have their text
+      ...(batch.findings.length === 0 && !batch.impression && batch.rawText ? { report: batch.rawText } : {})
+    }));
+
+    return `You are an expert radiologist writing the final report for a study that was analysed in ${batches.length} batches of images. The batch results below are in acquisition order.
+
+Combine them into one study-level result:
+- Merge findings that describe the same abnormality in several batches (for example a lesion spanning adjacent slices) into a single finding listing every related image id
+- Drop findings that other batches show to be artefacts, and drop exact repeats
+- Keep the highest severity and urgency the combined evidence supports
+- Findings marked "discordant" were graded differently by independent models; keep each as its own finding and do not resolve the disagreement
+- Merge duplicate recommendations
+- Write the impression as a de-duplicated, study-level summary of two to four sentences
+
+Batch results:
+${JSON.stringify(results, null, 2)}`;
+  }
+}
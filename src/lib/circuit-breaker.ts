@@ -0,0 +1,134 @@
+import { classifyAIError } from './ai-provider';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive retryable failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a single probe request is let through */
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the next probe is allowed, while open */
+  retryAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Stops calls to a provider that keeps failing. While open every caller, across all
+ * sessions, waits for the cooldown instead of spending its retries; then one probe request
+ * decides whether the circuit closes again. Only failures that indicate an unavailable
+ * provider count: a rejected request proves the provider is up.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private lastError?: string;
+  private waiters = new Set<() => void>();
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Resolves when a request may be sent. Every acquire must be followed by one `record`.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      if (this.state === 'closed') {
+        return;
+      }
+
+      if (this.state === 'open') {
+        const remaining = this.openedAt + this.options.cooldownMs - Date.now();
+        if (remaining <= 0) {
+          this.transition('half-open');
+          return;
+        }
+        await this.changed(signal, remaining);
+      } else {
+        // A probe is in flight; its outcome decides for everyone
+        await this.changed(signal);
+      }
+    }
+  }
+
+  /**
+   * Outcome of a request let through by `acquire`: no error for success. Pass the request's
+   * signal so a request aborted by its caller is not taken for a probe result.
+   */
+  record(error?: unknown, signal?: AbortSignal): void {
+    const { reason, retryable } = error ? classifyAIError(error, signal) : { reason: undefined, retryable: false };
+
+    if (reason === 'aborted') {
+      // The caller gave up; a pending probe is handed to the next caller without waiting
+      if (this.state === 'half-open') {
+        this.openedAt = Date.now() - this.options.cooldownMs;
+        this.transition('open');
+      }
+      return;
+    }
+
+    if (!retryable) {
+      this.failures = 0;
+      if (this.state !== 'closed') {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.failures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Circuit opened after ${this.failures} consecutive failures: ${this.lastError}`);
+      }
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  status(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.options.cooldownMs).toISOString() : undefined,
+      lastError: this.lastError
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    this.state = state;
+    const waiters = [...this.waiters];
+    this.waiters.clear();
+    waiters.forEach(wake => wake());
+  }
+
+  /**
+   * Resolves on the next state change or after `timeoutMs`, rejects when `signal` aborts
+   */
+  private changed(signal?: AbortSignal, timeoutMs?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.waiters.delete(done);
+      };
+      const done = () => {
+        cleanup();
+        resolve();
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+      const timer = timeoutMs === undefined ? undefined : setTimeout(done, timeoutMs);
+
+      this.waiters.add(done);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
@@ -0,0 +1,277 @@
+import {
+  AIAnalysisRequest,
+  AIProvider,
+  AIProviderName,
+  createAIProvider,
+  getAIProviderConfig
+} from './ai-provider';
+import { GuardedProvider } from './ai-guard';
+import { StructuredAnalysis, StructuredAnalysisResult, StructuredFindings } from './structured-findings';
+import { DiagnosticFinding } from '@/types/medical';
+
+export interface ConsensusModel {
+  provider: AIProviderName;
+  model: string;
+}
+
+/**
+ * One model's answer for a batch
+ */
+export interface ModelReading {
+  /** provider:model */
+  label: string;
+  result?: StructuredAnalysisResult;
+  error?: string;
+}
+
+export interface ConsensusResult {
+  /** Findings aligned across models, with agreement, discordant and reportedBy set */
+  findings: DiagnosticFinding[];
+  /** Mean agreement of the findings; 1 when no model reported anything */
+  agreement: number;
+  /** Some finding or the urgency differs between models */
+  discordant: boolean;
+  /** Discordant, or too few models gave a usable answer to compare */
+  requiresReview: boolean;
+  /** Readable account of each disagreement, for the report */
+  disagreements: string[];
+  urgency?: StructuredAnalysis['urgency'];
+  models: Array<{ label: string; success: boolean; findings: number; urgency?: StructuredAnalysis['urgency']; error?: string }>;
+}
+
+const SEVERITY_RANK: Record<DiagnosticFinding['severity'], number> = { low: 0, moderate: 1, high: 2, critical: 3 };
+const URGENCY_RANK: Record<StructuredAnalysis['urgency'], number> = { routine: 0, urgent: 1, emergent: 2 };
+
+// Findings scoring at least this are taken to describe the same abnormality
+const MATCH_THRESHOLD = 0.5;
+
+// Words that say nothing about where or what a finding is
+const STOPWORDS = new Set(['the', 'and', 'with', 'of', 'in', 'at', 'on', 'to', 'a', 'an', 'is', 'are', 'no', 'seen', 'noted', 'there', 'likely', 'possible', 'probable', 'suggestive', 'consistent']);
+
+/**
+ * Consensus reading: the same batch is read by several models, their findings are aligned
+ * by category and location, and disagreements are flagged for human review rather than
+ * resolved by picking one answer
+ */
+export class Consensus {
+  /**
+   * Send the request to every provider; `align` the readings afterwards. Only the first
+   * provider streams. Fails only when no model answered. The primary result is the first
+   * valid reading, which supplies the impression and case summary.
+   */
+  static async read(
+    providers: AIProvider[],
+    request: AIAnalysisRequest
+  ): Promise<{ readings: ModelReading[]; primary: StructuredAnalysisResult }> {
+    const failures: unknown[] = [];
+    const readings = await Promise.all(providers.map(async (provider, index): Promise<ModelReading> => {
+      const label = this.label(provider);
+      try {
+        const result = await StructuredFindings.analyze(
+          provider,
+          index === 0 ? request : { ...request, onText: undefined, onRetry: undefined }
+        );
+        return { label, result };
+      } catch (error) {
+        failures.push(error);
+        return { label, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }));
+
+    const primary = readings.find(reading => reading.result?.analysis)?.result
+      ?? readings.find(reading => reading.result)?.result;
+    if (!primary) {
+      throw failures[0];
+    }
+
+    return { readings, primary };
+  }
+
+  /**
+   * Align the findings of the readings that passed validation
+   */
+  static align(readings: ModelReading[]): ConsensusResult {
+    const valid = readings.filter(reading => reading.result?.analysis);
+    const clusters: Array<Array<{ label: string; finding: DiagnosticFinding }>> = [];
+
+    for (const reading of valid) {
+      for (const finding of StructuredFindings.toDiagnosticFindings(reading.result!.analysis!)) {
+        // A model is matched at most once per cluster
+        let best: { cluster: (typeof clusters)[number]; score: number } | undefined;
+        for (const cluster of clusters) {
+          if (cluster.some(member => member.label === reading.label)) continue;
+          const score = Math.max(...cluster.map(member => this.similarity(member.finding, finding)));
+          if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+            best = { cluster, score };
+          }
+        }
+        if (best) {
+          best.cluster.push({ label: reading.label, finding });
+        } else {
+          clusters.push([{ label: reading.label, finding }]);
+        }
+      }
+    }
+
+    const disagreements: string[] = [];
+    const findings = clusters.map(cluster => {
+      const finding = this.combine(cluster, valid.length);
+      if (finding.discordant) {
+        const severities = cluster.map(member => `${member.label} ${member.finding.severity}`).join(', ');
+        const missing = valid.filter(reading => !finding.reportedBy!.includes(reading.label)).map(reading => reading.label);
+        disagreements.push(
+          `${finding.category}${finding.location ? ` (${finding.location})` : ''}: ${severities}${missing.length > 0 ? `; not reported by ${missing.join(', ')}` : ''}`
+        );
+      }
+      return finding;
+    });
+
+    const urgencies = valid.map(reading => reading.result!.analysis!.urgency);
+    const urgencyDiffers = new Set(urgencies).size > 1;
+    if (urgencyDiffers) {
+      disagreements.push(`Urgency: ${valid.map(reading => `${reading.label} ${reading.result!.analysis!.urgency}`).join(', ')}`);
+    }
+
+    const discordant = urgencyDiffers || findings.some(finding => finding.discordant);
+    return {
+      findings,
+      agreement: findings.length > 0
+        ? findings.reduce((sum, finding) => sum + finding.agreement!, 0) / findings.length
+        : 1,
+      discordant,
+      requiresReview: discordant || valid.length < 2,
+      disagreements,
+      urgency: urgencies.length > 0
+        ? urgencies.reduce((worst, urgency) => (URGENCY_RANK[urgency] > URGENCY_RANK[worst] ? urgency : worst))
+        : undefined,
+      models: readings.map(reading => ({
+        label: reading.label,
+        success: Boolean(reading.result?.analysis),
+        findings: reading.result?.analysis?.findings.length ?? 0,
+        urgency: reading.result?.analysis?.urgency,
+        error: reading.error ?? (reading.result && !reading.result.analysis ? 'Output failed validation' : undefined)
+      }))
+    };
+  }
+
+  /**
+   * Carry consensus flags onto findings rewritten by the study-level synthesis. Discordant
+   * findings the synthesis dropped or merged away are added back, so none escapes review.
+   */
+  static carryFlags(synthesized: DiagnosticFinding[], batchFindings: DiagnosticFinding[]): DiagnosticFinding[] {
+    const flagged = batchFindings.filter(finding => finding.agreement !== undefined);
+    if (flagged.length === 0) {
+      return synthesized;
+    }
+
+    const findings = synthesized.map(finding => {
+      const matches = flagged.filter(candidate => this.similarity(candidate, finding) >= MATCH_THRESHOLD);
+      if (matches.length === 0) {
+        return finding;
+      }
+      return {
+        ...finding,
+        agreement: Math.min(...matches.map(match => match.agreement!)),
+        discordant: matches.some(match => match.discordant),
+        reportedBy: [...new Set(matches.flatMap(match => match.reportedBy ?? []))]
+      };
+    });
+
+    for (const finding of flagged.filter(candidate => candidate.discordant)) {
+      if (!findings.some(kept => kept.discordant && this.similarity(kept, finding) >= MATCH_THRESHOLD)) {
+        findings.push(finding);
+      }
+    }
+    return findings;
+  }
+
+  static label(provider: AIProvider): string {
+    return `${provider.name}:${provider.model}`;
+  }
+
+  /**
+   * One finding for a cluster: the most confident description, the most severe grading, and
+   * a confidence that counts models not reporting the finding as zero
+   */
+  private static combine(cluster: Array<{ label: string; finding: DiagnosticFinding }>, models: number): DiagnosticFinding {
+    const ranks = cluster.map(member => SEVERITY_RANK[member.finding.severity]);
+    const representative = cluster.reduce((best, member) => (member.finding.confidence > best.finding.confidence ? member : best));
+    const agreement = cluster.length / models;
+    const worst = cluster.reduce((most, member) =>
+      SEVERITY_RANK[member.finding.severity] > SEVERITY_RANK[most.finding.severity] ? member : most
+    );
+
+    return {
+      ...representative.finding,
+      severity: worst.finding.severity,
+      confidence: Math.round((cluster.reduce((sum, member) => sum + member.finding.confidence, 0) / models) * 100) / 100,
+      relatedImages: [...new Set(cluster.flatMap(member => member.finding.relatedImages))],
+      agreement: Math.round(agreement * 100) / 100,
+      // A significant finding some model missed, or gradings two or more steps apart
+      discordant: (agreement < 1 && Math.max(...ranks) >= SEVERITY_RANK.high) || Math.max(...ranks) - Math.min(...ranks) >= 2,
+      reportedBy: cluster.map(member => member.label)
+    };
+  }
+
+  /**
+   * 0 to 1: how likely two findings describe the same abnormality, from category, location
+   * and wording. Opposite sides never match.
+   */
+  private static similarity(a: DiagnosticFinding, b: DiagnosticFinding): number {
+    const sides = ['left', 'right'];
+    if (a.laterality && b.laterality && sides.includes(a.laterality) && sides.includes(b.laterality) && a.laterality !== b.laterality) {
+      return 0;
+    }
+
+    const category = a.category.trim().toLowerCase() === b.category.trim().toLowerCase()
+      ? 1
+      : this.overlap(a.category, b.category);
+    const location = a.location && b.location
+      ? this.overlap(a.location, b.location)
+      : a.location || b.location ? 0.25 : 0.5;
+    return 0.45 * category + 0.35 * location + 0.2 * this.overlap(a.description, b.description);
+  }
+
+  private static overlap(a: string, b: string): number {
+    const left = this.tokens(a);
+    const right = this.tokens(b);
+    if (left.size === 0 || right.size === 0) {
+      return 0;
+    }
+    const shared = [...left].filter(token => right.has(token)).length;
+    return shared / (left.size + right.size - shared);
+  }
+
+  private static tokens(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1 && !STOPWORDS.has(token)));
+  }
+}
+
+/**
+ * Models for consensus reading from AI_CONSENSUS_MODELS: comma separated, each
+ * `provider:model` or just a model of AI_PROVIDER, e.g.
+ * "anthropic:claude-3-5-sonnet-latest,openai:gpt-4o"
+ */
+export function getConsensusModels(): ConsensusModel[] {
+  const primary = (process.env.AI_PROVIDER || 'openai') as AIProviderName;
+  const providers: AIProviderName[] = ['openai', 'anthropic', 'mock'];
+
+  return (process.env.AI_CONSENSUS_MODELS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const prefix = entry.slice(0, separator) as AIProviderName;
+      return separator > 0 && providers.includes(prefix)
+        ? { provider: prefix, model: entry.slice(separator + 1) }
+        : { provider: primary, model: entry };
+    });
+}
+
+/**
+ * One rate-limited provider per consensus model; empty when consensus is not configured
+ */
+export function createConsensusProviders(models: ConsensusModel[] = getConsensusModels()): AIProvider[] {
+  return models.map(({ provider, model }) => new GuardedProvider(createAIProvider(getAIProviderConfig(provider, model))));
+}
@@ -0,0 +1,245 @@
+import { Worker } from 'worker_threads';
+import { availableParallelism } from 'os';
+import { ConversionOptions, DicomConverter } from './dicom-converter';
+import type { ConversionTask, ConversionTaskResult } from './conversion-worker';
+import { ConversionResult } from '@/types/medical';
+
+export interface ConversionPoolOptions {
+  /** Number of worker threads */
+  size: number;
+  /** Per-file conversion timeout; the worker is replaced when it expires */
+  timeoutMs: number;
+  /** V8 heap limit for each worker */
+  memoryLimitMb: number;
+}
+
+export interface ConversionInput {
+  /** Called when the file's turn comes, so only files being converted are held in memory */
+  read: () => Promise<Buffer>;
+  fileName: string;
+}
+
+export interface PooledConversion {
+  /** Position of the file in the submitted list */
+  index: number;
+  results: ConversionResult[];
+}
+
+interface PendingTask {
+  task: ConversionTask;
+  resolve: (results: ConversionResult[]) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  current?: PendingTask;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Bounded pool of worker threads converting DICOM files off the request thread
+ */
+export class ConversionPool {
+  private static shared: ConversionPool | null = null;
+
+  private workers: PoolWorker[] = [];
+  private queue: PendingTask[] = [];
+  private nextTaskId = 1;
+
+  constructor(private options: ConversionPoolOptions = getConversionPoolOptions()) {}
+
+  /**
+   * Process-wide pool, created on first use
+   */
+  static getInstance(): ConversionPool {
+    if (!this.shared) {
+      this.shared = new ConversionPool();
+    }
+    return this.shared;
+  }
+
+  /**
+   * Convert one DICOM file to PNG frames. Timeouts and worker crashes resolve to a failed
+   * result rather than rejecting, matching DicomConverter.convertDicomFrames.
+   */
+  convert(buffer: Buffer, fileName: string, options: ConversionOptions = {}): Promise<ConversionResult[]> {
+    return new Promise(resolve => {
+      this.queue.push({
+        task: { taskId: this.nextTaskId++, buffer, fileName, options },
+        resolve
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Convert many files, yielding each one as soon as it finishes (completion order, not
+   * submission order). Files are read as workers free up, one per worker.
+   */
+  async *convertAll(files: ConversionInput[], options: ConversionOptions = {}): AsyncGenerator<PooledConversion> {
+    const pending = new Map<number, Promise<PooledConversion>>();
+    let next = 0;
+    const submit = () => {
+      const index = next++;
+      const { read, fileName } = files[index];
+      pending.set(index, read()
+        .then(buffer => this.convert(buffer, fileName, options))
+        .catch((error): ConversionResult[] => [{
+          success: false,
+          error: `Could not read file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          originalFileName: fileName
+        }])
+        .then(results => ({ index, results })));
+    };
+
+    while (next < files.length && pending.size < this.options.size) {
+      submit();
+    }
+    while (pending.size > 0) {
+      const finished = await Promise.race(pending.values());
+      pending.delete(finished.index);
+      if (next < files.length) {
+        submit();
+      }
+      yield finished;
+    }
+  }
+
+  /**
+   * Batch convert multiple files in input order; non-DICOM files pass through unchanged
+   */
+  async convertMultipleFiles(files: { buffer: Buffer; fileName: string }[]): Promise<ConversionResult[]> {
+    const results = await Promise.all(files.map(file => {
+      if (!DicomConverter.isDicomFile(file.buffer)) {
+        return [{ success: true, pngBuffer: file.buffer, originalFileName: file.fileName, metadata: {} }];
+      }
+      // Multi-frame files expand into one result per frame
+      return this.convert(file.buffer, file.fileName);
+    }));
+    return results.flat();
+  }
+
+  /**
+   * Stop all workers; queued files resolve as failures
+   */
+  async destroy(): Promise<void> {
+    const queued = this.queue.splice(0);
+    queued.forEach(pending => pending.resolve(this.failure(pending.task, 'Conversion pool shut down')));
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(async poolWorker => {
+      clearTimeout(poolWorker.timer);
+      poolWorker.current?.resolve(this.failure(poolWorker.current.task, 'Conversion pool shut down'));
+      poolWorker.current = undefined;
+      await poolWorker.worker.terminate();
+    }));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const idle = this.workers.find(poolWorker => !poolWorker.current)
+        || (this.workers.length < this.options.size ? this.spawn() : undefined);
+      if (!idle) {
+        return;
+      }
+      this.run(idle, this.queue.shift()!);
+    }
+  }
+
+  private run(poolWorker: PoolWorker, pending: PendingTask): void {
+    poolWorker.current = pending;
+    poolWorker.worker.ref();
+    poolWorker.timer = setTimeout(() => {
+      this.retire(poolWorker, `Conversion timed out after ${this.options.timeoutMs} ms`);
+    }, this.options.timeoutMs);
+    poolWorker.worker.postMessage(pending.task);
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(new URL('./conversion-worker.ts', import.meta.url), {
+      resourceLimits: { maxOldGenerationSizeMb: this.options.memoryLimitMb }
+    });
+    const poolWorker: PoolWorker = { worker };
+
+    worker.on('message', (message: ConversionTaskResult) => {
+      const pending = poolWorker.current;
+      if (!pending || pending.task.taskId !== message.taskId) {
+        return;
+      }
+      clearTimeout(poolWorker.timer);
+      poolWorker.current = undefined;
+      // Idle workers must not keep the process alive
+      worker.unref();
+      pending.resolve(message.results.map(result => ({
+        ...result,
+        pngBuffer: result.pngBuffer && Buffer.from(result.pngBuffer.buffer, result.pngBuffer.byteOffset, result.pngBuffer.byteLength)
+      })));
+      this.dispatch();
+    });
+
+    worker.on('error', error => {
+      const reason = (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? `Conversion exceeded the ${this.options.memoryLimitMb} MB memory limit`
+        : `Conversion worker failed: ${error.message}`;
+      this.retire(poolWorker, reason);
+    });
+
+    worker.on('exit', () => {
+      this.retire(poolWorker, 'Conversion worker exited unexpectedly');
+    });
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  /**
+   * Drop a worker that timed out or crashed, fail its file and let the queue continue on
+   * a fresh worker
+   */
+  private retire(poolWorker: PoolWorker, reason: string): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+    clearTimeout(poolWorker.timer);
+
+    const pending = poolWorker.current;
+    poolWorker.current = undefined;
+    poolWorker.worker.removeAllListeners();
+    poolWorker.worker.on('error', () => undefined);
+    void poolWorker.worker.terminate();
+
+    if (pending) {
+      console.error(`${pending.task.fileName}: ${reason}`);
+      pending.resolve(this.failure(pending.task, reason));
+    }
+    this.dispatch();
+  }
+
+  private failure(task: ConversionTask, error: string): ConversionResult[] {
+    return [{ success: false, error, originalFileName: task.fileName }];
+  }
+}
+
+/**
+ * Pool sizing from CONVERSION_WORKERS, CONVERSION_TIMEOUT_MS and CONVERSION_MEMORY_LIMIT_MB
+ */
+export function getConversionPoolOptions(): ConversionPoolOptions {
+  const positive = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+  };
+
+  return {
+    // Leave a core for the request thread
+    size: positive('CONVERSION_WORKERS', Math.max(1, Math.min(4, availableParallelism() - 1))),
+    timeoutMs: positive('CONVERSION_TIMEOUT_MS', 60_000),
+    memoryLimitMb: positive('CONVERSION_MEMORY_LIMIT_MB', 512)
+  };
+}
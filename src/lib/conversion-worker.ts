@@ -0,0 +1,35 @@
+import { parentPort } from 'worker_threads';
+import { ConversionOptions, DicomConverter } from './dicom-converter';
+import { ConversionResult } from '@/types/medical';
+
+export interface ConversionTask {
+  taskId: number;
+  buffer: Uint8Array;
+  fileName: string;
+  options: ConversionOptions;
+}
+
+export interface ConversionTaskResult {
+  taskId: number;
+  results: ConversionResult[];
+}
+
+/**
+ * Worker entry for ConversionPool: converts one DICOM file per message
+ */
+parentPort?.on('message', async (task: ConversionTask) => {
+  let results: ConversionResult[];
+  try {
+    const buffer = Buffer.from(task.buffer.buffer, task.buffer.byteOffset, task.buffer.byteLength);
+    results = await DicomConverter.convertDicomFrames(buffer, task.fileName, task.options);
+  } catch (error) {
+    results = [{
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown conversion error',
+      originalFileName: task.fileName
+    }];
+  }
+
+  const message: ConversionTaskResult = { taskId: task.taskId, results };
+  parentPort?.postMessage(message);
+});
@@ -0,0 +1,410 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet, Element } from 'dicom-parser';
+import sharp from 'sharp';
+import CharLS from '@cornerstonejs/codec-charls';
+import OpenJPEG from '@cornerstonejs/codec-openjpeg';
+import { Decoder as JpegLosslessDecoder } from 'jpeg-lossless-decoder-js';
+
+export type DecodedPixels = Uint8Array | Uint16Array;
+
+export interface PixelFormat {
+  rows: number;
+  columns: number;
+  bitsAllocated: number;
+  bitsStored: number;
+  samplesPerPixel: number;
+  planarConfiguration: number;
+  numberOfFrames: number;
+  photometricInterpretation: string;
+}
+
+type TransferSyntaxCodec = 'native' | 'jpeg' | 'jpeg-lossless' | 'jpeg-ls' | 'jpeg2000' | 'rle';
+
+interface TransferSyntax {
+  name: string;
+  codec: TransferSyntaxCodec;
+  bigEndian?: boolean;
+}
+
+export const IMPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2';
+
+const TRANSFER_SYNTAXES: Record<string, TransferSyntax> = {
+  '1.2.840.10008.1.2': { name: 'Implicit VR Little Endian', codec: 'native' },
+  '1.2.840.10008.1.2.1': { name: 'Explicit VR Little Endian', codec: 'native' },
+  '1.2.840.10008.1.2.1.99': { name: 'Deflated Explicit VR Little Endian', codec: 'native' },
+  '1.2.840.10008.1.2.2': { name: 'Explicit VR Big Endian', codec: 'native', bigEndian: true },
+  '1.2.840.10008.1.2.4.50': { name: 'JPEG Baseline (Process 1)', codec: 'jpeg' },
+  '1.2.840.10008.1.2.4.51': { name: 'JPEG Extended (Process 2 & 4)', codec: 'jpeg' },
+  '1.2.840.10008.1.2.4.57': { name: 'JPEG Lossless, Non-Hierarchical (Process 14)', codec: 'jpeg-lossless' },
+  '1.2.840.10008.1.2.4.70': { name: 'JPEG Lossless, Non-Hierarchical, First-Order Prediction', codec: 'jpeg-lossless' },
+  '1.2.840.10008.1.2.4.80': { name: 'JPEG-LS Lossless', codec: 'jpeg-ls' },
+  '1.2.840.10008.1.2.4.81': { name: 'JPEG-LS Near-Lossless', codec: 'jpeg-ls' },
+  '1.2.840.10008.1.2.4.90': { name: 'JPEG 2000 (Lossless Only)', codec: 'jpeg2000' },
+  '1.2.840.10008.1.2.4.91': { name: 'JPEG 2000', codec: 'jpeg2000' },
+  '1.2.840.10008.1.2.5': { name: 'RLE Lossless', codec: 'rle' }
+};
+
+const KNOWN_UNSUPPORTED: Record<string, string> = {
+  '1.2.840.10008.1.2.4.92': 'JPEG 2000 Part 2 Multi-component (Lossless Only)',
+  '1.2.840.10008.1.2.4.93': 'JPEG 2000 Part 2 Multi-component',
+  '1.2.840.10008.1.2.4.100': 'MPEG2 Main Profile / Main Level',
+  '1.2.840.10008.1.2.4.101': 'MPEG2 Main Profile / High Level',
+  '1.2.840.10008.1.2.4.102': 'MPEG-4 AVC/H.264 High Profile',
+  '1.2.840.10008.1.2.4.103': 'MPEG-4 AVC/H.264 BD-compatible High Profile',
+  '1.2.840.10008.1.2.4.201': 'High-Throughput JPEG 2000 (Lossless Only)',
+  '1.2.840.10008.1.2.4.202': 'High-Throughput JPEG 2000 with RPCL Options (Lossless Only)',
+  '1.2.840.10008.1.2.4.203': 'High-Throughput JPEG 2000'
+};
+
+let charlsModule: ReturnType<typeof CharLS> | null = null;
+let openJpegModule: ReturnType<typeof OpenJPEG> | null = null;
+
+export class DicomCodecs {
+  /**
+   * Human readable name for a Transfer Syntax UID
+   */
+  static describeTransferSyntax(uid: string): string {
+    const name = TRANSFER_SYNTAXES[uid]?.name || KNOWN_UNSUPPORTED[uid];
+    return name ? `${name} (${uid})` : uid;
+  }
+
+  /**
+   * Read the Transfer Syntax UID (0002,0010) from the file meta information
+   */
+  static getTransferSyntaxUid(dataSet: DataSet): string {
+    return dataSet.string('x00020010')?.replace(/\0/g, '').trim() || IMPLICIT_VR_LITTLE_ENDIAN;
+  }
+
+  /**
+   * Whether the converter can decode pixel data stored with this transfer syntax
+   */
+  static isSupportedTransferSyntax(uid: string): boolean {
+    return uid in TRANSFER_SYNTAXES;
+  }
+
+  /**
+   * Decode a single frame of pixel data to native pixels, whatever the transfer syntax.
+   * Colour data is always returned as pixel-interleaved RGB (R1G1B1R2G2B2...), YBR
+   * photometric interpretations are converted here so later stages only see RGB.
+   */
+  static async decodeFrame(
+    dataSet: DataSet,
+    format: PixelFormat,
+    frameIndex = 0
+  ): Promise<DecodedPixels> {
+    const uid = this.getTransferSyntaxUid(dataSet);
+    const syntax = TRANSFER_SYNTAXES[uid];
+    if (!syntax) {
+      throw new Error(`Unsupported transfer syntax: ${this.describeTransferSyntax(uid)}`);
+    }
+
+    const pixelDataElement = dataSet.elements.x7fe00010;
+    if (!pixelDataElement) {
+      throw new Error('No pixel data found in DICOM file');
+    }
+
+    const pixels = await this.decodeWithCodec(dataSet, pixelDataElement, format, frameIndex, uid, syntax);
+
+    // Baseline JPEG decoders already return RGB; JPEG 2000 YBR_ICT/YBR_RCT are undone by the codec
+    const isYbrFull = format.photometricInterpretation === 'YBR_FULL' || format.photometricInterpretation === 'YBR_FULL_422';
+    if (format.samplesPerPixel === 3 && isYbrFull && syntax.codec !== 'jpeg') {
+      return this.ybrFullToRgb(pixels, format.bitsStored);
+    }
+
+    return pixels;
+  }
+
+  private static async decodeWithCodec(
+    dataSet: DataSet,
+    pixelDataElement: Element,
+    format: PixelFormat,
+    frameIndex: number,
+    uid: string,
+    syntax: TransferSyntax
+  ): Promise<DecodedPixels> {
+    if (syntax.codec === 'native') {
+      return this.readNativeFrame(dataSet, pixelDataElement, format, frameIndex, !!syntax.bigEndian);
+    }
+
+    if (!pixelDataElement.encapsulatedPixelData) {
+      throw new Error(`Pixel data is not encapsulated although transfer syntax is ${this.describeTransferSyntax(uid)}`);
+    }
+
+    const frame = this.readEncapsulatedFrame(dataSet, pixelDataElement, format, frameIndex);
+
+    try {
+      switch (syntax.codec) {
+        case 'jpeg':
+          return await this.decodeJpegBaseline(frame, format, uid);
+        case 'jpeg-lossless':
+          return this.decodeJpegLossless(frame, format);
+        case 'jpeg-ls':
+          return await this.decodeJpegLs(frame);
+        case 'jpeg2000':
+          return await this.decodeJpeg2000(frame, format);
+        case 'rle':
+          return this.decodeRle(frame, format);
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to decode ${this.describeTransferSyntax(uid)} pixel data: ${reason}`);
+    }
+  }
+
+  /**
+   * ITU-R BT.601 full range YCbCr to RGB (PS3.3 C.7.6.3.1.2)
+   */
+  private static ybrFullToRgb(pixels: DecodedPixels, bitsStored: number): DecodedPixels {
+    const maxValue = (1 << Math.min(bitsStored, 16)) - 1;
+    const half = (maxValue + 1) / 2;
+    const rgb = new (pixels.constructor as { new (length: number): DecodedPixels })(pixels.length);
+    const clamp = (value: number) => Math.max(0, Math.min(maxValue, Math.round(value)));
+
+    for (let i = 0; i < pixels.length; i += 3) {
+      const y = pixels[i];
+      const cb = pixels[i + 1] - half;
+      const cr = pixels[i + 2] - half;
+      rgb[i] = clamp(y + 1.402 * cr);
+      rgb[i + 1] = clamp(y - 0.344136 * cb - 0.714136 * cr);
+      rgb[i + 2] = clamp(y + 1.772 * cb);
+    }
+
+    return rgb;
+  }
+
+  /**
+   * Native YBR_FULL_422 stores two luminance samples per chroma pair (Y1 Y2 Cb Cr);
+   * expand it to one Y Cb Cr triplet per pixel
+   */
+  private static upsampleYbr422(bytes: Uint8Array, pixelCount: number): Uint8Array {
+    const ybr = new Uint8Array(pixelCount * 3);
+    for (let pixel = 0, source = 0; pixel < pixelCount; pixel += 2, source += 4) {
+      const cb = bytes[source + 2];
+      const cr = bytes[source + 3];
+      ybr.set([bytes[source], cb, cr], pixel * 3);
+      if (pixel + 1 < pixelCount) {
+        ybr.set([bytes[source + 1], cb, cr], (pixel + 1) * 3);
+      }
+    }
+    return ybr;
+  }
+
+  private static frameLength(format: PixelFormat): number {
+    return format.rows * format.columns * format.samplesPerPixel;
+  }
+
+  private static toPixelArray(bytes: Uint8Array, bitsAllocated: number): DecodedPixels {
+    if (bitsAllocated <= 8) {
+      return bytes;
+    }
+    // Copy when the view is not 2-byte aligned, which Uint16Array requires
+    if (bytes.byteOffset % 2 !== 0) {
+      bytes = new Uint8Array(bytes);
+    }
+    return new Uint16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  }
+
+  private static planarToInterleaved(pixels: DecodedPixels, samplesPerPixel: number): DecodedPixels {
+    const pixelCount = pixels.length / samplesPerPixel;
+    const interleaved = new (pixels.constructor as { new (length: number): DecodedPixels })(pixels.length);
+    for (let sample = 0; sample < samplesPerPixel; sample++) {
+      const planeOffset = sample * pixelCount;
+      for (let i = 0; i < pixelCount; i++) {
+        interleaved[i * samplesPerPixel + sample] = pixels[planeOffset + i];
+      }
+    }
+    return interleaved;
+  }
+
+  private static readNativeFrame(
+    dataSet: DataSet,
+    pixelDataElement: Element,
+    format: PixelFormat,
+    frameIndex: number,
+    bigEndian: boolean
+  ): DecodedPixels {
+    if (format.bitsAllocated === 1) {
+      throw new Error('1-bit packed pixel data is not supported');
+    }
+
+    const bytesPerSample = format.bitsAllocated <= 8 ? 1 : 2;
+    const isYbr422 = format.photometricInterpretation === 'YBR_FULL_422' && bytesPerSample === 1;
+    const frameBytes = isYbr422 ? format.rows * format.columns * 2 : this.frameLength(format) * bytesPerSample;
+    const offset = pixelDataElement.dataOffset + frameIndex * frameBytes;
+    if (offset + frameBytes > pixelDataElement.dataOffset + pixelDataElement.length) {
+      throw new Error(`Pixel data is truncated: frame ${frameIndex + 1} extends past the end of the element`);
+    }
+
+    const byteArray = dataSet.byteArray;
+    let bytes = new Uint8Array(byteArray.buffer, byteArray.byteOffset + offset, frameBytes);
+
+    if (isYbr422) {
+      return this.upsampleYbr422(bytes, format.rows * format.columns);
+    }
+
+    if (bigEndian && bytesPerSample === 2) {
+      bytes = new Uint8Array(bytes);
+      for (let i = 0; i < bytes.length; i += 2) {
+        const high = bytes[i];
+        bytes[i] = bytes[i + 1];
+        bytes[i + 1] = high;
+      }
+    }
+
+    const pixels = this.toPixelArray(bytes, format.bitsAllocated);
+    return format.samplesPerPixel > 1 && format.planarConfiguration === 1
+      ? this.planarToInterleaved(pixels, format.samplesPerPixel)
+      : pixels;
+  }
+
+  /**
+   * Collect the compressed bitstream of one frame, using the basic offset table when present
+   * and falling back to fragment counting or JPEG marker scanning when it is empty
+   */
+  private static readEncapsulatedFrame(
+    dataSet: DataSet,
+    pixelDataElement: Element,
+    format: PixelFormat,
+    frameIndex: number
+  ): Uint8Array {
+    const fragments = pixelDataElement.fragments || [];
+    if (fragments.length === 0) {
+      throw new Error('Encapsulated pixel data contains no fragments');
+    }
+    if (frameIndex >= format.numberOfFrames) {
+      throw new Error(`Frame ${frameIndex + 1} requested but the file only has ${format.numberOfFrames}`);
+    }
+
+    if (format.numberOfFrames === 1) {
+      return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, 0, fragments.length);
+    }
+
+    if (pixelDataElement.basicOffsetTable && pixelDataElement.basicOffsetTable.length > 0) {
+      return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex);
+    }
+
+    if (fragments.length === format.numberOfFrames) {
+      return dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, frameIndex, 1);
+    }
+
+    const basicOffsetTable = dicomParser.createJPEGBasicOffsetTable(dataSet, pixelDataElement);
+    return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex, basicOffsetTable);
+  }
+
+  private static async decodeJpegBaseline(frame: Uint8Array, format: PixelFormat, uid: string): Promise<DecodedPixels> {
+    if (format.bitsStored > 8) {
+      throw new Error(`${format.bitsStored}-bit ${this.describeTransferSyntax(uid)} is not supported, only 8-bit JPEG`);
+    }
+
+    const { data, info } = await sharp(Buffer.from(frame.buffer, frame.byteOffset, frame.byteLength))
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    if (info.width !== format.columns || info.height !== format.rows) {
+      throw new Error(`Decoded size ${info.width}x${info.height} does not match ${format.columns}x${format.rows}`);
+    }
+
+    if (info.channels === format.samplesPerPixel) {
+      return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    // libjpeg may hand back RGB for greyscale streams, keep the first channel only
+    const pixels = new Uint8Array(this.frameLength(format));
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = data[i * info.channels];
+    }
+    return pixels;
+  }
+
+  private static decodeJpegLossless(frame: Uint8Array, format: PixelFormat): DecodedPixels {
+    const input = frame.buffer.slice(frame.byteOffset, frame.byteOffset + frame.byteLength);
+    const decoded = new JpegLosslessDecoder().decompress(input as ArrayBuffer);
+    return this.toPixelArray(new Uint8Array(decoded), format.bitsAllocated);
+  }
+
+  private static async decodeJpegLs(frame: Uint8Array): Promise<DecodedPixels> {
+    charlsModule = charlsModule || CharLS();
+    const charls = await charlsModule;
+    const decoder = new charls.JpegLSDecoder();
+
+    try {
+      decoder.getEncodedBuffer(frame.length).set(frame);
+      decoder.decode();
+
+      const frameInfo = decoder.getFrameInfo();
+      // Copy out of WASM memory before the decoder is deleted
+      const pixels = this.toPixelArray(new Uint8Array(decoder.getDecodedBuffer()), frameInfo.bitsPerSample);
+
+      // Interleave mode 0 (ILV_NONE) stores colour components as separate planes
+      return frameInfo.componentCount > 1 && decoder.getInterleaveMode() === 0
+        ? this.planarToInterleaved(pixels, frameInfo.componentCount)
+        : pixels;
+    } finally {
+      decoder.delete();
+    }
+  }
+
+  private static async decodeJpeg2000(frame: Uint8Array, format: PixelFormat): Promise<DecodedPixels> {
+    openJpegModule = openJpegModule || OpenJPEG();
+    const openjpeg = await openJpegModule;
+    const decoder = new openjpeg.J2KDecoder();
+
+    try {
+      decoder.getEncodedBuffer(frame.length).set(frame);
+      decoder.decode();
+
+      const frameInfo = decoder.getFrameInfo();
+      if (frameInfo.width !== format.columns || frameInfo.height !== format.rows) {
+        throw new Error(`Decoded size ${frameInfo.width}x${frameInfo.height} does not match ${format.columns}x${format.rows}`);
+      }
+
+      return this.toPixelArray(new Uint8Array(decoder.getDecodedBuffer()), frameInfo.bitsPerSample);
+    } finally {
+      decoder.delete();
+    }
+  }
+
+  /**
+   * RLE Lossless (PS3.5 Annex G): a 64 byte header of segment offsets followed by PackBits
+   * segments, one per byte of each sample, most significant byte first
+   */
+  private static decodeRle(frame: Uint8Array, format: PixelFormat): DecodedPixels {
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+    const segmentCount = view.getUint32(0, true);
+    const bytesPerSample = format.bitsAllocated <= 8 ? 1 : 2;
+    const pixelCount = format.rows * format.columns;
+
+    if (segmentCount !== format.samplesPerPixel * bytesPerSample) {
+      throw new Error(`Expected ${format.samplesPerPixel * bytesPerSample} RLE segments, found ${segmentCount}`);
+    }
+
+    const output = new Uint8Array(pixelCount * format.samplesPerPixel * bytesPerSample);
+
+    for (let segment = 0; segment < segmentCount; segment++) {
+      const start = view.getUint32(4 + segment * 4, true);
+      const end = segment + 1 < segmentCount ? view.getUint32(8 + segment * 4, true) : frame.length;
+      const sample = Math.floor(segment / bytesPerSample);
+      // Segments are ordered MSB first; output is little endian
+      const byteIndex = bytesPerSample - 1 - (segment % bytesPerSample);
+      const stride = format.samplesPerPixel * bytesPerSample;
+
+      let position = start;
+      let pixel = 0;
+      while (position < end && pixel < pixelCount) {
+        const header = (frame[position++] << 24) >> 24;
+        if (header >= 0) {
+          for (let i = 0; i <= header && pixel < pixelCount; i++) {
+            output[pixel++ * stride + sample * bytesPerSample + byteIndex] = frame[position++];
+          }
+        } else if (header !== -128) {
+          const value = frame[position++];
+          for (let i = 0; i < 1 - header && pixel < pixelCount; i++) {
+            output[pixel++ * stride + sample * bytesPerSample + byteIndex] = value;
+          }
+        }
+      }
+    }
+
+    return this.toPixelArray(output, format.bitsAllocated);
+  }
+}
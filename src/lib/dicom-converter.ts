@@ -1,37 +1,47 @@
 import * as dicomParser from 'dicom-parser';
+import type { DataSet } from 'dicom-parser';
 import sharp from 'sharp';
+import { DicomCodecs, DecodedPixels, PixelFormat } from './dicom-codecs';
+import { DicomPixelPipeline, PixelPipelineParameters, WindowSetting } from './dicom-pixel-pipeline';
+import { WindowPresetSelection, WindowPresets } from './window-presets';
+import { ConversionResult, DicomMetadata } from '@/types/medical';
 
-export interface DicomMetadata {
-  patientName?: string;
-  patientId?: string;
-  studyDate?: string;
-  modality?: string;
-  studyDescription?: string;
-  seriesDescription?: string;
-  instanceNumber?: string;
-  rows?: number;
-  columns?: number;
-  pixelSpacing?: number[];
-  windowCenter?: number;
-  windowWidth?: number;
-}
-
-export interface ConversionResult {
-  success: boolean;
-  pngBuffer?: Buffer;
-  metadata?: DicomMetadata;
-  error?: string;
-  originalFileName: string;
+export interface ConversionOptions {
+  /** Window presets to render each greyscale frame with; defaults to the stored window */
+  windowPresets?: WindowPresetSelection;
 }
 
 export class DicomConverter {
   /**
-   * Convert DICOM file buffer to PNG format
+   * Convert DICOM file buffer to PNG format. Multi-frame files yield their first frame only;
+   * use convertDicomFrames to expand every frame.
    */
   static async convertDicomToPng(
     dicomBuffer: Buffer,
     originalFileName: string
   ): Promise<ConversionResult> {
+    const [firstFrame] = await this.convertFrames(dicomBuffer, originalFileName, 1);
+    return firstFrame;
+  }
+
+  /**
+   * Convert every frame of a DICOM file to PNG in frame order, one result per frame and
+   * window preset
+   */
+  static async convertDicomFrames(
+    dicomBuffer: Buffer,
+    originalFileName: string,
+    options: ConversionOptions = {}
+  ): Promise<ConversionResult[]> {
+    return this.convertFrames(dicomBuffer, originalFileName, undefined, options);
+  }
+
+  private static async convertFrames(
+    dicomBuffer: Buffer,
+    originalFileName: string,
+    frameLimit?: number,
+    options: ConversionOptions = {}
+  ): Promise<ConversionResult[]> {
     try {
       // Parse DICOM file
       const dataSet = dicomParser.parseDicom(dicomBuffer);
@@ -39,38 +49,86 @@ export class DicomConverter {
       // Extract metadata
       const metadata = this.extractMetadata(dataSet);
       
-      // Get pixel data
-      const pixelData = this.extractPixelData(dataSet);
-      if (!pixelData) {
-        return {
+      if (!dataSet.elements.x7fe00010) {
+        return [{
           success: false,
           error: 'No pixel data found in DICOM file',
+          metadata,
           originalFileName
+        }];
+      }
+
+      const transferSyntaxUid = DicomCodecs.getTransferSyntaxUid(dataSet);
+      if (!DicomCodecs.isSupportedTransferSyntax(transferSyntaxUid)) {
+        return [{
+          success: false,
+          error: `Unsupported transfer syntax: ${DicomCodecs.describeTransferSyntax(transferSyntaxUid)}`,
+          metadata,
+          originalFileName
+        }];
+      }
+
+      const format = this.getPixelFormat(dataSet);
+      const frameCount = Math.min(format.numberOfFrames, frameLimit ?? format.numberOfFrames);
+      const results: ConversionResult[] = [];
+
+      for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+        const frameOverrides = this.extractFrameMetadata(dataSet, frameIndex);
+        const frameMetadata: DicomMetadata = {
+          ...metadata,
+          ...frameOverrides,
+          frameIndex
         };
+
+        try {
+          // Get pixel data, decompressing encapsulated transfer syntaxes
+          const pixelData = await DicomCodecs.decodeFrame(dataSet, format, frameIndex);
+
+          // Convert to PNG through the modality, VOI and presentation LUT stages, once per preset
+          const pipelineParams = DicomPixelPipeline.readParameters(dataSet, frameOverrides);
+          const presets = WindowPresets.resolve(options.windowPresets ?? 'stored', frameMetadata);
+          const renderings = presets.length > 0 ? presets : [undefined];
+
+          for (const preset of renderings) {
+            const { pngBuffer, window } = await this.pixelDataToPng(pixelData, frameMetadata, pipelineParams, preset);
+
+            results.push({
+              success: true,
+              pngBuffer,
+              metadata: {
+                ...frameMetadata,
+                windowPreset: preset?.id,
+                windowCenter: window?.center ?? frameMetadata.windowCenter,
+                windowWidth: window?.width ?? frameMetadata.windowWidth
+              },
+              originalFileName
+            });
+          }
+        } catch (error) {
+          const frameLabel = format.numberOfFrames > 1 ? ` (frame ${frameIndex + 1}/${format.numberOfFrames})` : '';
+          results.push({
+            success: false,
+            error: `DICOM conversion failed${frameLabel}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            metadata: frameMetadata,
+            originalFileName
+          });
+        }
       }
 
-      // Convert to PNG
-      const pngBuffer = await this.pixelDataToPng(pixelData, metadata);
-      
-      return {
-        success: true,
-        pngBuffer,
-        metadata,
-        originalFileName
-      };
+      return results;
     } catch (error) {
-      return {
+      return [{
         success: false,
         error: `DICOM conversion failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
         originalFileName
-      };
+      }];
     }
   }
 
   /**
    * Extract metadata from DICOM dataset
    */
-  private static extractMetadata(dataSet: any): DicomMetadata {
+  private static extractMetadata(dataSet: DataSet): DicomMetadata {
     const getString = (tag: string) => {
       try {
         return dataSet.string(tag);
@@ -95,145 +153,149 @@ export class DicomConverter {
       }
     };
 
+    const getInt = (tag: string) => {
+      try {
+        return dataSet.intString(tag);
+      } catch {
+        return undefined;
+      }
+    };
+
     return {
       patientName: getString('x00100010'),
       patientId: getString('x00100020'),
       studyDate: getString('x00080020'),
+      studyTime: getString('x00080030'),
       modality: getString('x00080060'),
       studyDescription: getString('x00081030'),
       seriesDescription: getString('x0008103e'),
-      instanceNumber: getString('x00200013'),
+      studyInstanceUid: getString('x0020000d'),
+      seriesInstanceUid: getString('x0020000e'),
+      sopInstanceUid: getString('x00080018'),
+      seriesNumber: getInt('x00200011'),
+      institutionName: getString('x00080080'),
+      manufacturerModelName: getString('x00081090'),
+      instanceNumber: getInt('x00200013'),
+      sliceThickness: getFloat('x00180050'),
+      sliceLocation: getFloat('x00201041'),
+      bodyPartExamined: getString('x00180015')?.trim(),
       rows: getUint16('x00280010'),
       columns: getUint16('x00280011'),
-      pixelSpacing: this.parsePixelSpacing(getString('x00280030')),
+      pixelSpacing: this.parseMultiValue(getString('x00280030')),
+      imagePosition: this.parseMultiValue(getString('x00200032')),
+      imageOrientation: this.parseMultiValue(getString('x00200037')),
       windowCenter: getFloat('x00281050'),
-      windowWidth: getFloat('x00281051')
+      windowWidth: getFloat('x00281051'),
+      transferSyntaxUid: DicomCodecs.getTransferSyntaxUid(dataSet),
+      numberOfFrames: dataSet.intString('x00280008') || 1,
+      bitsAllocated: getUint16('x00280100'),
+      bitsStored: getUint16('x00280101'),
+      samplesPerPixel: getUint16('x00280002'),
+      photometricInterpretation: getString('x00280004'),
+      pixelRepresentation: getUint16('x00280103'),
+      rescaleSlope: getFloat('x00281053'),
+      rescaleIntercept: getFloat('x00281052'),
+      burnedInAnnotation: getString('x00280301')?.trim(),
+      requestedProcedurePriority: getString('x00401003')?.trim()
     };
   }
 
   /**
-   * Parse pixel spacing string to array
+   * Parse a backslash separated decimal string (pixel spacing, position, orientation) to array
    */
-  private static parsePixelSpacing(pixelSpacingString?: string): number[] | undefined {
-    if (!pixelSpacingString) return undefined;
-    try {
-      return pixelSpacingString.split('\\').map(Number);
-    } catch {
-      return undefined;
-    }
+  private static parseMultiValue(value?: string): number[] | undefined {
+    if (!value) return undefined;
+    const numbers = value.split('\\').map(Number);
+    return numbers.some(Number.isNaN) ? undefined : numbers;
   }
 
   /**
-   * Extract pixel data from DICOM dataset
+   * Describe the pixel data layout needed to locate and decode frames
    */
-  private static extractPixelData(dataSet: any): Uint16Array | Uint8Array | null {
-    try {
-      // Try to get pixel data element
-      const pixelDataElement = dataSet.elements.x7fe00010;
-      if (!pixelDataElement) {
-        return null;
-      }
+  private static getPixelFormat(dataSet: DataSet): PixelFormat {
+    const bitsAllocated = dataSet.uint16('x00280100') || 16;
+    return {
+      rows: dataSet.uint16('x00280010') || 512,
+      columns: dataSet.uint16('x00280011') || 512,
+      bitsAllocated,
+      bitsStored: dataSet.uint16('x00280101') || bitsAllocated,
+      samplesPerPixel: dataSet.uint16('x00280002') || 1,
+      planarConfiguration: dataSet.uint16('x00280006') || 0,
+      numberOfFrames: dataSet.intString('x00280008') || 1,
+      photometricInterpretation: dataSet.string('x00280004')?.trim() || 'MONOCHROME2'
+    };
+  }
 
-      const bitsAllocated = dataSet.uint16('x00280100') || 16;
-      const pixelRepresentation = dataSet.uint16('x00280103') || 0;
-      
-      if (bitsAllocated === 16) {
-        return new Uint16Array(
-          dataSet.byteArray.buffer,
-          pixelDataElement.dataOffset,
-          pixelDataElement.length / 2
-        );
-      } else {
-        return new Uint8Array(
-          dataSet.byteArray.buffer,
-          pixelDataElement.dataOffset,
-          pixelDataElement.length
-        );
-      }
-    } catch (error) {
-      console.error('Error extracting pixel data:', error);
-      return null;
+  /**
+   * Per-frame attributes of enhanced multi-frame objects, looked up in the Per-frame
+   * Functional Groups Sequence (5200,9230) with the Shared one (5200,9229) as fallback
+   */
+  private static extractFrameMetadata(dataSet: DataSet, frameIndex: number): Partial<DicomMetadata> {
+    const perFrame = dataSet.elements.x52009230?.items?.[frameIndex]?.dataSet;
+    const shared = dataSet.elements.x52009229?.items?.[0]?.dataSet;
+
+    const findInGroup = (sequenceTag: string) =>
+      perFrame?.elements[sequenceTag]?.items?.[0]?.dataSet ||
+      shared?.elements[sequenceTag]?.items?.[0]?.dataSet;
+
+    const frameMetadata: Partial<DicomMetadata> = {};
+
+    // Frame VOI LUT Sequence
+    const voiLut = findInGroup('x00289132');
+    if (voiLut) {
+      frameMetadata.windowCenter = voiLut.floatString('x00281050');
+      frameMetadata.windowWidth = voiLut.floatString('x00281051');
     }
+
+    // Pixel Value Transformation Sequence
+    const pixelValueTransformation = findInGroup('x00289145');
+    if (pixelValueTransformation) {
+      frameMetadata.rescaleSlope = pixelValueTransformation.floatString('x00281053');
+      frameMetadata.rescaleIntercept = pixelValueTransformation.floatString('x00281052');
+    }
+
+    // Frame Content Sequence carries the in-stack position of the frame
+    const frameContent = findInGroup('x00209111');
+    const stackPosition = frameContent?.uint32('x00209057');
+    if (stackPosition !== undefined) {
+      frameMetadata.instanceNumber = stackPosition;
+    }
+
+    // Plane Position Sequence gives each frame its own Image Position (Patient)
+    const planePosition = findInGroup('x00209113')?.string('x00200032');
+    if (planePosition) {
+      frameMetadata.imagePosition = this.parseMultiValue(planePosition);
+    }
+
+    return frameMetadata;
   }
 
   /**
    * Convert pixel data to PNG using Sharp
    */
   private static async pixelDataToPng(
-    pixelData: Uint16Array | Uint8Array,
-    metadata: DicomMetadata
-  ): Promise<Buffer> {
+    pixelData: DecodedPixels,
+    metadata: DicomMetadata,
+    pipelineParams: PixelPipelineParameters,
+    window?: WindowSetting
+  ): Promise<{ pngBuffer: Buffer; window?: WindowSetting }> {
     const width = metadata.columns || 512;
     const height = metadata.rows || 512;
-    
-    let normalizedData: Uint8Array;
-
-    if (pixelData instanceof Uint16Array) {
-      // Convert 16-bit to 8-bit
-      normalizedData = this.normalize16BitTo8Bit(pixelData, metadata);
-    } else {
-      normalizedData = pixelData;
-    }
+
+    const rendered = DicomPixelPipeline.render(pixelData, pipelineParams, window);
 
     // Create PNG using Sharp
-    return await sharp(normalizedData, {
+    const pngBuffer = await sharp(rendered.data, {
       raw: {
         width,
         height,
-        channels: 1
+        channels: rendered.channels
       }
     })
     .png()
     .toBuffer();
-  }
-
-  /**
-   * Normalize 16-bit pixel data to 8-bit using window/level if available
-   */
-  private static normalize16BitTo8Bit(
-    pixelData: Uint16Array,
-    metadata: DicomMetadata
-  ): Uint8Array {
-    const normalized = new Uint8Array(pixelData.length);
-    
-    if (metadata.windowCenter && metadata.windowWidth) {
-      // Use DICOM window/level for normalization
-      const windowCenter = metadata.windowCenter;
-      const windowWidth = metadata.windowWidth;
-      const windowMin = windowCenter - windowWidth / 2;
-      const windowMax = windowCenter + windowWidth / 2;
-
-      for (let i = 0; i < pixelData.length; i++) {
-        const value = pixelData[i];
-        if (value <= windowMin) {
-          normalized[i] = 0;
-        } else if (value >= windowMax) {
-          normalized[i] = 255;
-        } else {
-          normalized[i] = Math.round(((value - windowMin) / windowWidth) * 255);
-        }
-      }
-    } else {
-      // Auto-normalize based on min/max values
-      let min = pixelData[0];
-      let max = pixelData[0];
-      
-      for (let i = 1; i < pixelData.length; i++) {
-        if (pixelData[i] < min) min = pixelData[i];
-        if (pixelData[i] > max) max = pixelData[i];
-      }
 
-      const range = max - min;
-      if (range === 0) {
-        normalized.fill(128); // Gray if no variation
-      } else {
-        for (let i = 0; i < pixelData.length; i++) {
-          normalized[i] = Math.round(((pixelData[i] - min) / range) * 255);
-        }
-      }
-    }
-
-    return normalized;
+    return { pngBuffer, window: rendered.window };
   }
 
   /**
@@ -250,30 +312,4 @@ export class DicomConverter {
       return false;
     }
   }
-
-  /**
-   * Batch convert multiple files
-   */
-  static async convertMultipleFiles(
-    files: { buffer: Buffer; fileName: string }[]
-  ): Promise<ConversionResult[]> {
-    const results: ConversionResult[] = [];
-    
-    for (const file of files) {
-      if (this.isDicomFile(file.buffer)) {
-        const result = await this.convertDicomToPng(file.buffer, file.fileName);
-        results.push(result);
-      } else {
-        // Not a DICOM file, assume it's already in a supported format
-        results.push({
-          success: true,
-          pngBuffer: file.buffer,
-          originalFileName: file.fileName,
-          metadata: {}
-        });
-      }
-    }
-    
-    return results;
-  }
 }
\ No newline at end of file
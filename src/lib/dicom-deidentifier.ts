@@ -0,0 +1,319 @@
+import sharp from 'sharp';
+import { DicomMetadata } from '@/types/medical';
+import { PseudonymStore } from './pseudonym-store';
+import type { DicomdirPatient } from './study-archive';
+
+/**
+ * PS3.15 Table E.1-1 action codes: D/Z replace with a dummy or empty value,
+ * X remove, K keep, U replace with a consistent new UID
+ */
+export type DeidentificationAction = 'D' | 'Z' | 'X' | 'K' | 'U';
+
+export interface MaskRegion {
+  /** Only mask images of this modality; all DICOM images when omitted */
+  modality?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Fractions of the image size (default) or absolute pixels */
+  units?: 'fraction' | 'pixels';
+}
+
+export interface DeidentificationOptions {
+  enabled: boolean;
+  /** Retain Longitudinal Temporal Information with Full Dates Option */
+  retainDates: boolean;
+  /** Retain UIDs Option */
+  retainUids: boolean;
+  maskRegions: MaskRegion[];
+}
+
+export interface DeidentifiedImage {
+  pngBuffer: Buffer;
+  metadata: DicomMetadata;
+  warnings: string[];
+}
+
+interface ProfileAttribute {
+  keyword: string;
+  action: DeidentificationAction;
+  /** DA, TM or DT attribute covered by the retain-dates option */
+  temporal?: boolean;
+}
+
+// Basic Application Level Confidentiality Profile, attributes this application can encounter
+const BASIC_PROFILE: Record<string, ProfileAttribute> = {
+  x00020003: { keyword: 'MediaStorageSOPInstanceUID', action: 'U' },
+  x00080014: { keyword: 'InstanceCreatorUID', action: 'U' },
+  x00080018: { keyword: 'SOPInstanceUID', action: 'U' },
+  x00080020: { keyword: 'StudyDate', action: 'Z', temporal: true },
+  x00080021: { keyword: 'SeriesDate', action: 'X', temporal: true },
+  x00080022: { keyword: 'AcquisitionDate', action: 'X', temporal: true },
+  x00080023: { keyword: 'ContentDate', action: 'Z', temporal: true },
+  x0008002a: { keyword: 'AcquisitionDateTime', action: 'X', temporal: true },
+  x00080030: { keyword: 'StudyTime', action: 'Z', temporal: true },
+  x00080031: { keyword: 'SeriesTime', action: 'X', temporal: true },
+  x00080032: { keyword: 'AcquisitionTime', action: 'X', temporal: true },
+  x00080033: { keyword: 'ContentTime', action: 'Z', temporal: true },
+  x00080050: { keyword: 'AccessionNumber', action: 'Z' },
+  x00080080: { keyword: 'InstitutionName', action: 'X' },
+  x00080081: { keyword: 'InstitutionAddress', action: 'X' },
+  x00080090: { keyword: 'ReferringPhysicianName', action: 'Z' },
+  x00080092: { keyword: 'ReferringPhysicianAddress', action: 'X' },
+  x00080094: { keyword: 'ReferringPhysicianTelephoneNumbers', action: 'X' },
+  x00081010: { keyword: 'StationName', action: 'X' },
+  x00081030: { keyword: 'StudyDescription', action: 'X' },
+  x0008103e: { keyword: 'SeriesDescription', action: 'X' },
+  x00081040: { keyword: 'InstitutionalDepartmentName', action: 'X' },
+  x00081048: { keyword: 'PhysiciansOfRecord', action: 'X' },
+  x00081050: { keyword: 'PerformingPhysicianName', action: 'X' },
+  x00081060: { keyword: 'NameOfPhysiciansReadingStudy', action: 'X' },
+  x00081070: { keyword: 'OperatorsName', action: 'X' },
+  x00081080: { keyword: 'AdmittingDiagnosesDescription', action: 'X' },
+  x00081155: { keyword: 'ReferencedSOPInstanceUID', action: 'U' },
+  x00082111: { keyword: 'DerivationDescription', action: 'X' },
+  x00100010: { keyword: 'PatientName', action: 'Z' },
+  x00100020: { keyword: 'PatientID', action: 'Z' },
+  x00100021: { keyword: 'IssuerOfPatientID', action: 'X' },
+  x00100030: { keyword: 'PatientBirthDate', action: 'Z', temporal: true },
+  x00100032: { keyword: 'PatientBirthTime', action: 'X', temporal: true },
+  x00100040: { keyword: 'PatientSex', action: 'Z' },
+  x00101000: { keyword: 'OtherPatientIDs', action: 'X' },
+  x00101001: { keyword: 'OtherPatientNames', action: 'X' },
+  x00101010: { keyword: 'PatientAge', action: 'X' },
+  x00101020: { keyword: 'PatientSize', action: 'X' },
+  x00101030: { keyword: 'PatientWeight', action: 'X' },
+  x00101040: { keyword: 'PatientAddress', action: 'X' },
+  x00102154: { keyword: 'PatientTelephoneNumbers', action: 'X' },
+  x00102160: { keyword: 'EthnicGroup', action: 'X' },
+  x00102180: { keyword: 'Occupation', action: 'X' },
+  x001021b0: { keyword: 'AdditionalPatientHistory', action: 'X' },
+  x00104000: { keyword: 'PatientComments', action: 'X' },
+  x00181000: { keyword: 'DeviceSerialNumber', action: 'X' },
+  x00181030: { keyword: 'ProtocolName', action: 'X' },
+  x0020000d: { keyword: 'StudyInstanceUID', action: 'U' },
+  x0020000e: { keyword: 'SeriesInstanceUID', action: 'U' },
+  x00200010: { keyword: 'StudyID', action: 'Z' },
+  x00200052: { keyword: 'FrameOfReferenceUID', action: 'U' },
+  x00200200: { keyword: 'SynchronizationFrameOfReferenceUID', action: 'U' },
+  x00204000: { keyword: 'ImageComments', action: 'X' },
+  x00321032: { keyword: 'RequestingPhysician', action: 'X' },
+  x00321060: { keyword: 'RequestedProcedureDescription', action: 'X' },
+  x00400244: { keyword: 'PerformedProcedureStepStartDate', action: 'X', temporal: true },
+  x00400245: { keyword: 'PerformedProcedureStepStartTime', action: 'X', temporal: true },
+  x00400253: { keyword: 'PerformedProcedureStepID', action: 'X' },
+  x00400254: { keyword: 'PerformedProcedureStepDescription', action: 'X' },
+  x0040a124: { keyword: 'UID', action: 'U' },
+  x00880140: { keyword: 'StorageMediaFileSetUID', action: 'U' },
+  x30060024: { keyword: 'ReferencedFrameOfReferenceUID', action: 'U' }
+};
+
+// Extracted metadata fields and the attributes they were read from
+const METADATA_ATTRIBUTES: Array<[keyof DicomMetadata, string]> = [
+  ['patientName', 'x00100010'],
+  ['patientId', 'x00100020'],
+  ['studyDate', 'x00080020'],
+  ['studyTime', 'x00080030'],
+  ['studyDescription', 'x00081030'],
+  ['seriesDescription', 'x0008103e'],
+  ['institutionName', 'x00080080'],
+  ['studyInstanceUid', 'x0020000d'],
+  ['seriesInstanceUid', 'x0020000e'],
+  ['sopInstanceUid', 'x00080018']
+];
+
+/**
+ * PS3.15 Basic Application Level Confidentiality Profile applied to extracted metadata,
+ * plus black-box masking of configured burned-in annotation regions
+ */
+export class DicomDeidentifier {
+  /**
+   * Profile action for an attribute tag such as 'x00100010'. Private attributes and
+   * overlay/curve data are removed; attributes outside the profile are kept.
+   */
+  static getAction(tag: string, options: DeidentificationOptions): DeidentificationAction {
+    const attribute = BASIC_PROFILE[tag];
+    if (attribute) {
+      if (attribute.temporal && options.retainDates) return 'K';
+      if (attribute.action === 'U' && options.retainUids) return 'K';
+      return attribute.action;
+    }
+
+    const group = parseInt(tag.slice(1, 5), 16);
+    if (group % 2 === 1) {
+      return 'X';
+    }
+    // Curve data (50xx) and overlay data/comments (60xx,3000 / 60xx,4000)
+    if ((group & 0xff00) === 0x5000 || ((group & 0xff00) === 0x6000 && /^(3000|4000)$/.test(tag.slice(5)))) {
+      return 'X';
+    }
+    return 'K';
+  }
+
+  static getKeyword(tag: string): string | undefined {
+    return BASIC_PROFILE[tag]?.keyword;
+  }
+
+  /**
+   * De-identify one converted image: metadata through the profile, pixels through the
+   * configured mask regions
+   */
+  static async deidentify(
+    pngBuffer: Buffer,
+    metadata: DicomMetadata,
+    options: DeidentificationOptions
+  ): Promise<DeidentifiedImage> {
+    if (!options.enabled) {
+      return { pngBuffer, metadata, warnings: [] };
+    }
+
+    const warnings: string[] = [];
+    const regions = options.maskRegions.filter(region =>
+      !region.modality || region.modality.toUpperCase() === metadata.modality?.toUpperCase()
+    );
+
+    if (metadata.burnedInAnnotation === 'YES' && regions.length === 0) {
+      warnings.push('Burned In Annotation is YES but no mask region is configured for this modality');
+    }
+
+    return {
+      pngBuffer: regions.length > 0 ? await this.maskRegions(pngBuffer, regions) : pngBuffer,
+      metadata: await this.deidentifyMetadata(metadata, options),
+      warnings
+    };
+  }
+
+  static async deidentifyMetadata(metadata: DicomMetadata, options: DeidentificationOptions): Promise<DicomMetadata> {
+    const result: DicomMetadata = { ...metadata };
+
+    for (const [field, tag] of METADATA_ATTRIBUTES) {
+      const value = metadata[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      const action = this.getAction(tag, options);
+      if (action === 'U' && typeof value === 'string') {
+        Object.assign(result, { [field]: await PseudonymStore.replaceUid(value) });
+      } else if (action !== 'K') {
+        delete result[field];
+      }
+    }
+
+    // Patient Name and ID are replaced with one pseudonym rather than emptied so studies stay linkable
+    if (metadata.patientId || metadata.patientName) {
+      const pseudonym = await PseudonymStore.getPatientPseudonym(metadata.patientId, metadata.patientName);
+      result.patientId = pseudonym;
+      result.patientName = pseudonym;
+    }
+
+    const methods = ['Basic Application Confidentiality Profile'];
+    if (options.retainDates) methods.push('Retain Longitudinal Temporal Information With Full Dates Option');
+    if (options.retainUids) methods.push('Retain UIDs Option');
+
+    result.patientIdentityRemoved = true;
+    result.deidentificationMethod = methods.join(', ');
+    return result;
+  }
+
+  /**
+   * The DICOMDIR hierarchy of an upload through the same profile: patients under their
+   * pseudonym, study and series attributes as in the images themselves
+   */
+  static async deidentifyDirectory(patients: DicomdirPatient[], options: DeidentificationOptions): Promise<DicomdirPatient[]> {
+    if (!options.enabled) {
+      return patients;
+    }
+
+    return Promise.all(patients.map(async patient => {
+      const pseudonym = patient.patientId || patient.patientName
+        ? await PseudonymStore.getPatientPseudonym(patient.patientId, patient.patientName)
+        : undefined;
+
+      return {
+        patientId: pseudonym,
+        patientName: pseudonym,
+        studies: await Promise.all(patient.studies.map(async study => ({
+          studyInstanceUid: await this.applyAction(study.studyInstanceUid, 'x0020000d', options),
+          studyDate: await this.applyAction(study.studyDate, 'x00080020', options),
+          studyDescription: await this.applyAction(study.studyDescription, 'x00081030', options),
+          accessionNumber: await this.applyAction(study.accessionNumber, 'x00080050', options),
+          series: await Promise.all(study.series.map(async series => ({
+            ...series,
+            seriesInstanceUid: await this.applyAction(series.seriesInstanceUid, 'x0020000e', options),
+            instances: await Promise.all(series.instances.map(async instance => ({
+              ...instance,
+              sopInstanceUid: await this.applyAction(instance.sopInstanceUid, 'x00080018', options)
+            })))
+          })))
+        })))
+      };
+    }));
+  }
+
+  /**
+   * A value kept, replaced with a new UID, or dropped as the profile asks of its attribute
+   */
+  private static async applyAction(value: string | undefined, tag: string, options: DeidentificationOptions): Promise<string | undefined> {
+    if (value === undefined) {
+      return undefined;
+    }
+    const action = this.getAction(tag, options);
+    if (action === 'K') return value;
+    if (action === 'U') return PseudonymStore.replaceUid(value);
+    return undefined;
+  }
+
+  private static async maskRegions(pngBuffer: Buffer, regions: MaskRegion[]): Promise<Buffer> {
+    const { width = 0, height = 0 } = await sharp(pngBuffer).metadata();
+
+    const boxes = regions.flatMap(region => {
+      const scaleX = region.units === 'pixels' ? 1 : width;
+      const scaleY = region.units === 'pixels' ? 1 : height;
+      const left = Math.max(0, Math.floor(region.x * scaleX));
+      const top = Math.max(0, Math.floor(region.y * scaleY));
+      const boxWidth = Math.min(width - left, Math.ceil(region.width * scaleX));
+      const boxHeight = Math.min(height - top, Math.ceil(region.height * scaleY));
+
+      if (boxWidth <= 0 || boxHeight <= 0) {
+        return [];
+      }
+      return [{
+        input: {
+          create: { width: boxWidth, height: boxHeight, channels: 3 as const, background: { r: 0, g: 0, b: 0 } }
+        },
+        left,
+        top
+      }];
+    });
+
+    return boxes.length > 0 ? sharp(pngBuffer).composite(boxes).png().toBuffer() : pngBuffer;
+  }
+}
+
+/**
+ * Options from DEIDENTIFICATION ('off' disables), DEID_RETAIN_DATES, DEID_RETAIN_UIDS and
+ * DEID_MASK_REGIONS (JSON array of MaskRegion)
+ */
+export function getDeidentificationOptions(): DeidentificationOptions {
+  let maskRegions: MaskRegion[] = [];
+
+  if (process.env.DEID_MASK_REGIONS) {
+    try {
+      maskRegions = JSON.parse(process.env.DEID_MASK_REGIONS);
+    } catch {
+      throw new Error('DEID_MASK_REGIONS must be a JSON array of mask regions');
+    }
+    if (!Array.isArray(maskRegions)) {
+      throw new Error('DEID_MASK_REGIONS must be a JSON array of mask regions');
+    }
+  }
+
+  return {
+    enabled: process.env.DEIDENTIFICATION !== 'off',
+    retainDates: process.env.DEID_RETAIN_DATES === 'true',
+    retainUids: process.env.DEID_RETAIN_UIDS === 'true',
+    maskRegions
+  };
+}
@@ -0,0 +1,297 @@
+import type { DataSet } from 'dicom-parser';
+import type { DecodedPixels } from './dicom-codecs';
+
+export interface LookupTable {
+  firstValueMapped: number;
+  bitsPerEntry: number;
+  data: Uint16Array;
+}
+
+export interface WindowSetting {
+  center: number;
+  width: number;
+  explanation?: string;
+}
+
+export type VoiLutFunction = 'LINEAR' | 'LINEAR_EXACT' | 'SIGMOID';
+
+export interface PixelPipelineParameters {
+  photometricInterpretation: string;
+  samplesPerPixel: number;
+  bitsStored: number;
+  pixelRepresentation: number;
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  modalityLut?: LookupTable;
+  windows: WindowSetting[];
+  voiLutFunction: VoiLutFunction;
+  voiLut?: LookupTable;
+  presentationLutShape?: 'IDENTITY' | 'INVERSE';
+  palette?: { red: LookupTable; green: LookupTable; blue: LookupTable };
+}
+
+export interface RenderedPixels {
+  data: Uint8Array;
+  channels: 1 | 3;
+  window?: WindowSetting;
+}
+
+/**
+ * DICOM greyscale and colour rendering pipeline (PS3.4 Figure N.2-1):
+ * stored value → Modality LUT → VOI LUT/window → Presentation LUT → 8-bit display value
+ */
+export class DicomPixelPipeline {
+  /**
+   * Read every attribute the pipeline needs. Scalar values come from the (possibly
+   * per-frame) metadata so enhanced multi-frame overrides are honoured.
+   */
+  static readParameters(
+    dataSet: DataSet,
+    frame: {
+      windowCenter?: number;
+      windowWidth?: number;
+      rescaleSlope?: number;
+      rescaleIntercept?: number;
+    } = {}
+  ): PixelPipelineParameters {
+    const photometricInterpretation = dataSet.string('x00280004')?.trim() || 'MONOCHROME2';
+    const bitsAllocated = dataSet.uint16('x00280100') || 16;
+    const presentationLutShape = dataSet.string('x20500020')?.trim();
+    const voiLutFunction = dataSet.string('x00281056')?.trim();
+
+    return {
+      photometricInterpretation,
+      samplesPerPixel: dataSet.uint16('x00280002') || 1,
+      bitsStored: dataSet.uint16('x00280101') || bitsAllocated,
+      pixelRepresentation: dataSet.uint16('x00280103') || 0,
+      rescaleSlope: frame.rescaleSlope ?? dataSet.floatString('x00281053') ?? 1,
+      rescaleIntercept: frame.rescaleIntercept ?? dataSet.floatString('x00281052') ?? 0,
+      modalityLut: this.readLutSequence(dataSet, 'x00283000'),
+      windows: frame.windowCenter !== undefined && frame.windowWidth !== undefined
+        ? [{ center: frame.windowCenter, width: frame.windowWidth }]
+        : this.readWindows(dataSet),
+      voiLutFunction: voiLutFunction === 'LINEAR_EXACT' || voiLutFunction === 'SIGMOID' ? voiLutFunction : 'LINEAR',
+      voiLut: this.readLutSequence(dataSet, 'x00283010'),
+      presentationLutShape: presentationLutShape === 'INVERSE' || presentationLutShape === 'IDENTITY'
+        ? presentationLutShape
+        : undefined,
+      palette: photometricInterpretation === 'PALETTE COLOR' ? this.readPalette(dataSet) : undefined
+    };
+  }
+
+  /**
+   * Render decoded pixels to 8-bit display values. Without an explicit window the first
+   * stored window is used, then the VOI LUT Sequence, then the modality value range.
+   */
+  static render(
+    pixels: DecodedPixels,
+    params: PixelPipelineParameters,
+    window?: WindowSetting
+  ): RenderedPixels {
+    if (params.photometricInterpretation === 'PALETTE COLOR') {
+      return { data: this.applyPalette(pixels, params), channels: 3 };
+    }
+
+    if (params.samplesPerPixel === 3) {
+      return { data: this.scaleTo8Bit(pixels, params.bitsStored), channels: 3 };
+    }
+
+    const selectedWindow = window || params.windows[0];
+
+    // Pixel values are bounded by Bits Stored, so the whole pipeline collapses into one table
+    const storedMin = params.pixelRepresentation === 1 ? -(1 << (params.bitsStored - 1)) : 0;
+    const tableSize = 1 << Math.min(params.bitsStored, 16);
+    const modalityValues = new Float64Array(tableSize);
+    for (let i = 0; i < tableSize; i++) {
+      modalityValues[i] = this.applyModalityLut(storedMin + i, params);
+    }
+
+    const indices = this.storedValueIndices(pixels, params);
+    const output = new Uint8Array(indices.length);
+    const displayTable = new Uint8Array(tableSize);
+    const invert = params.photometricInterpretation === 'MONOCHROME1' || params.presentationLutShape === 'INVERSE';
+
+    let voi: (value: number) => number;
+    if (selectedWindow) {
+      voi = (value) => this.applyWindow(value, selectedWindow, params.voiLutFunction);
+    } else if (params.voiLut) {
+      const voiLut = params.voiLut;
+      const maxEntry = (1 << voiLut.bitsPerEntry) - 1;
+      voi = (value) => this.applyLut(value, voiLut) / maxEntry;
+    } else {
+      // Auto-normalise over the modality values actually present in this frame
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i < indices.length; i++) {
+        const value = modalityValues[indices[i]];
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      const range = max - min;
+      voi = range === 0 ? () => 0.5 : (value) => (value - min) / range;
+    }
+
+    for (let i = 0; i < tableSize; i++) {
+      const normalized = Math.max(0, Math.min(1, voi(modalityValues[i])));
+      displayTable[i] = Math.round((invert ? 1 - normalized : normalized) * 255);
+    }
+
+    for (let i = 0; i < indices.length; i++) {
+      output[i] = displayTable[indices[i]];
+    }
+
+    return { data: output, channels: 1, window: selectedWindow };
+  }
+
+  /**
+   * Map raw stored values to table indices, masking bits above Bits Stored and
+   * sign-extending two's complement data
+   */
+  private static storedValueIndices(pixels: DecodedPixels, params: PixelPipelineParameters): Uint32Array {
+    const bitsStored = Math.min(params.bitsStored, 16);
+    const mask = (1 << bitsStored) - 1;
+    const signBit = 1 << (bitsStored - 1);
+    const signed = params.pixelRepresentation === 1;
+    const indices = new Uint32Array(pixels.length);
+
+    for (let i = 0; i < pixels.length; i++) {
+      const stored = pixels[i] & mask;
+      // Shift signed values so the most negative value lands on index 0
+      indices[i] = signed ? (stored ^ signBit) : stored;
+    }
+
+    return indices;
+  }
+
+  private static applyModalityLut(value: number, params: PixelPipelineParameters): number {
+    if (params.modalityLut) {
+      return this.applyLut(value, params.modalityLut);
+    }
+    return value * params.rescaleSlope + params.rescaleIntercept;
+  }
+
+  /**
+   * Window functions from PS3.3 C.11.2.1.2, returning a normalised 0..1 value
+   */
+  private static applyWindow(value: number, window: WindowSetting, fn: VoiLutFunction): number {
+    const { center, width } = window;
+
+    if (fn === 'SIGMOID') {
+      return 1 / (1 + Math.exp((-4 * (value - center)) / width));
+    }
+
+    if (fn === 'LINEAR_EXACT') {
+      if (value <= center - width / 2) return 0;
+      if (value > center + width / 2) return 1;
+      return (value - center) / width + 0.5;
+    }
+
+    if (value <= center - 0.5 - (width - 1) / 2) return 0;
+    if (value > center - 0.5 + (width - 1) / 2) return 1;
+    return (value - (center - 0.5)) / Math.max(width - 1, 1) + 0.5;
+  }
+
+  private static applyLut(value: number, lut: LookupTable): number {
+    const index = Math.round(value) - lut.firstValueMapped;
+    const clamped = Math.max(0, Math.min(lut.data.length - 1, index));
+    return lut.data[clamped];
+  }
+
+  private static applyPalette(pixels: DecodedPixels, params: PixelPipelineParameters): Uint8Array {
+    const palette = params.palette;
+    if (!palette) {
+      throw new Error('PALETTE COLOR image is missing its palette lookup tables');
+    }
+
+    const rgb = new Uint8Array(pixels.length * 3);
+    const channels = [palette.red, palette.green, palette.blue];
+    for (let i = 0; i < pixels.length; i++) {
+      for (let c = 0; c < 3; c++) {
+        const lut = channels[c];
+        const entry = this.applyLut(pixels[i], lut);
+        rgb[i * 3 + c] = lut.bitsPerEntry > 8 ? entry >> (lut.bitsPerEntry - 8) : entry & 0xff;
+      }
+    }
+    return rgb;
+  }
+
+  private static scaleTo8Bit(pixels: DecodedPixels, bitsStored: number): Uint8Array {
+    if (pixels instanceof Uint8Array && bitsStored <= 8) {
+      return pixels;
+    }
+    const shift = Math.max(0, bitsStored - 8);
+    const scaled = new Uint8Array(pixels.length);
+    for (let i = 0; i < pixels.length; i++) {
+      scaled[i] = Math.min(255, pixels[i] >> shift);
+    }
+    return scaled;
+  }
+
+  private static readWindows(dataSet: DataSet): WindowSetting[] {
+    const count = Math.min(
+      dataSet.numStringValues('x00281050') || 0,
+      dataSet.numStringValues('x00281051') || 0
+    );
+    const windows: WindowSetting[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const center = dataSet.floatString('x00281050', i);
+      const width = dataSet.floatString('x00281051', i);
+      if (center !== undefined && width !== undefined && width > 0) {
+        windows.push({ center, width, explanation: dataSet.string('x00281055', i) });
+      }
+    }
+
+    return windows;
+  }
+
+  /**
+   * First item of a Modality LUT (0028,3000) or VOI LUT (0028,3010) Sequence
+   */
+  private static readLutSequence(dataSet: DataSet, sequenceTag: string): LookupTable | undefined {
+    const item = dataSet.elements[sequenceTag]?.items?.[0]?.dataSet;
+    if (!item) {
+      return undefined;
+    }
+    return this.readLut(item, 'x00283002', 'x00283006');
+  }
+
+  private static readPalette(dataSet: DataSet): PixelPipelineParameters['palette'] {
+    if (dataSet.elements.x00281221) {
+      throw new Error('Segmented palette colour lookup tables are not supported');
+    }
+
+    const red = this.readLut(dataSet, 'x00281101', 'x00281201');
+    const green = this.readLut(dataSet, 'x00281102', 'x00281202');
+    const blue = this.readLut(dataSet, 'x00281103', 'x00281203');
+    return red && green && blue ? { red, green, blue } : undefined;
+  }
+
+  /**
+   * LUT Descriptor is [entries (0 means 65536), first value mapped, bits per entry]
+   */
+  private static readLut(dataSet: DataSet, descriptorTag: string, dataTag: string): LookupTable | undefined {
+    const descriptor = dataSet.elements[descriptorTag];
+    const lutData = dataSet.elements[dataTag];
+    if (!descriptor || !lutData) {
+      return undefined;
+    }
+
+    const entries = dataSet.uint16(descriptorTag, 0) || 65536;
+    const bitsPerEntry = dataSet.uint16(descriptorTag, 2) || 16;
+    // First value mapped is US or SS depending on the pixel representation
+    const firstRaw = dataSet.uint16(descriptorTag, 1) || 0;
+    const firstValueMapped = dataSet.uint16('x00280103') === 1 && firstRaw > 0x7fff ? firstRaw - 0x10000 : firstRaw;
+
+    const data = new Uint16Array(entries);
+    const bytesPerEntry = lutData.length >= entries * 2 ? 2 : 1;
+    for (let i = 0; i < entries; i++) {
+      const offset = lutData.dataOffset + i * bytesPerEntry;
+      data[i] = bytesPerEntry === 2
+        ? dataSet.byteArrayParser.readUint16(dataSet.byteArray, offset)
+        : dataSet.byteArray[offset];
+    }
+
+    return { firstValueMapped, bitsPerEntry, data };
+  }
+}
@@ -0,0 +1,278 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet, Element } from 'dicom-parser';
+import dcmjs from 'dcmjs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { DicomCodecs } from './dicom-codecs';
+import { DicomDeidentifier, DeidentificationOptions } from './dicom-deidentifier';
+import { dataPath } from './storage-paths';
+
+export interface TagDumpElement {
+  /** '(GGGG,EEEE)' */
+  tag: string;
+  keyword?: string;
+  vr?: string;
+  length: number;
+  value?: string;
+  private: boolean;
+  privateCreator?: string;
+  /** Value withheld by PHI masking */
+  masked?: boolean;
+  /** Binary payload that is summarised rather than printed */
+  binary?: boolean;
+  /** Sequence items, each a list of elements */
+  items?: TagDumpElement[][];
+}
+
+export interface TagDump {
+  transferSyntax: string;
+  sopClass?: string;
+  elementCount: number;
+  elements: TagDumpElement[];
+}
+
+export interface TagDumpOptions {
+  maskPhi: boolean;
+}
+
+/**
+ * Dump of a source instance with the session images converted from it
+ */
+export interface InstanceTags {
+  imageIds: string[];
+  dump: TagDump;
+}
+
+const { dictionary, sopClassNamesByUID } = dcmjs.data.DicomMetaDictionary;
+
+const STRING_VRS = new Set(['AE', 'AS', 'CS', 'DA', 'DS', 'DT', 'IS', 'LO', 'PN', 'SH', 'TM', 'UC', 'UI', 'UR']);
+const TEXT_VRS = new Set(['LT', 'ST', 'UT']);
+const BINARY_VRS = new Set(['OB', 'OD', 'OF', 'OL', 'OV', 'OW', 'UN']);
+const NUMERIC_VRS: Record<string, { size: number; read: (dataSet: DataSet, tag: string, index: number) => number | undefined }> = {
+  US: { size: 2, read: (dataSet, tag, index) => dataSet.uint16(tag, index) },
+  SS: { size: 2, read: (dataSet, tag, index) => dataSet.int16(tag, index) },
+  UL: { size: 4, read: (dataSet, tag, index) => dataSet.uint32(tag, index) },
+  SL: { size: 4, read: (dataSet, tag, index) => dataSet.int32(tag, index) },
+  FL: { size: 4, read: (dataSet, tag, index) => dataSet.float(tag, index) },
+  FD: { size: 8, read: (dataSet, tag, index) => dataSet.double(tag, index) }
+};
+
+// Values beyond these limits are truncated in the dump
+const MAX_NUMERIC_VALUES = 32;
+const MAX_STRING_LENGTH = 1024;
+
+// Profile without retain options, so masking hides everything the Basic Profile would touch
+const MASKING_PROFILE: DeidentificationOptions = {
+  enabled: true,
+  retainDates: false,
+  retainUids: false,
+  maskRegions: []
+};
+
+/**
+ * Complete, human-readable dump of a DICOM Part 10 file including sequences and private tags
+ */
+export class DicomTagDump {
+  static dump(buffer: Buffer, options: TagDumpOptions): TagDump {
+    // The dictionary VR lets implicit VR files expose their sequences
+    const dataSet = dicomParser.parseDicom(buffer, {
+      vrCallback: (tag: string) => this.lookup(this.formatTag(tag))?.vr
+    });
+
+    const transferSyntaxUid = DicomCodecs.getTransferSyntaxUid(dataSet);
+    const sopClassUid = dataSet.string('x00080016')?.trim() || dataSet.string('x00020002')?.trim();
+    const elements = this.dumpDataSet(dataSet, options);
+
+    return {
+      transferSyntax: DicomCodecs.describeTransferSyntax(transferSyntaxUid),
+      sopClass: sopClassUid ? `${sopClassNamesByUID[sopClassUid] || 'Unknown SOP class'} (${sopClassUid})` : undefined,
+      elementCount: this.countElements(elements),
+      elements
+    };
+  }
+
+  /**
+   * Keep the dumps of a session's DICOM instances, so their headers can be browsed once the
+   * uploaded files are gone. Only dumps made with maskPhi belong here.
+   */
+  static async save(sessionId: string, instances: InstanceTags[]): Promise<void> {
+    const directory = this.sessionDir(sessionId);
+    await mkdir(directory, { recursive: true });
+
+    const index: Record<string, number> = {};
+    for (const [position, { imageIds, dump }] of instances.entries()) {
+      await writeFile(join(directory, `${position}.json`), JSON.stringify(dump));
+      imageIds.forEach(imageId => index[imageId] = position);
+    }
+    await writeFile(join(directory, 'index.json'), JSON.stringify(index));
+  }
+
+  /**
+   * Masked dump of the instance a session image was converted from; null when the image
+   * did not come from a DICOM file
+   */
+  static async load(sessionId: string, imageId: string): Promise<TagDump | null> {
+    const directory = this.sessionDir(sessionId);
+    let index: Record<string, number>;
+    try {
+      index = JSON.parse(await readFile(join(directory, 'index.json'), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const position = index[imageId];
+    return position === undefined ? null : JSON.parse(await readFile(join(directory, `${position}.json`), 'utf-8'));
+  }
+
+  private static sessionDir(sessionId: string): string {
+    // Session ids come from clients and become directory names
+    if (!/^[\w-]+$/.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return dataPath('sessions', sessionId, 'tags');
+  }
+
+  private static dumpDataSet(dataSet: DataSet, options: TagDumpOptions): TagDumpElement[] {
+    return Object.keys(dataSet.elements)
+      .sort()
+      .map(key => this.dumpElement(dataSet, dataSet.elements[key], options));
+  }
+
+  private static dumpElement(dataSet: DataSet, element: Element, options: TagDumpOptions): TagDumpElement {
+    const tag = this.formatTag(element.tag);
+    const group = parseInt(element.tag.slice(1, 5), 16);
+    const elementNumber = parseInt(element.tag.slice(5), 16);
+    const isPrivate = group % 2 === 1;
+    const isPrivateCreator = isPrivate && elementNumber >= 0x10 && elementNumber <= 0xff;
+    const privateCreator = isPrivate && elementNumber >= 0x1000
+      ? dataSet.string(`x${element.tag.slice(1, 5)}00${element.tag.slice(5, 7)}`)?.trim()
+      : undefined;
+
+    const entry = this.lookup(tag, privateCreator);
+    const vr = this.resolveVr(element.vr || entry?.vr, dataSet);
+    const result: TagDumpElement = {
+      tag,
+      keyword: entry?.name || (isPrivateCreator ? 'PrivateCreator' : undefined),
+      vr,
+      length: element.length,
+      private: isPrivate,
+      privateCreator
+    };
+
+    // Private creator strings name the vendor dictionary and stay visible
+    const masked = options.maskPhi
+      && !isPrivateCreator
+      && (vr === 'PN' || DicomDeidentifier.getAction(element.tag, MASKING_PROFILE) !== 'K');
+
+    if (element.items) {
+      result.vr = 'SQ';
+      result.value = `${element.items.length} item${element.items.length === 1 ? '' : 's'}`;
+      if (masked) {
+        result.masked = true;
+      } else {
+        result.items = element.items.map(item => item.dataSet ? this.dumpDataSet(item.dataSet, options) : []);
+      }
+      return result;
+    }
+
+    if (masked) {
+      result.masked = true;
+      return result;
+    }
+
+    if (element.fragments) {
+      result.binary = true;
+      result.value = `Encapsulated, ${element.fragments.length} fragment${element.fragments.length === 1 ? '' : 's'}`;
+      return result;
+    }
+
+    result.value = this.readValue(dataSet, element, vr);
+    result.binary = vr !== undefined && BINARY_VRS.has(vr);
+    return result;
+  }
+
+  private static readValue(dataSet: DataSet, element: Element, vr?: string): string | undefined {
+    if (element.length === 0) {
+      return '';
+    }
+
+    if (vr && BINARY_VRS.has(vr)) {
+      return `${element.length} bytes`;
+    }
+
+    if (vr === 'AT') {
+      const tags: string[] = [];
+      for (let offset = 0; offset + 4 <= element.length; offset += 4) {
+        const g = dataSet.uint16(element.tag, offset / 2) || 0;
+        const e = dataSet.uint16(element.tag, offset / 2 + 1) || 0;
+        tags.push(`(${g.toString(16).padStart(4, '0')},${e.toString(16).padStart(4, '0')})`.toUpperCase());
+      }
+      return tags.join('\\');
+    }
+
+    const numeric = vr ? NUMERIC_VRS[vr] : undefined;
+    if (numeric) {
+      const count = Math.floor(element.length / numeric.size);
+      const values: number[] = [];
+      for (let i = 0; i < Math.min(count, MAX_NUMERIC_VALUES); i++) {
+        values.push(numeric.read(dataSet, element.tag, i) ?? NaN);
+      }
+      return values.join('\\') + (count > MAX_NUMERIC_VALUES ? `\\… (${count} values)` : '');
+    }
+
+    const text = vr && TEXT_VRS.has(vr) ? dataSet.text(element.tag) : dataSet.string(element.tag);
+    if (text === undefined) {
+      return undefined;
+    }
+    // Unknown VRs in implicit files may be binary; only show them when printable
+    if (!vr || !STRING_VRS.has(vr) && !TEXT_VRS.has(vr)) {
+      return /^[\x20-\x7e\r\n\t]*$/.test(text) ? text : `${element.length} bytes`;
+    }
+    return text.length > MAX_STRING_LENGTH ? `${text.slice(0, MAX_STRING_LENGTH)}…` : text;
+  }
+
+  /**
+   * Dictionary entry for a tag, including repeating groups and private dictionaries
+   */
+  private static lookup(tag: string, privateCreator?: string) {
+    if (privateCreator) {
+      const byte = tag.slice(8, 10);
+      return dictionary[`(${tag.slice(1, 5)},"${privateCreator}",${byte})`]
+        || dictionary[`(${tag.slice(1, 5)},"${privateCreator}",${byte.toLowerCase()})`];
+    }
+
+    const direct = dictionary[tag];
+    if (direct) {
+      return direct;
+    }
+    // Curve and overlay groups are listed once as (5000-50FF,eeee) and (6000-60FF,eeee)
+    const prefix = tag.slice(1, 3);
+    if (prefix === '50' || prefix === '60') {
+      return dictionary[`(${prefix}00-${prefix}FF,${tag.slice(6, 10)})`];
+    }
+    return undefined;
+  }
+
+  /**
+   * Collapse dictionary VRs with alternatives ('xs' is US or SS, 'ox' is OB or OW)
+   */
+  private static resolveVr(vr: string | undefined, dataSet: DataSet): string | undefined {
+    if (vr === 'xs') return dataSet.uint16('x00280103') === 1 ? 'SS' : 'US';
+    if (vr === 'ox') return 'OW';
+    return vr?.toUpperCase();
+  }
+
+  private static formatTag(tag: string): string {
+    return `(${tag.slice(1, 5)},${tag.slice(5, 9)})`.toUpperCase();
+  }
+
+  private static countElements(elements: TagDumpElement[]): number {
+    return elements.reduce(
+      (count, element) => count + 1 + (element.items || []).reduce((sum, item) => sum + this.countElements(item), 0),
+      0
+    );
+  }
+}
@@ -0,0 +1,317 @@
+import sharp from 'sharp';
+import { AIImage, AIProviderName, toAIImage } from './ai-provider';
+import { DicomMetadata } from '@/types/medical';
+
+export interface ImageBudgetOptions {
+  /** Provider whose image pricing the estimates follow */
+  provider: AIProviderName;
+  /** Longest edge sent to the model, in pixels */
+  maxDimension: number;
+  /** Estimated tokens allowed for one image after downscaling */
+  maxImageTokens: number;
+  /** Estimated image tokens allowed in one request; batches are cut to fit */
+  requestTokenBudget: number;
+  /** Hard limit on uploaded images per request, tiles not counted */
+  maxImagesPerRequest: number;
+  /** Crop uniform borders (collimation, padding) before scaling */
+  trimBorders: boolean;
+  /** Radiographs with a longer edge are sent as overview plus full-resolution tiles; 0 disables tiling */
+  tileThreshold: number;
+  /** Most tiles cut from one image */
+  maxTiles: number;
+  /** Fraction of a tile shared with its neighbour, so findings on a seam are not cut in half */
+  tileOverlap: number;
+}
+
+export interface ImageTile {
+  /** 1-based, row by row */
+  index: number;
+  count: number;
+  rows: number;
+  columns: number;
+  /** Region of the source image, in source pixels */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface PreparedImage {
+  /** Id the model cites in findings; tiles get `<sourceId>:tile-N` */
+  id: string;
+  sourceId: string;
+  image: AIImage;
+  width: number;
+  height: number;
+  /** Estimated input tokens for this image */
+  tokens: number;
+  tile?: ImageTile;
+}
+
+interface Region {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Projection images, where fine detail is spread over a large matrix
+const PROJECTION_MODALITIES = ['CR', 'DX', 'MG', 'RF', 'XA', 'IO', 'PX'];
+
+// Pixels within this distance of the corner colour count as border when trimming
+const TRIM_THRESHOLD = 10;
+
+/**
+ * Keeps images within the model's image and token limits: estimates the per-image cost,
+ * trims borders, downscales to the budget and optionally tiles large radiographs
+ */
+export class ImageBudget {
+  /**
+   * Estimated input tokens of one image as the provider bills it
+   */
+  static estimateTokens(width: number, height: number, provider: AIProviderName): number {
+    if (provider === 'openai') {
+      // High detail: fit 2048x2048, shortest side to 768, then 170 tokens per 512px tile plus 85
+      let scale = Math.min(1, 2048 / Math.max(width, height));
+      scale = Math.min(scale, 768 / Math.min(width * scale, height * scale));
+      const tiles = Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+      return 85 + 170 * tiles;
+    }
+    // Anthropic bills width * height / 750; the mock follows it
+    return Math.ceil((width * height) / 750);
+  }
+
+  /**
+   * Estimated tokens of an image once prepared, tiles included, for batch planning
+   */
+  static async cost(data: string | Buffer, metadata: DicomMetadata | undefined, options: ImageBudgetOptions): Promise<number> {
+    const { width, height } = await this.dimensions(data, metadata);
+    return this.layout(width, height, metadata, options)
+      .reduce((sum, output) => sum + this.estimateTokens(output.width, output.height, options.provider), 0);
+  }
+
+  /**
+   * Image ready for the provider: trimmed and downscaled, or an overview followed by tiles
+   */
+  static async prepare(
+    data: string | Buffer,
+    id: string,
+    metadata: DicomMetadata | undefined,
+    options: ImageBudgetOptions
+  ): Promise<PreparedImage[]> {
+    let source = this.decode(data);
+    if (options.trimBorders) {
+      source = await this.trim(source);
+    }
+
+    const { width, height } = await sharp(source).metadata();
+    if (!width || !height) {
+      throw new Error(`Cannot read the dimensions of ${id}`);
+    }
+
+    const outputs = this.layout(width, height, metadata, options);
+    // Overview first, then tiles in reading order
+    return Promise.all(outputs.map(async output => {
+      let pipeline = sharp(source);
+      if (output.region) {
+        pipeline = pipeline.extract(output.region);
+      }
+      const png = await pipeline.resize(output.width, output.height, { fit: 'fill' }).png().toBuffer();
+
+      return {
+        id: output.tile ? `${id}:tile-${output.tile.index}` : id,
+        sourceId: id,
+        image: { base64: png.toString('base64'), mediaType: 'image/png' },
+        width: output.width,
+        height: output.height,
+        tokens: this.estimateTokens(output.width, output.height, options.provider),
+        tile: output.tile
+      };
+    }));
+  }
+
+  /**
+   * Prompt note explaining which images are tiles of which upload
+   */
+  static describeTiles(images: PreparedImage[]): string | undefined {
+    const tiled = images.filter(image => !image.tile && images.some(other => other.tile && other.sourceId === image.id));
+    if (tiled.length === 0) {
+      return undefined;
+    }
+
+    return tiled.map(overview => {
+      const tile = images.find(image => image.tile && image.sourceId === overview.id)!.tile!;
+      return `"${overview.id}" is a downscaled overview; "${overview.id}:tile-1" to "${overview.id}:tile-${tile.count}" are overlapping higher-resolution tiles of the same image (${tile.rows} rows x ${tile.columns} columns, numbered row by row from the top left).`;
+    }).join('\n');
+  }
+
+  /**
+   * Map ids cited by the model back to the uploaded images, so tiles resolve to their source
+   */
+  static toSourceIds(ids: string[], images: PreparedImage[]): string[] {
+    const sources = new Map(images.map(image => [image.id, image.sourceId]));
+    return [...new Set(ids.map(id => sources.get(id) ?? id))];
+  }
+
+  /**
+   * Output images for a source of the given size: one downscaled image, or an overview and
+   * tiles when the image is a large radiograph and tiling is enabled
+   */
+  private static layout(
+    width: number,
+    height: number,
+    metadata: DicomMetadata | undefined,
+    options: ImageBudgetOptions
+  ): Array<{ region?: Region; width: number; height: number; tile?: ImageTile }> {
+    const whole = this.fit(width, height, options);
+    const modality = metadata?.modality?.toUpperCase();
+    const projection = !modality || PROJECTION_MODALITIES.includes(modality);
+    if (!options.tileThreshold || !projection || Math.max(width, height) <= options.tileThreshold) {
+      return [whole];
+    }
+
+    // Largest square tile that needs no downscaling, grown until the grid fits maxTiles
+    const side = Math.floor(options.maxDimension * this.fitScale(options.maxDimension, options.maxDimension, options));
+    let tileSide = Math.max(1, Math.min(side, width, height));
+    let grid = this.grid(width, height, tileSide, options.tileOverlap);
+    while (grid.rows * grid.columns > options.maxTiles) {
+      tileSide = Math.ceil(tileSide * 1.25);
+      grid = this.grid(width, height, tileSide, options.tileOverlap);
+    }
+    if (grid.rows * grid.columns <= 1) {
+      return [whole];
+    }
+
+    const count = grid.rows * grid.columns;
+    const tiles = [];
+    for (let row = 0; row < grid.rows; row++) {
+      for (let column = 0; column < grid.columns; column++) {
+        const region = {
+          left: this.tileOffset(column, grid.columns, width, grid.tileWidth),
+          top: this.tileOffset(row, grid.rows, height, grid.tileHeight),
+          width: grid.tileWidth,
+          height: grid.tileHeight
+        };
+        const output = this.fit(region.width, region.height, options);
+        tiles.push({
+          region,
+          width: output.width,
+          height: output.height,
+          tile: { index: tiles.length + 1, count, rows: grid.rows, columns: grid.columns, ...region }
+        });
+      }
+    }
+    return [whole, ...tiles];
+  }
+
+  private static grid(width: number, height: number, side: number, overlap: number) {
+    const step = Math.max(1, Math.round(side * (1 - overlap)));
+    const tileWidth = Math.min(side, width);
+    const tileHeight = Math.min(side, height);
+    return {
+      columns: Math.max(1, Math.ceil((width - tileWidth) / step) + 1),
+      rows: Math.max(1, Math.ceil((height - tileHeight) / step) + 1),
+      tileWidth,
+      tileHeight
+    };
+  }
+
+  /**
+   * Tiles are spread evenly so the first and last touch the image edges
+   */
+  private static tileOffset(index: number, count: number, extent: number, tileExtent: number): number {
+    return count === 1 ? 0 : Math.round((index * (extent - tileExtent)) / (count - 1));
+  }
+
+  private static fit(width: number, height: number, options: ImageBudgetOptions): { width: number; height: number } {
+    const scale = this.fitScale(width, height, options);
+    return {
+      width: Math.max(1, Math.floor(width * scale)),
+      height: Math.max(1, Math.floor(height * scale))
+    };
+  }
+
+  /**
+   * Largest scale up to 1 that keeps the image within maxDimension and maxImageTokens
+   */
+  private static fitScale(width: number, height: number, options: ImageBudgetOptions): number {
+    const maxScale = Math.min(1, options.maxDimension / Math.max(width, height));
+    const fits = (scale: number) =>
+      this.estimateTokens(Math.floor(width * scale), Math.floor(height * scale), options.provider) <= options.maxImageTokens;
+    if (fits(maxScale)) {
+      return maxScale;
+    }
+
+    // Token estimates grow monotonically with scale
+    let low = 0;
+    let high = maxScale;
+    for (let i = 0; i < 20; i++) {
+      const mid = (low + high) / 2;
+      if (fits(mid)) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  private static async dimensions(data: string | Buffer, metadata?: DicomMetadata): Promise<{ width: number; height: number }> {
+    if (metadata?.columns && metadata.rows) {
+      return { width: metadata.columns, height: metadata.rows };
+    }
+    const { width, height } = await sharp(this.decode(data)).metadata();
+    if (!width || !height) {
+      throw new Error('Cannot read image dimensions');
+    }
+    return { width, height };
+  }
+
+  private static decode(data: string | Buffer): Buffer {
+    return typeof data === 'string' ? Buffer.from(toAIImage(data).base64, 'base64') : data;
+  }
+
+  private static async trim(source: Buffer): Promise<Buffer> {
+    try {
+      return await sharp(source).trim({ threshold: TRIM_THRESHOLD }).toBuffer();
+    } catch {
+      // Uniform images have nothing left after trimming
+      return source;
+    }
+  }
+}
+
+/**
+ * Budget from AI_MAX_IMAGE_DIMENSION, AI_MAX_IMAGE_TOKENS, AI_REQUEST_IMAGE_TOKENS,
+ * AI_MAX_IMAGES_PER_REQUEST, AI_TRIM_IMAGE_BORDERS, AI_TILE_THRESHOLD, AI_MAX_TILES and
+ * AI_TILE_OVERLAP
+ */
+export function getImageBudgetOptions(): ImageBudgetOptions {
+  const positive = (name: string, fallback: number, allowZero = false): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+      throw new Error(`${name} must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+    }
+    return parsed;
+  };
+
+  const overlap = Number(process.env.AI_TILE_OVERLAP || 0.1);
+  if (!(overlap >= 0 && overlap < 0.5)) {
+    throw new Error('AI_TILE_OVERLAP must be at least 0 and below 0.5');
+  }
+
+  return {
+    provider: (process.env.AI_PROVIDER || 'openai') as AIProviderName,
+    // 1568px and about 1600 tokens is the largest image the Anthropic API takes without resizing
+    maxDimension: positive('AI_MAX_IMAGE_DIMENSION', 1568),
+    maxImageTokens: positive('AI_MAX_IMAGE_TOKENS', 1600),
+    requestTokenBudget: positive('AI_REQUEST_IMAGE_TOKENS', 32000),
+    maxImagesPerRequest: positive('AI_MAX_IMAGES_PER_REQUEST', 20),
+    trimBorders: process.env.AI_TRIM_IMAGE_BORDERS !== 'false',
+    tileThreshold: positive('AI_TILE_THRESHOLD', 0, true),
+    maxTiles: positive('AI_MAX_TILES', 6),
+    tileOverlap: overlap
+  };
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { BatchProcessor, getApiBaseUrl } from './batch-processor';
+import { ProcessingJob, SessionRepository, SessionStore } from './session-store';
+
+export interface JobWorkerOptions {
+  /** Run queued sessions in this process; other processes sharing the database still can */
+  enabled: boolean;
+  /** Sessions this worker processes at once */
+  concurrency: number;
+  /** A job whose lease is not renewed within this time is taken over by another worker */
+  leaseMs: number;
+  heartbeatMs: number;
+  pollIntervalMs: number;
+  /** Claims per session before it fails, counting runs cut short by a crash or deploy */
+  maxAttempts: number;
+  /** Wait before a session whose run failed is tried again */
+  retryDelayMs: number;
+  /** Where the worker reaches this app's API routes */
+  apiBaseUrl: string;
+}
+
+/**
+ * Runs queued sessions in the background of a server process. A job is leased while it runs
+ * and the lease is renewed by heartbeats; when a process dies its lease runs out and another
+ * worker, or this one after a restart, resumes the session at its first unfinished batch.
+ * The most urgent session is claimed first, and when every slot is taken a running session
+ * yields to a more urgent queued one between batches.
+ */
+export class JobWorker {
+  private static shared: JobWorker | null = null;
+
+  readonly id = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private running = new Map<string, { controller: AbortController; done: Promise<void> }>();
+  /** Jobs giving up their slot to a more urgent one at their next batch */
+  private preempted = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = true;
+
+  constructor(
+    private options: JobWorkerOptions = getJobWorkerOptions(),
+    private store: SessionRepository = SessionStore.getInstance()
+  ) {}
+
+  /**
+   * Start this process's worker once; null when JOB_WORKER=false
+   */
+  static start(): JobWorker | null {
+    if (!this.shared) {
+      const options = getJobWorkerOptions();
+      if (!options.enabled) {
+        return null;
+      }
+      this.shared = new JobWorker(options);
+      this.shared.start();
+    }
+    return this.shared;
+  }
+
+  /**
+   * Abort a job this process is running now rather than at its next heartbeat; false when
+   * it runs elsewhere or not at all
+   */
+  static interrupt(jobId: string, reason: string): boolean {
+    const run = this.shared?.running.get(jobId);
+    run?.controller.abort(new DOMException(reason, 'AbortError'));
+    return Boolean(run);
+  }
+
+  /**
+   * Queue a stored session for processing. A worker in this process looks for it right away;
+   * others find it at their next poll.
+   */
+  static async enqueue(sessionId: string): Promise<ProcessingJob> {
+    const job = await SessionStore.getInstance().enqueueJob(sessionId, getJobWorkerOptions().maxAttempts);
+    this.shared?.poll();
+    return job;
+  }
+
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.timer = setInterval(() => this.poll(), this.options.pollIntervalMs);
+    // Polling alone does not keep the process alive
+    this.timer.unref();
+    this.poll();
+  }
+
+  /**
+   * Stop claiming jobs and hand running ones back to the queue for the next worker
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.timer);
+    const runs = [...this.running.values()];
+    runs.forEach(run => run.controller.abort(new DOMException('Job worker stopped', 'AbortError')));
+    await Promise.all(runs.map(run => run.done));
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling || this.stopped) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      while (!this.stopped && this.running.size < this.options.concurrency) {
+        const job = await this.store.claimJob(this.id, this.options.leaseMs);
+        if (!job) {
+          break;
+        }
+        const controller = new AbortController();
+        this.running.set(job.id, { controller, done: this.run(job, controller) });
+      }
+    } catch (error) {
+      console.error('Job worker failed to claim a job:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run(job: ProcessingJob, controller: AbortController): Promise<void> {
+    console.log(`Job worker ${this.id} processing session ${job.sessionId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await this.store.renewLease(job.id, this.id, this.options.leaseMs);
+        if (!renewed) {
+          controller.abort(new DOMException('Lease lost to another worker', 'AbortError'));
+        } else if (renewed.stopRequested === 'cancel') {
+          controller.abort(new DOMException('Cancelled', 'AbortError'));
+        }
+      } catch (error) {
+        console.error(`Heartbeat for session ${job.sessionId} failed:`, error);
+      }
+    }, this.options.heartbeatMs);
+
+    try {
+      const processor = new BatchProcessor({
+        apiBaseUrl: this.options.apiBaseUrl,
+        // A pause, or preemption, takes effect between batches, so no batch is cut short
+        onBatchStart: async () => {
+          const current = await this.store.getJob(job.sessionId);
+          if (current?.id === job.id && current.stopRequested) {
+            return false;
+          }
+          if (this.running.size >= this.options.concurrency && await this.store.hasQueuedJobAbove(job.priority)) {
+            this.preempted.add(job.id);
+            return false;
+          }
+          return true;
+        }
+      }, this.store);
+      await processor.processSession(job.sessionId, controller.signal);
+      await this.store.completeJob(job.id, this.id);
+      console.log(`Session ${job.sessionId} completed`);
+    } catch (error) {
+      await this.settle(job, controller.signal, error).catch(settleError => {
+        console.error(`Failed to record the outcome of session ${job.sessionId}:`, settleError);
+      });
+    } finally {
+      clearInterval(heartbeat);
+      this.preempted.delete(job.id);
+      this.running.delete(job.id);
+      this.poll();
+    }
+  }
+
+  private async settle(job: ProcessingJob, signal: AbortSignal, error: unknown): Promise<void> {
+    // However the run ended, a pause or cancel asked for wins over a retry
+    if (await this.store.stopJob(job.id, this.id)) {
+      console.log(`Session ${job.sessionId} stopped as requested`);
+      return;
+    }
+
+    // Queued again without using up an attempt; the more urgent job is claimed before it
+    if (this.preempted.has(job.id)) {
+      await this.store.releaseJob(job.id, this.id);
+      console.log(`Session ${job.sessionId} yielded to a more urgent session`);
+      return;
+    }
+
+    if (signal.aborted) {
+      // Stopping hands the job back; a lost lease means another worker already has it
+      if (this.stopped) {
+        await this.store.releaseJob(job.id, this.id);
+      }
+      console.warn(`Session ${job.sessionId} interrupted: ${signal.reason instanceof Error ? signal.reason.message : signal.reason}`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const failed = await this.store.failJob(job.id, this.id, message, new Date(Date.now() + this.options.retryDelayMs));
+    console.error(
+      `Session ${job.sessionId} failed${failed?.status === 'queued' ? `, retrying in ${this.options.retryDelayMs}ms` : ''}:`,
+      error
+    );
+  }
+}
+
+/**
+ * Job worker settings from JOB_WORKER ('false' disables the worker in this process),
+ * JOB_CONCURRENCY, JOB_LEASE_MS, JOB_HEARTBEAT_MS, JOB_POLL_INTERVAL_MS, JOB_MAX_ATTEMPTS,
+ * JOB_RETRY_DELAY_MS and APP_URL, see getApiBaseUrl
+ */
+export function getJobWorkerOptions(): JobWorkerOptions {
+  const integer = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+  };
+
+  const leaseMs = integer('JOB_LEASE_MS', 60000);
+  const heartbeatMs = integer('JOB_HEARTBEAT_MS', Math.round(leaseMs / 3));
+  if (heartbeatMs >= leaseMs) {
+    throw new Error('JOB_HEARTBEAT_MS must be shorter than JOB_LEASE_MS');
+  }
+
+  return {
+    enabled: process.env.JOB_WORKER !== 'false',
+    concurrency: integer('JOB_CONCURRENCY', 1),
+    leaseMs,
+    heartbeatMs,
+    pollIntervalMs: integer('JOB_POLL_INTERVAL_MS', 2000),
+    maxAttempts: integer('JOB_MAX_ATTEMPTS', 3),
+    retryDelayMs: integer('JOB_RETRY_DELAY_MS', 30000),
+    apiBaseUrl: getApiBaseUrl()
+  };
+}
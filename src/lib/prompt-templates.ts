@@ -0,0 +1,341 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { z } from 'zod';
+import { dataPath } from './storage-paths';
+import { DicomMetadata } from '@/types/medical';
+
+export const promptTemplateInputSchema = z.object({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, digits and hyphens'),
+  name: z.string().trim().min(1),
+  /** DICOM modalities the template applies to, e.g. ['CT']; empty matches any modality */
+  modalities: z.array(z.string().trim().toUpperCase().min(1)).default([]),
+  /** Looked for in Body Part Examined and the study and series descriptions; empty matches any */
+  keywords: z.array(z.string().trim().toUpperCase().min(1)).default([]),
+  /** Analysis instructions; batch context and the output format are appended by the caller */
+  prompt: z.string().trim().min(1)
+});
+
+export type PromptTemplateInput = z.input<typeof promptTemplateInputSchema>;
+
+export interface PromptTemplate extends z.output<typeof promptTemplateInputSchema> {
+  version: number;
+  updatedAt: string;
+  updatedBy?: string;
+  builtIn: boolean;
+}
+
+/**
+ * Template id and version a batch was analysed with, stamped on every batch result
+ */
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+interface PromptTemplateFile {
+  /** Every saved version per template id, oldest first */
+  templates: Record<string, PromptTemplate[]>;
+}
+
+const TEMPLATE_FILE = 'prompt-templates.json';
+
+export const GENERIC_TEMPLATE_ID = 'generic';
+
+function analysisPrompt(subject: string, focus: string[]): string {
+  return `You are an expert radiologist analyzing ${subject}. Please provide a comprehensive diagnostic analysis covering:
+
+1. **Image Quality Assessment**: Comment on image quality, positioning, and technical factors
+2. **Anatomical Structures**: Identify and describe relevant anatomical structures visible
+3. **Pathological Findings**: Detail any abnormal findings, lesions, or pathological changes
+4. **Differential Diagnosis**: Provide potential diagnoses based on imaging findings
+5. **Recommendations**: Suggest additional imaging, follow-up, or clinical correlation if needed
+6. **Urgency Level**: Indicate if findings require immediate attention
+${focus.length > 0 ? `\nPay particular attention to:\n${focus.map(item => `- ${item}`).join('\n')}\n` : ''}
+Report each observation as a finding, technical problems included, and use standard medical terminology.`;
+}
+
+const BUILT_IN: Array<Omit<PromptTemplate, 'version' | 'updatedAt' | 'builtIn'>> = [
+  {
+    id: 'ct-head',
+    name: 'CT head',
+    modalities: ['CT'],
+    keywords: ['HEAD', 'BRAIN', 'SKULL', 'CEREBR', 'CRANI'],
+    prompt: analysisPrompt('non-contrast or contrast CT images of the head', [
+      'Intracranial haemorrhage of any compartment: epidural, subdural, subarachnoid, intraparenchymal, intraventricular',
+      'Early ischaemic change, loss of grey-white differentiation, hyperdense vessel sign',
+      'Mass effect, midline shift, effacement of basal cisterns, herniation',
+      'Ventricular size and hydrocephalus',
+      'Calvarial and skull base fractures, using the bone window where provided'
+    ])
+  },
+  {
+    id: 'ct-chest',
+    name: 'CT chest',
+    modalities: ['CT'],
+    keywords: ['CHEST', 'THORAX', 'LUNG', 'PULMON', 'CTPA'],
+    prompt: analysisPrompt('CT images of the chest', [
+      'Pulmonary nodules and masses with size, location by lobe and morphology',
+      'Consolidation, ground-glass opacity, interstitial change and emphysema',
+      'Pulmonary embolism on contrast-enhanced studies',
+      'Pleural and pericardial effusion, pneumothorax',
+      'Mediastinal and hilar lymphadenopathy, aortic calibre',
+      'Findings spanning adjacent slices reported once with their full extent'
+    ])
+  },
+  {
+    id: 'ct-abdomen-pelvis',
+    name: 'CT abdomen and pelvis',
+    modalities: ['CT'],
+    keywords: ['ABDOMEN', 'ABD', 'PELVIS', 'LIVER', 'KIDNEY', 'RENAL', 'PANCREA'],
+    prompt: analysisPrompt('CT images of the abdomen and pelvis', [
+      'Solid organ lesions in the liver, pancreas, spleen, kidneys and adrenal glands',
+      'Bowel obstruction, wall thickening, free air and free fluid',
+      'Urinary tract calculi and hydronephrosis',
+      'Abdominal aortic aneurysm and vascular abnormalities',
+      'Lymphadenopathy and osseous lesions in the imaged skeleton'
+    ])
+  },
+  {
+    id: 'mr-brain',
+    name: 'MR brain',
+    modalities: ['MR'],
+    keywords: ['HEAD', 'BRAIN', 'CEREBR', 'CRANI'],
+    prompt: analysisPrompt('MR images of the brain', [
+      'Restricted diffusion suggesting acute infarction, where diffusion sequences are provided',
+      'Mass lesions with signal characteristics and enhancement pattern',
+      'White matter lesions, their distribution and burden',
+      'Haemorrhage and susceptibility artefact',
+      'The sequence (e.g. T1, T2, FLAIR, DWI) each finding is seen on, from the series description'
+    ])
+  },
+  {
+    id: 'mr-spine',
+    name: 'MR spine',
+    modalities: ['MR'],
+    keywords: ['SPINE', 'CERVICAL', 'THORACIC', 'LUMBAR', 'SACR', 'VERTEBR'],
+    prompt: analysisPrompt('MR images of the spine', [
+      'Vertebral alignment, height and marrow signal',
+      'Disc herniation and protrusion by level',
+      'Spinal canal and neural foraminal stenosis by level',
+      'Cord signal abnormality and compression',
+      'The vertebral level of every finding'
+    ])
+  },
+  {
+    id: 'cxr',
+    name: 'Chest radiograph',
+    modalities: ['CR', 'DX'],
+    keywords: ['CHEST', 'THORAX', 'LUNG', 'CXR'],
+    prompt: analysisPrompt('chest radiographs', [
+      'Projection (PA, AP, lateral) and its effect on heart size and mediastinal width',
+      'Pneumothorax, including apical and subpulmonic air',
+      'Consolidation, collapse, pleural effusion and pulmonary oedema',
+      'Cardiomediastinal contour and hila',
+      'Position of lines, tubes and devices'
+    ])
+  },
+  {
+    id: 'msk-xray',
+    name: 'Musculoskeletal radiograph',
+    modalities: ['CR', 'DX'],
+    keywords: [
+      'HAND', 'WRIST', 'ELBOW', 'SHOULDER', 'HUMERUS', 'FOREARM', 'HIP', 'FEMUR', 'KNEE',
+      'ANKLE', 'FOOT', 'TIBIA', 'FIBULA', 'PELVIS', 'SPINE', 'EXTREMITY'
+    ],
+    prompt: analysisPrompt('musculoskeletal radiographs', [
+      'Fractures with location, orientation, displacement and angulation',
+      'Dislocation and joint alignment',
+      'Joint space narrowing, erosions and other arthropathy',
+      'Focal bone lesions and periosteal reaction',
+      'Soft tissue swelling, gas and foreign bodies'
+    ])
+  },
+  {
+    id: 'mammography',
+    name: 'Mammography',
+    modalities: ['MG'],
+    keywords: [],
+    prompt: analysisPrompt('mammographic images', [
+      'Breast density category',
+      'Masses with shape, margin and density',
+      'Calcifications with morphology and distribution',
+      'Architectural distortion and asymmetries',
+      'Laterality, clock-face position and depth of every finding',
+      'A BI-RADS assessment category in the impression'
+    ])
+  },
+  {
+    id: 'us-abdomen',
+    name: 'Ultrasound abdomen',
+    modalities: ['US'],
+    keywords: ['ABDOMEN', 'ABD', 'LIVER', 'GALLBLADDER', 'KIDNEY', 'RENAL', 'RUQ'],
+    prompt: analysisPrompt('abdominal ultrasound images', [
+      'Liver echotexture, size and focal lesions',
+      'Gallstones, gallbladder wall thickening and bile duct calibre',
+      'Renal size, hydronephrosis and calculi',
+      'Free fluid',
+      'Limitations from the acquired views, as only stored frames are available'
+    ])
+  },
+  {
+    id: GENERIC_TEMPLATE_ID,
+    name: 'Generic radiology',
+    modalities: [],
+    keywords: [],
+    prompt: analysisPrompt('medical images', [])
+  }
+];
+
+const BUILT_IN_UPDATED_AT = '1970-01-01T00:00:00.000Z';
+
+/**
+ * Versioned analysis prompts chosen by modality and body part. Built-in templates are
+ * version 1; every admin edit is stored as a new version and older versions stay readable.
+ */
+export class PromptTemplates {
+  private static cache: PromptTemplateFile | null = null;
+  // Serialises read-modify-write cycles between concurrent edits
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Latest version of every template
+   */
+  static async list(): Promise<PromptTemplate[]> {
+    const file = await this.exclusive(() => this.load());
+    return Object.values(file.templates).map(versions => versions[versions.length - 1]);
+  }
+
+  /**
+   * One version of a template, the latest when no version is given
+   */
+  static async get(id: string, version?: number): Promise<PromptTemplate | undefined> {
+    const versions = await this.history(id);
+    return version === undefined
+      ? versions[versions.length - 1]
+      : versions.find(template => template.version === version);
+  }
+
+  static async history(id: string): Promise<PromptTemplate[]> {
+    const file = await this.exclusive(() => this.load());
+    return [...(file.templates[id] || [])];
+  }
+
+  /**
+   * Store a new version of a template, or its first version for a new id
+   */
+  static async save(input: PromptTemplateInput, updatedBy?: string): Promise<PromptTemplate> {
+    const parsed = promptTemplateInputSchema.parse(input);
+
+    return this.exclusive(async () => {
+      const file = await this.load();
+      const versions = file.templates[parsed.id] || [];
+      const previous = versions[versions.length - 1];
+      const template: PromptTemplate = {
+        ...parsed,
+        version: (previous?.version ?? 0) + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+        builtIn: previous?.builtIn ?? false
+      };
+      file.templates[parsed.id] = [...versions, template];
+      await this.store(file);
+      return template;
+    });
+  }
+
+  /**
+   * Template for a batch: the most specific match on modality and body part keywords,
+   * falling back to the generic template
+   */
+  static async select(metadata?: DicomMetadata): Promise<PromptTemplate> {
+    const templates = await this.list();
+    const modality = metadata?.modality?.toUpperCase();
+    const bodyPart = [metadata?.bodyPartExamined, metadata?.studyDescription, metadata?.seriesDescription]
+      .filter(Boolean)
+      .join(' ')
+      .toUpperCase();
+
+    let best: { template: PromptTemplate; score: number } | undefined;
+    for (const template of templates) {
+      const modalityMatch = template.modalities.length === 0
+        || (modality !== undefined && template.modalities.includes(modality));
+      const keywordMatch = template.keywords.length === 0
+        || template.keywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}`).test(bodyPart));
+      if (!modalityMatch || !keywordMatch) {
+        continue;
+      }
+
+      // A matched keyword says more than a matched modality
+      const score = (template.modalities.length > 0 ? 1 : 0) + (template.keywords.length > 0 ? 2 : 0);
+      if (!best || score > best.score) {
+        best = { template, score };
+      }
+    }
+
+    return best?.template
+      ?? templates.find(template => template.id === GENERIC_TEMPLATE_ID)
+      ?? this.builtIn().find(template => template.id === GENERIC_TEMPLATE_ID)!;
+  }
+
+  static ref(template: PromptTemplate): PromptTemplateRef {
+    return { id: template.id, version: template.version };
+  }
+
+  private static builtIn(): PromptTemplate[] {
+    return BUILT_IN.map(template => ({ ...template, version: 1, updatedAt: BUILT_IN_UPDATED_AT, builtIn: true }));
+  }
+
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static async load(): Promise<PromptTemplateFile> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    let stored: PromptTemplateFile = { templates: {} };
+    try {
+      stored = JSON.parse(await readFile(dataPath(TEMPLATE_FILE), 'utf-8')) as PromptTemplateFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Built-ins are version 1 of their id; edits saved on disk follow them
+    const templates: Record<string, PromptTemplate[]> = {};
+    for (const template of this.builtIn()) {
+      templates[template.id] = [template];
+    }
+    for (const [id, versions] of Object.entries(stored.templates)) {
+      templates[id] = [...(templates[id] || []), ...versions];
+    }
+
+    this.cache = { templates };
+    return this.cache;
+  }
+
+  private static async store(file: PromptTemplateFile): Promise<void> {
+    // Built-in version 1 lives in code, so only edits are written
+    const edits: Record<string, PromptTemplate[]> = {};
+    for (const [id, versions] of Object.entries(file.templates)) {
+      const saved = versions.filter(template => !(template.builtIn && template.version === 1));
+      if (saved.length > 0) {
+        edits[id] = saved;
+      }
+    }
+
+    const path = dataPath(TEMPLATE_FILE);
+    await mkdir(dirname(path), { recursive: true });
+    // Write then rename so a crash never leaves a truncated registry behind
+    await writeFile(`${path}.tmp`, JSON.stringify({ templates: edits }, null, 2));
+    await rename(`${path}.tmp`, path);
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,91 @@
+import { createHmac, randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { dataPath } from './storage-paths';
+
+interface PseudonymEntry {
+  pseudonym: string;
+  createdAt: string;
+}
+
+interface PseudonymFile {
+  /** Key for deterministic UID replacement; never leaves this server */
+  secret: string;
+  patients: Record<string, PseudonymEntry>;
+}
+
+const PSEUDONYM_FILE = 'pseudonyms.json';
+
+/**
+ * Local mapping from real patient identifiers to pseudonyms, so re-identification is
+ * only possible on this server
+ */
+export class PseudonymStore {
+  private static cache: PseudonymFile | null = null;
+  // Serialises read-modify-write cycles between concurrent uploads
+  private static queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Stable pseudonym for a patient, created on first sight
+   */
+  static async getPatientPseudonym(patientId?: string, patientName?: string): Promise<string> {
+    const key = `${patientId?.trim() || ''}^${patientName?.trim() || ''}`;
+
+    return this.exclusive(async () => {
+      const file = await this.load();
+      const existing = file.patients[key];
+      if (existing) {
+        return existing.pseudonym;
+      }
+
+      const pseudonym = `ANON-${this.hmac(file.secret, `patient:${key}`).slice(0, 12).toUpperCase()}`;
+      file.patients[key] = { pseudonym, createdAt: new Date().toISOString() };
+      await this.save(file);
+      return pseudonym;
+    });
+  }
+
+  /**
+   * Replacement UID under the 2.25 root (PS3.5 B.2), the same for every occurrence of a UID
+   */
+  static async replaceUid(uid: string): Promise<string> {
+    const { secret } = await this.exclusive(() => this.load());
+    const digest = this.hmac(secret, `uid:${uid.trim()}`).slice(0, 32);
+    return `2.25.${BigInt(`0x${digest}`).toString()}`;
+  }
+
+  private static hmac(secret: string, value: string): string {
+    return createHmac('sha256', secret).update(value).digest('hex');
+  }
+
+  private static exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private static async load(): Promise<PseudonymFile> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    try {
+      this.cache = JSON.parse(await readFile(dataPath(PSEUDONYM_FILE), 'utf-8')) as PseudonymFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.cache = { secret: randomBytes(32).toString('hex'), patients: {} };
+      await this.save(this.cache);
+    }
+    return this.cache;
+  }
+
+  private static async save(file: PseudonymFile): Promise<void> {
+    const path = dataPath(PSEUDONYM_FILE);
+    await mkdir(dirname(path), { recursive: true });
+    // Write then rename so a crash never leaves a truncated map behind
+    await writeFile(`${path}.tmp`, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+  }
+}
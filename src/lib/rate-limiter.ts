@@ -0,0 +1,135 @@
+import { setTimeout as sleep } from 'timers/promises';
+
+export interface RateLimiterOptions {
+  /** Requests allowed per minute; 0 disables the limit */
+  requestsPerMinute: number;
+  /** Estimated tokens (input plus requested output) allowed per minute; 0 disables the limit */
+  tokensPerMinute: number;
+}
+
+export interface RateLimiterStatus {
+  /** Callers waiting for capacity */
+  waiting: number;
+  requestsAvailable?: number;
+  tokensAvailable?: number;
+  /** Set while the provider asked us to back off (Retry-After) */
+  pausedUntil?: string;
+}
+
+/**
+ * Bucket refilled continuously at `capacity` per minute. The level may go negative when a
+ * single request costs more than the whole bucket; later callers wait until it is paid off.
+ */
+class TokenBucket {
+  private level: number;
+  private updatedAt = Date.now();
+
+  constructor(readonly capacity: number) {
+    this.level = capacity;
+  }
+
+  available(): number {
+    const now = Date.now();
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / 60000);
+    this.updatedAt = now;
+    return this.level;
+  }
+
+  /**
+   * Milliseconds until `amount` can be taken; amounts above capacity only need a full bucket
+   */
+  waitTime(amount: number): number {
+    const needed = Math.min(amount, this.capacity) - this.available();
+    return needed <= 0 ? 0 : Math.ceil((needed * 60000) / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.level = this.available() - amount;
+  }
+
+  give(amount: number): void {
+    this.level = Math.min(this.capacity, this.available() + amount);
+  }
+}
+
+/**
+ * Request and token budget shared by every caller of one provider. Callers are served in
+ * arrival order so a large request is not starved by a stream of small ones.
+ */
+export class RateLimiter {
+  private readonly requests?: TokenBucket;
+  private readonly tokens?: TokenBucket;
+  private queue: Promise<void> = Promise.resolve();
+  private waiting = 0;
+  private pausedUntil = 0;
+
+  constructor(options: RateLimiterOptions) {
+    if (options.requestsPerMinute > 0) {
+      this.requests = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute > 0) {
+      this.tokens = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Wait for capacity for one request of the estimated token cost, then reserve it
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    this.waiting++;
+    const turn = this.queue.then(() => this.reserve(tokens, signal));
+    // An aborted caller must not block the ones queued behind it
+    this.queue = turn.catch(() => undefined);
+    return turn.finally(() => {
+      this.waiting--;
+    });
+  }
+
+  /**
+   * Hold all callers back, e.g. for the Retry-After of a 429 response
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Correct a reservation once the provider reports the tokens actually used
+   */
+  reconcile(estimated: number, actual: number): void {
+    if (!this.tokens) {
+      return;
+    }
+    if (actual < estimated) {
+      this.tokens.give(estimated - actual);
+    } else {
+      this.tokens.take(actual - estimated);
+    }
+  }
+
+  status(): RateLimiterStatus {
+    return {
+      waiting: this.waiting,
+      requestsAvailable: this.requests && Math.floor(this.requests.available()),
+      tokensAvailable: this.tokens && Math.floor(this.tokens.available()),
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil).toISOString() : undefined
+    };
+  }
+
+  private async reserve(tokens: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.requests?.waitTime(1) ?? 0,
+        this.tokens?.waitTime(tokens) ?? 0
+      );
+      if (wait <= 0) {
+        break;
+      }
+      await sleep(wait, undefined, { signal });
+    }
+
+    this.requests?.take(1);
+    this.tokens?.take(tokens);
+  }
+}
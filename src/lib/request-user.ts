@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * User a request acts for, for usage accounting: the X-User-Id header, which the
+ * authenticating proxy sets and must strip from client requests, else 'anonymous'. Ids the
+ * client sends itself are never trusted, so per-user budget caps only hold behind that proxy.
+ */
+export function requestUserId(request: NextRequest): string {
+  const id = (request.headers.get('x-user-id') || '').trim();
+  return id ? id.slice(0, 200) : 'anonymous';
+}
@@ -0,0 +1,238 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { dataPath } from './storage-paths';
+import { AIProviderName, toAIImage } from './ai-provider';
+import { PromptTemplateRef } from './prompt-templates';
+import { ImageBudgetOptions } from './image-budget';
+
+/**
+ * Everything that determines a batch's model output. Two requests with equal inputs get the
+ * same key, whichever session sent them.
+ */
+export interface ResultCacheInput {
+  /** Uploaded images as sent to the route, in batch order; the prompt names them by position */
+  images: string[];
+  promptTemplate: PromptTemplateRef;
+  provider: AIProviderName;
+  model: string;
+  /** Settings that change how images are downscaled and tiled */
+  budget: Pick<ImageBudgetOptions, 'maxDimension' | 'maxImageTokens' | 'trimBorders' | 'tileThreshold' | 'maxTiles' | 'tileOverlap'>;
+  seriesContext?: string;
+  caseSummary?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface ResultCacheEntry<T = unknown> {
+  key: string;
+  provider: AIProviderName;
+  model: string;
+  promptTemplate: PromptTemplateRef;
+  imageCount: number;
+  createdAt: string;
+  hits: number;
+  lastHitAt?: string;
+  result: T;
+}
+
+export type ResultCacheSummary = Omit<ResultCacheEntry, 'result'> & { bytes: number };
+
+export interface ResultCachePurgeFilter {
+  model?: string;
+  templateId?: string;
+  /** Entries created before this time */
+  createdBefore?: Date;
+}
+
+export interface ResultCacheOptions {
+  enabled: boolean;
+  /** Entries older than this are ignored and removed; 0 keeps them forever */
+  maxAgeMs: number;
+}
+
+// Bumped when the shape of cached results changes, invalidating older entries
+const CACHE_FORMAT = 2;
+
+/**
+ * Batch results on local disk keyed by a SHA-256 of the image bytes, prompt template
+ * version, model and request parameters, so re-processed studies skip the paid model call
+ */
+export class ResultCache {
+  /**
+   * Content hash of a batch request
+   */
+  static key(input: ResultCacheInput): string {
+    const images = input.images.map(image =>
+      createHash('sha256').update(Buffer.from(toAIImage(image).base64, 'base64')).digest('hex')
+    );
+
+    return createHash('sha256').update(JSON.stringify({
+      format: CACHE_FORMAT,
+      images,
+      promptTemplate: input.promptTemplate,
+      provider: input.provider,
+      model: input.model,
+      // Only the settings that change the images sent; batch limits do not
+      budget: [
+        input.budget.maxDimension,
+        input.budget.maxImageTokens,
+        input.budget.trimBorders,
+        input.budget.tileThreshold,
+        input.budget.maxTiles,
+        input.budget.tileOverlap
+      ],
+      seriesContext: input.seriesContext ?? null,
+      caseSummary: input.caseSummary ?? null,
+      maxTokens: input.maxTokens ?? null,
+      temperature: input.temperature ?? null
+    })).digest('hex');
+  }
+
+  /**
+   * Cached result for the key, counting the hit; null when absent or expired
+   */
+  static async get<T>(key: string, options: ResultCacheOptions = getResultCacheOptions()): Promise<ResultCacheEntry<T> | null> {
+    if (!options.enabled) {
+      return null;
+    }
+
+    const entry = await this.read<T>(key);
+    if (!entry) {
+      return null;
+    }
+    if (options.maxAgeMs && Date.now() - Date.parse(entry.createdAt) > options.maxAgeMs) {
+      await this.delete(key);
+      return null;
+    }
+
+    entry.hits++;
+    entry.lastHitAt = new Date().toISOString();
+    // Hit statistics are informational; a failed write must not fail the request
+    await this.write(entry).catch(error => console.error(`Failed to update cache entry ${key}:`, error));
+    return entry;
+  }
+
+  static async set<T>(
+    key: string,
+    details: Pick<ResultCacheEntry, 'provider' | 'model' | 'promptTemplate' | 'imageCount'>,
+    result: T,
+    options: ResultCacheOptions = getResultCacheOptions()
+  ): Promise<void> {
+    if (!options.enabled) {
+      return;
+    }
+    await this.write({ key, ...details, createdAt: new Date().toISOString(), hits: 0, result });
+  }
+
+  /**
+   * Full entry without counting a hit, for inspection
+   */
+  static async inspect(key: string): Promise<ResultCacheEntry | null> {
+    return this.read(key);
+  }
+
+  /**
+   * Every entry without its result, newest first
+   */
+  static async list(): Promise<ResultCacheSummary[]> {
+    const summaries: ResultCacheSummary[] = [];
+    for (const key of await this.keys()) {
+      const path = this.path(key);
+      const [entry, info] = await Promise.all([this.read(key), stat(path).catch(() => null)]);
+      if (entry && info) {
+        summaries.push({ ...entry, result: undefined, bytes: info.size } as ResultCacheSummary);
+      }
+    }
+    return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Remove one entry; false when it did not exist
+   */
+  static async delete(key: string): Promise<boolean> {
+    const path = this.path(key);
+    const exists = await stat(path).then(() => true, () => false);
+    await rm(path, { force: true });
+    return exists;
+  }
+
+  /**
+   * Remove the entries matching every given filter, or all entries without filters.
+   * Returns how many were removed.
+   */
+  static async purge(filter: ResultCachePurgeFilter = {}): Promise<number> {
+    let removed = 0;
+    for (const summary of await this.list()) {
+      if (filter.model && summary.model !== filter.model) continue;
+      if (filter.templateId && summary.promptTemplate.id !== filter.templateId) continue;
+      if (filter.createdBefore && Date.parse(summary.createdAt) >= filter.createdBefore.getTime()) continue;
+      if (await this.delete(summary.key)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  static isKey(value: string): boolean {
+    return /^[0-9a-f]{64}$/.test(value);
+  }
+
+  private static async keys(): Promise<string[]> {
+    const shards = await readdir(this.root()).catch(() => [] as string[]);
+    const keys = await Promise.all(shards.map(async shard =>
+      (await readdir(join(this.root(), shard)).catch(() => [] as string[]))
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length))
+    ));
+    return keys.flat().filter(key => this.isKey(key));
+  }
+
+  private static async read<T>(key: string): Promise<ResultCacheEntry<T> | null> {
+    const path = this.path(key);
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Unreadable cache entry ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  private static async write(entry: ResultCacheEntry): Promise<void> {
+    const path = this.path(entry.key);
+    await mkdir(dirname(path), { recursive: true });
+    // Unique temp name: two sessions may store the same key at once
+    const temp = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(entry));
+    await rename(temp, path);
+  }
+
+  private static root(): string {
+    return dataPath('result-cache');
+  }
+
+  private static path(key: string): string {
+    // Keys reach here from URLs and become file names
+    if (!this.isKey(key)) {
+      throw new Error(`Invalid cache key: ${key}`);
+    }
+    return join(this.root(), key.slice(0, 2), `${key}.json`);
+  }
+}
+
+/**
+ * Cache settings from AI_RESULT_CACHE ('false' disables) and AI_RESULT_CACHE_MAX_AGE_DAYS
+ */
+export function getResultCacheOptions(): ResultCacheOptions {
+  const days = Number(process.env.AI_RESULT_CACHE_MAX_AGE_DAYS || 0);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error('AI_RESULT_CACHE_MAX_AGE_DAYS must be a non-negative number');
+  }
+
+  return {
+    enabled: process.env.AI_RESULT_CACHE !== 'false',
+    maxAgeMs: days * 24 * 60 * 60 * 1000
+  };
+}
@@ -0,0 +1,248 @@
+import { DicomMetadata } from '@/types/medical';
+import { WindowPresets } from './window-presets';
+
+export interface SeriesImage {
+  metadata?: DicomMetadata;
+}
+
+export interface ImageSeries<T extends SeriesImage> {
+  /** Study/Series Instance UID pair, or undefined for images without DICOM identifiers */
+  key?: string;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  seriesNumber?: number;
+  seriesDescription?: string;
+  modality?: string;
+  windowPreset?: string;
+  ordering: 'position' | 'instance' | 'sliceLocation' | 'upload';
+  images: T[];
+}
+
+export interface SeriesBatch<T extends SeriesImage> {
+  series: Omit<ImageSeries<T>, 'images'>;
+  images: T[];
+  /** Position of the first image of this batch within its series */
+  startIndex: number;
+  seriesLength: number;
+}
+
+export interface BatchTokenBudget<T> {
+  /** Estimated tokens allowed in one batch */
+  maxTokens: number;
+  /** Estimated tokens of one image */
+  cost: (image: T) => number;
+}
+
+// Orientations differing by less than this (direction cosine components) count as parallel
+const ORIENTATION_TOLERANCE = 1e-3;
+
+/**
+ * Groups instances by Study/Series Instance UID, orders each series spatially and
+ * cuts batches so that no batch spans two series
+ */
+export class SeriesOrganizer {
+  /**
+   * Group images into series in order of first appearance. Images without UIDs share
+   * one trailing group and keep their upload order.
+   */
+  static groupBySeries<T extends SeriesImage>(images: T[]): ImageSeries<T>[] {
+    const groups = new Map<string, T[]>();
+    const ungrouped: T[] = [];
+
+    for (const image of images) {
+      const key = this.seriesKey(image.metadata);
+      if (!key) {
+        ungrouped.push(image);
+        continue;
+      }
+      const group = groups.get(key);
+      if (group) {
+        group.push(image);
+      } else {
+        groups.set(key, [image]);
+      }
+    }
+
+    const series: ImageSeries<T>[] = [];
+    groups.forEach((members, key) => {
+      const first = members[0].metadata;
+      const { ordering, images: ordered } = this.sortSeries(members);
+      series.push({
+        key,
+        studyInstanceUid: first?.studyInstanceUid,
+        seriesInstanceUid: first?.seriesInstanceUid,
+        seriesNumber: first?.seriesNumber,
+        seriesDescription: first?.seriesDescription,
+        modality: first?.modality,
+        windowPreset: first?.windowPreset,
+        ordering,
+        images: ordered
+      });
+    });
+
+    // Keep studies together, then series by number where the numbers are known
+    const studyOrder = new Map<string, number>();
+    series.forEach(s => {
+      if (s.studyInstanceUid && !studyOrder.has(s.studyInstanceUid)) {
+        studyOrder.set(s.studyInstanceUid, studyOrder.size);
+      }
+    });
+    const seriesOrder = new Map(series.map((s, index) => [s, index]));
+    series.sort((a, b) =>
+      (studyOrder.get(a.studyInstanceUid || '') ?? 0) - (studyOrder.get(b.studyInstanceUid || '') ?? 0)
+      || (a.seriesNumber !== undefined && b.seriesNumber !== undefined ? a.seriesNumber - b.seriesNumber : 0)
+      || seriesOrder.get(a)! - seriesOrder.get(b)!
+    );
+
+    if (ungrouped.length > 0) {
+      series.push({ ordering: 'upload', images: ungrouped });
+    }
+
+    return series;
+  }
+
+  /**
+   * Split every series into contiguous, evenly sized batches of at most batchSize images and,
+   * with a token budget, at most budget.maxTokens estimated tokens. An image costing more
+   * than the whole budget gets a batch of its own.
+   */
+  static createBatches<T extends SeriesImage>(images: T[], batchSize: number, budget?: BatchTokenBudget<T>): SeriesBatch<T>[] {
+    const batches: SeriesBatch<T>[] = [];
+
+    for (const { images: seriesImages, ...series } of this.groupBySeries(images)) {
+      const costs = seriesImages.map(image => budget?.cost(image) ?? 0);
+      const totalCost = costs.reduce((sum, cost) => sum + cost, 0);
+      const batchCount = Math.max(
+        Math.ceil(seriesImages.length / batchSize),
+        budget ? Math.ceil(totalCost / budget.maxTokens) : 1
+      );
+      // Even split avoids a trailing batch of one or two slices without context
+      const size = Math.ceil(seriesImages.length / batchCount);
+      const tokenTarget = totalCost / batchCount;
+
+      let start = 0;
+      let tokens = 0;
+      seriesImages.forEach((_, index) => {
+        const full = index - start >= size
+          || (budget !== undefined && index > start && (tokens + costs[index] > budget.maxTokens || tokens >= tokenTarget));
+        if (full) {
+          batches.push(this.batch(series, seriesImages, start, index));
+          start = index;
+          tokens = 0;
+        }
+        tokens += costs[index];
+      });
+      if (start < seriesImages.length) {
+        batches.push(this.batch(series, seriesImages, start, seriesImages.length));
+      }
+    }
+
+    return batches;
+  }
+
+  /**
+   * Describe where a batch sits in its series, for inclusion in the model prompt
+   */
+  static describeBatch<T extends SeriesImage>(batch: SeriesBatch<T>): string | undefined {
+    const { series } = batch;
+    if (!series.key) {
+      return undefined;
+    }
+
+    const label = [
+      series.modality,
+      series.seriesNumber !== undefined ? `series ${series.seriesNumber}` : undefined,
+      series.seriesDescription
+    ].filter(Boolean).join(' ');
+    const range = `${batch.startIndex + 1}-${batch.startIndex + batch.images.length} of ${batch.seriesLength}`;
+    const order = series.ordering === 'upload'
+      ? 'in upload order'
+      : series.ordering === 'position'
+        ? 'ordered by slice position along the slice normal'
+        : series.ordering === 'instance'
+          ? 'ordered by instance number'
+          : 'ordered by slice location';
+
+    const preset = series.windowPreset ? WindowPresets.get(series.windowPreset) : undefined;
+    const window = preset ? ` They are displayed in a ${preset.name.toLowerCase()} window (W${preset.width} L${preset.center}).` : '';
+
+    return `These images are ${range} from a single ${label || 'series'}, ${order}.${window}`;
+  }
+
+  private static batch<T extends SeriesImage>(
+    series: Omit<ImageSeries<T>, 'images'>,
+    seriesImages: T[],
+    start: number,
+    end: number
+  ): SeriesBatch<T> {
+    return { series, images: seriesImages.slice(start, end), startIndex: start, seriesLength: seriesImages.length };
+  }
+
+  /**
+   * Each window preset rendering of a series forms its own stack
+   */
+  private static seriesKey(metadata?: DicomMetadata): string | undefined {
+    if (!metadata?.seriesInstanceUid) {
+      return undefined;
+    }
+    return `${metadata.studyInstanceUid || ''}|${metadata.seriesInstanceUid}|${metadata.windowPreset || ''}`;
+  }
+
+  /**
+   * Prefer Image Position (Patient) projected on the slice normal when every image shares
+   * one orientation, then Instance Number, then Slice Location. Ties keep frame and upload order.
+   */
+  private static sortSeries<T extends SeriesImage>(images: T[]): { ordering: ImageSeries<T>['ordering']; images: T[] } {
+    const indexed = images.map((image, index) => ({ image, index }));
+    const byFrame = (a: { image: T; index: number }, b: { image: T; index: number }) =>
+      (a.image.metadata?.frameIndex ?? 0) - (b.image.metadata?.frameIndex ?? 0) || a.index - b.index;
+
+    const normal = this.sliceNormal(images);
+    if (normal) {
+      const distance = (image: T) => this.dot(image.metadata!.imagePosition!, normal);
+      indexed.sort((a, b) => distance(a.image) - distance(b.image)
+        || (a.image.metadata?.instanceNumber ?? 0) - (b.image.metadata?.instanceNumber ?? 0)
+        || byFrame(a, b));
+      return { ordering: 'position', images: indexed.map(entry => entry.image) };
+    }
+
+    if (images.every(image => image.metadata?.instanceNumber !== undefined)) {
+      indexed.sort((a, b) => a.image.metadata!.instanceNumber! - b.image.metadata!.instanceNumber! || byFrame(a, b));
+      return { ordering: 'instance', images: indexed.map(entry => entry.image) };
+    }
+
+    if (images.every(image => image.metadata?.sliceLocation !== undefined)) {
+      indexed.sort((a, b) => a.image.metadata!.sliceLocation! - b.image.metadata!.sliceLocation! || byFrame(a, b));
+      return { ordering: 'sliceLocation', images: indexed.map(entry => entry.image) };
+    }
+
+    indexed.sort(byFrame);
+    return { ordering: 'upload', images: indexed.map(entry => entry.image) };
+  }
+
+  /**
+   * Cross product of the row and column direction cosines, when the whole series is parallel
+   */
+  private static sliceNormal(images: SeriesImage[]): number[] | undefined {
+    const orientation = images[0]?.metadata?.imageOrientation;
+    if (!orientation || orientation.length !== 6) {
+      return undefined;
+    }
+
+    const consistent = images.every(({ metadata }) =>
+      metadata?.imagePosition?.length === 3
+      && metadata.imageOrientation?.length === 6
+      && metadata.imageOrientation.every((value, i) => Math.abs(value - orientation[i]) < ORIENTATION_TOLERANCE)
+    );
+    if (!consistent) {
+      return undefined;
+    }
+
+    const [rx, ry, rz, cx, cy, cz] = orientation;
+    return [ry * cz - rz * cy, rz * cx - rx * cz, rx * cy - ry * cx];
+  }
+
+  private static dot(a: number[], b: number[]): number {
+    return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+  }
+}
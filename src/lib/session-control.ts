@@ -0,0 +1,119 @@
+import { BatchStreams } from './batch-streams';
+import { JobWorker } from './job-worker';
+import { ProcessingJob, SessionRepository, SessionStore } from './session-store';
+import { BatchOverrides, ProcessingBatch, ProcessingSession } from '@/types/medical';
+
+export interface ControlResult {
+  /** false when the session is in no state for the action; reason says why */
+  applied: boolean;
+  reason?: string;
+  job?: ProcessingJob | null;
+}
+
+// Batches are reprocessed only once no job is working on the session
+const FINISHED: ProcessingSession['status'][] = ['completed', 'error'];
+
+/**
+ * Operator controls for a session's background processing: pause and resume between batches,
+ * cancel, and reprocess failed or single batches of a finished session. Reprocessing queues
+ * the session again; batches already completed are kept and the report is generated anew.
+ */
+export class SessionControl {
+  /**
+   * A queued session pauses at once, a processing one once its current batch is done
+   */
+  static async pause(sessionId: string, store: SessionRepository = SessionStore.getInstance()): Promise<ControlResult> {
+    const job = await store.requestStop(sessionId, 'pause');
+    return job
+      ? { applied: true, job }
+      : { applied: false, reason: 'Session is not queued or processing' };
+  }
+
+  static async resume(sessionId: string, store: SessionRepository = SessionStore.getInstance()): Promise<ControlResult> {
+    if (!await store.resumeJob(sessionId)) {
+      return { applied: false, reason: 'Session is not paused' };
+    }
+    // Returns the resumed job and wakes this process's worker
+    return { applied: true, job: await JobWorker.enqueue(sessionId) };
+  }
+
+  /**
+   * Stop for good. Batches being read are aborted; they stay pending.
+   */
+  static async cancel(sessionId: string, store: SessionRepository = SessionStore.getInstance()): Promise<ControlResult> {
+    const job = await store.requestStop(sessionId, 'cancel');
+    if (!job) {
+      return { applied: false, reason: 'Session is not queued, processing or paused' };
+    }
+
+    if (job.status === 'running') {
+      // The run is stopped before its batches, so the aborted ones are not taken for failures.
+      // A worker in another process stops at its next heartbeat.
+      JobWorker.interrupt(job.id, 'Cancelled');
+      BatchStreams.abortSession(sessionId);
+    }
+    return { applied: true, job: await store.getJob(sessionId) };
+  }
+
+  /**
+   * Run the failed batches of a finished session again
+   */
+  static async retryFailed(sessionId: string, store: SessionRepository = SessionStore.getInstance()): Promise<ControlResult> {
+    const session = await store.getSession(sessionId);
+    if (!session || !FINISHED.includes(session.status)) {
+      return { applied: false, reason: 'Session is still being processed' };
+    }
+
+    const failed = session.batches.filter(batch => batch.status === 'error');
+    if (failed.length === 0) {
+      return { applied: false, reason: 'Session has no failed batches' };
+    }
+
+    for (const batch of failed) {
+      await this.reset(store, session, batch);
+    }
+    return { applied: true, job: await JobWorker.enqueue(sessionId) };
+  }
+
+  /**
+   * Run one batch of a finished session again, optionally with another prompt template or
+   * model. The cached result is bypassed.
+   */
+  static async rerunBatch(
+    sessionId: string,
+    batchIndex: number,
+    overrides: BatchOverrides = {},
+    store: SessionRepository = SessionStore.getInstance()
+  ): Promise<ControlResult> {
+    const session = await store.getSession(sessionId);
+    if (!session || !FINISHED.includes(session.status)) {
+      return { applied: false, reason: 'Session is still being processed' };
+    }
+
+    const batch = session.batches[batchIndex];
+    if (!batch) {
+      return { applied: false, reason: `Session has no batch ${batchIndex + 1}` };
+    }
+
+    await this.reset(store, session, batch, overrides);
+    return { applied: true, job: await JobWorker.enqueue(sessionId) };
+  }
+
+  private static async reset(
+    store: SessionRepository,
+    session: ProcessingSession,
+    batch: ProcessingBatch,
+    overrides?: BatchOverrides
+  ): Promise<void> {
+    await store.updateBatch(batch.id, {
+      status: 'pending',
+      startedAt: undefined,
+      completedAt: undefined,
+      aiResponse: undefined,
+      result: undefined,
+      errorMessage: undefined,
+      ...(overrides && { overrides })
+    });
+    await store.updateImages(session.id, batch.images.map(image => image.id), { status: 'converted', errorMessage: undefined });
+  }
+}
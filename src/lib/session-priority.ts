@@ -0,0 +1,103 @@
+import { DicomMetadata, ProcessingSession, SessionPriority } from '@/types/medical';
+
+export interface SlaOptions {
+  /** Turnaround target per priority, from upload to finished report */
+  targetMinutes: Record<SessionPriority, number>;
+}
+
+export interface SessionSla {
+  targetMinutes: number;
+  dueAt: Date;
+  /** The session finished late, or is still running past its target */
+  missed: boolean;
+}
+
+/** Most urgent first */
+export const SESSION_PRIORITIES: SessionPriority[] = ['stat', 'urgent', 'routine'];
+
+// Phrases in study or series descriptions that mark an emergency read. Single words such as
+// STROKE, TRAUMA, ED or ER also appear in follow-up studies and protocol names (ER status,
+// post-trauma follow-up), so only whole phrases count.
+const STAT_DESCRIPTION = /\b(STAT|CODE STROKE|STROKE (ALERT|PROTOCOL)|TRAUMA (ALERT|ACTIVATION|PROTOCOL|PAN ?SCAN))\b/;
+const URGENT_DESCRIPTION = /\b(URGENT|EMERGENCY (DEPT|DEPARTMENT|ROOM))\b/;
+
+/**
+ * Reading priority of sessions: chosen at upload or inferred from the DICOM order, and the
+ * turnaround target that follows from it
+ */
+export class SessionPriorities {
+  static isPriority(value: unknown): value is SessionPriority {
+    return SESSION_PRIORITIES.includes(value as SessionPriority);
+  }
+
+  /**
+   * 0 for STAT; a lower rank is served first
+   */
+  static rank(priority: SessionPriority): number {
+    return SESSION_PRIORITIES.indexOf(priority);
+  }
+
+  /**
+   * The most urgent priority any image asks for: Requested Procedure Priority STAT or HIGH,
+   * else an emergency phrase such as CODE STROKE or EMERGENCY DEPT in the study or series
+   * description. Routine otherwise.
+   */
+  static infer(metadata: Array<DicomMetadata | undefined>): SessionPriority {
+    let inferred: SessionPriority = 'routine';
+    for (const image of metadata) {
+      const priority = this.fromMetadata(image);
+      if (this.rank(priority) < this.rank(inferred)) {
+        inferred = priority;
+      }
+    }
+    return inferred;
+  }
+
+  static sla(session: Pick<ProcessingSession, 'priority' | 'startedAt' | 'completedAt' | 'status'>, options: SlaOptions = getSlaOptions()): SessionSla {
+    const targetMinutes = options.targetMinutes[session.priority];
+    const dueAt = new Date(session.startedAt.getTime() + targetMinutes * 60000);
+    // A session stopped by an operator no longer has a report to deliver
+    const finishedAt = session.status === 'cancelled' ? undefined : session.completedAt ?? new Date();
+    return { targetMinutes, dueAt, missed: finishedAt !== undefined && finishedAt > dueAt };
+  }
+
+  private static fromMetadata(metadata?: DicomMetadata): SessionPriority {
+    const requested = metadata?.requestedProcedurePriority?.toUpperCase();
+    if (requested === 'STAT') return 'stat';
+    if (requested === 'HIGH') return 'urgent';
+
+    // Underscores and runs of spaces are common in protocol names
+    const description = [metadata?.studyDescription, metadata?.seriesDescription]
+      .filter(Boolean)
+      .join(' ')
+      .replace(/[_\s]+/g, ' ')
+      .toUpperCase();
+    if (STAT_DESCRIPTION.test(description)) return 'stat';
+    if (URGENT_DESCRIPTION.test(description)) return 'urgent';
+    return 'routine';
+  }
+}
+
+/**
+ * Turnaround targets from SLA_STAT_MINUTES (default 30), SLA_URGENT_MINUTES (default 240)
+ * and SLA_ROUTINE_MINUTES (default 1440)
+ */
+export function getSlaOptions(): SlaOptions {
+  const integer = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      throw new Error(`${name} must be a positive integer`);
+    }
+    return parsed;
+  };
+
+  return {
+    targetMinutes: {
+      stat: integer('SLA_STAT_MINUTES', 30),
+      urgent: integer('SLA_URGENT_MINUTES', 240),
+      routine: integer('SLA_ROUTINE_MINUTES', 1440)
+    }
+  };
+}
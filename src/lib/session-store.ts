@@ -0,0 +1,941 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { dataPath } from './storage-paths';
+import { DiagnosticReport, MedicalImage, ProcessingBatch, ProcessingSession, SessionPriority } from '@/types/medical';
+import { SessionPriorities } from './session-priority';
+
+export type SessionChanges = Partial<Pick<ProcessingSession,
+  'status' | 'processedImages' | 'completedBatches' | 'currentBatch' | 'completedAt' | 'errorMessage'>>;
+
+export type BatchChanges = Partial<Pick<ProcessingBatch,
+  'status' | 'startedAt' | 'completedAt' | 'aiResponse' | 'result' | 'errorMessage' | 'overrides'>>;
+
+export type ImageChanges = Partial<Pick<MedicalImage, 'status' | 'errorMessage'>>;
+
+/** Pause keeps the session to be resumed; cancel ends it */
+export type JobStop = 'pause' | 'cancel';
+
+/**
+ * Queued processing of one session. A worker holds a lease while it runs the job and renews
+ * it with heartbeats; a job whose lease expired is claimed again by the next worker.
+ */
+export interface ProcessingJob {
+  id: string;
+  sessionId: string;
+  status: 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+  /** The session's priority; more urgent jobs are claimed first */
+  priority: SessionPriority;
+  /** Asked of the worker running the job; it pauses before the next batch and cancels at once */
+  stopRequested?: JobStop;
+  /** Claims so far, including ones whose worker died */
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  /** Not claimed before this time */
+  runAfter: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Persistence for processing sessions with their images, batches and report. Every route and
+ * BatchProcessor go through one repository, so a session outlives the request that created it.
+ * Changes set to undefined clear the stored value.
+ */
+export interface SessionRepository {
+  /** Store a new session together with its images and batches */
+  createSession(session: ProcessingSession): Promise<void>;
+  /** The whole session, batches in order with their images, or null when unknown */
+  getSession(sessionId: string): Promise<ProcessingSession | null>;
+  updateSession(sessionId: string, changes: SessionChanges): Promise<void>;
+  updateBatch(batchId: string, changes: BatchChanges): Promise<void>;
+  updateImages(sessionId: string, imageIds: string[], changes: ImageChanges): Promise<void>;
+  /** Store the session's report, replacing an earlier one */
+  saveReport(report: DiagnosticReport): Promise<void>;
+
+  /** Queue the session for processing; its unfinished (queued, running or paused) job is returned if it has one */
+  enqueueJob(sessionId: string, maxAttempts: number): Promise<ProcessingJob>;
+  /**
+   * Lease the most urgent due job to owner, oldest first within a priority, taking over jobs whose lease expired. Expired jobs
+   * out of attempts fail, and so do their sessions; expired jobs asked to stop are stopped.
+   */
+  claimJob(owner: string, leaseMs: number): Promise<ProcessingJob | null>;
+  /** Whether a job more urgent than priority is queued and due */
+  hasQueuedJobAbove(priority: SessionPriority): Promise<boolean>;
+  /** Extend owner's lease; null when owner no longer holds it */
+  renewLease(jobId: string, owner: string, leaseMs: number): Promise<ProcessingJob | null>;
+  completeJob(jobId: string, owner: string): Promise<boolean>;
+  /** Queue the job again at retryAt while it has attempts left, else fail it */
+  failJob(jobId: string, owner: string, error: string, retryAt?: Date): Promise<ProcessingJob | null>;
+  /** Give a job back unfinished, e.g. on shutdown, without using up an attempt */
+  releaseJob(jobId: string, owner: string): Promise<boolean>;
+  /**
+   * Pause or cancel the session's unfinished job. A queued or paused job stops at once; a
+   * running one is flagged for its worker. Null when the session has no unfinished job.
+   */
+  requestStop(sessionId: string, stop: JobStop): Promise<ProcessingJob | null>;
+  /** Stop owner's running job as its stopRequested asks, without using up an attempt */
+  stopJob(jobId: string, owner: string): Promise<boolean>;
+  /** Queue the session's paused job again; null when it has none */
+  resumeJob(sessionId: string): Promise<ProcessingJob | null>;
+  /** The session's latest job */
+  getJob(sessionId: string): Promise<ProcessingJob | null>;
+}
+
+export interface SessionStoreOptions {
+  driver: 'sqlite' | 'memory';
+  /** SQLite database file */
+  path: string;
+}
+
+// Applied in order on open; PRAGMA user_version records how many have run
+const MIGRATIONS = [
+  `CREATE TABLE sessions (
+    id TEXT PRIMARY KEY,
+    user_id TEXT,
+    consensus INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL,
+    total_images INTEGER NOT NULL,
+    processed_images INTEGER NOT NULL DEFAULT 0,
+    total_batches INTEGER NOT NULL,
+    completed_batches INTEGER NOT NULL DEFAULT 0,
+    current_batch INTEGER,
+    started_at TEXT NOT NULL,
+    completed_at TEXT,
+    error_message TEXT
+  );
+  CREATE TABLE images (
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    original_name TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    mime_type TEXT NOT NULL,
+    is_dicom INTEGER NOT NULL,
+    converted_path TEXT,
+    thumbnail_path TEXT,
+    dicom_metadata TEXT,
+    uploaded_at TEXT NOT NULL,
+    status TEXT NOT NULL,
+    error_message TEXT,
+    PRIMARY KEY (session_id, id)
+  );
+  CREATE TABLE batches (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    batch_number INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    series_context TEXT,
+    started_at TEXT,
+    completed_at TEXT,
+    ai_response TEXT,
+    result TEXT,
+    error_message TEXT,
+    UNIQUE (session_id, batch_number)
+  );
+  CREATE TABLE batch_images (
+    batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL,
+    image_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (batch_id, position),
+    FOREIGN KEY (session_id, image_id) REFERENCES images(session_id, id) ON DELETE CASCADE
+  );
+  CREATE TABLE reports (
+    session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    report TEXT NOT NULL
+  );`,
+  `CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    lease_owner TEXT,
+    lease_expires_at TEXT,
+    run_after TEXT NOT NULL,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX jobs_due ON jobs (status, run_after);
+  CREATE INDEX jobs_session ON jobs (session_id, created_at);`,
+  `ALTER TABLE jobs ADD COLUMN stop_requested TEXT;
+  ALTER TABLE batches ADD COLUMN overrides TEXT;`,
+  `ALTER TABLE sessions ADD COLUMN priority TEXT NOT NULL DEFAULT 'routine';
+  ALTER TABLE jobs ADD COLUMN priority TEXT NOT NULL DEFAULT 'routine';`,
+  `ALTER TABLE batches ADD COLUMN template_id TEXT;`
+];
+
+// Ranks priorities in SQL as SessionPriorities.rank does
+const PRIORITY_RANK = `CASE priority WHEN 'stat' THEN 0 WHEN 'urgent' THEN 1 ELSE 2 END`;
+
+type Row = Record<string, string | number | null>;
+
+// Column of each field the update methods may change
+const COLUMNS = {
+  session: {
+    status: 'status',
+    processedImages: 'processed_images',
+    completedBatches: 'completed_batches',
+    currentBatch: 'current_batch',
+    completedAt: 'completed_at',
+    errorMessage: 'error_message'
+  },
+  batch: {
+    status: 'status',
+    startedAt: 'started_at',
+    completedAt: 'completed_at',
+    aiResponse: 'ai_response',
+    result: 'result',
+    errorMessage: 'error_message',
+    overrides: 'overrides'
+  },
+  image: {
+    status: 'status',
+    errorMessage: 'error_message'
+  }
+} as const;
+
+/**
+ * Sessions in a local SQLite database (the default). better-sqlite3 is synchronous; writes
+ * are short and WAL mode lets readers in other requests proceed while a batch is saved.
+ */
+export class SqliteSessionRepository implements SessionRepository {
+  private db: Database.Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+  }
+
+  async createSession(session: ProcessingSession): Promise<void> {
+    const insertSession = this.db.prepare(`INSERT INTO sessions
+      (id, user_id, consensus, priority, status, total_images, processed_images, total_batches, completed_batches, current_batch, started_at, completed_at, error_message)
+      VALUES (@id, @userId, @consensus, @priority, @status, @totalImages, @processedImages, @totalBatches, @completedBatches, @currentBatch, @startedAt, @completedAt, @errorMessage)`);
+    const insertImage = this.db.prepare(`INSERT INTO images
+      (session_id, id, position, original_name, file_name, file_path, file_size, mime_type, is_dicom, converted_path, thumbnail_path, dicom_metadata, uploaded_at, status, error_message)
+      VALUES (@sessionId, @id, @position, @originalName, @fileName, @filePath, @fileSize, @mimeType, @isDicom, @convertedPath, @thumbnailPath, @dicomMetadata, @uploadedAt, @status, @errorMessage)`);
+    const insertBatch = this.db.prepare(`INSERT INTO batches
+      (id, session_id, batch_number, status, series_context, template_id, started_at, completed_at, ai_response, result, error_message, overrides)
+      VALUES (@id, @sessionId, @batchNumber, @status, @seriesContext, @templateId, @startedAt, @completedAt, @aiResponse, @result, @errorMessage, @overrides)`);
+    const insertBatchImage = this.db.prepare(
+      'INSERT INTO batch_images (batch_id, session_id, image_id, position) VALUES (?, ?, ?, ?)'
+    );
+
+    this.db.transaction(() => {
+      insertSession.run({
+        id: session.id,
+        userId: session.userId ?? null,
+        consensus: session.consensus ? 1 : 0,
+        priority: session.priority,
+        status: session.status,
+        totalImages: session.totalImages,
+        processedImages: session.processedImages,
+        totalBatches: session.totalBatches,
+        completedBatches: session.completedBatches,
+        currentBatch: session.currentBatch ?? null,
+        startedAt: session.startedAt.toISOString(),
+        completedAt: session.completedAt?.toISOString() ?? null,
+        errorMessage: session.errorMessage ?? null
+      });
+      session.images.forEach((image, position) => insertImage.run({
+        sessionId: session.id,
+        id: image.id,
+        position,
+        originalName: image.originalName,
+        fileName: image.fileName,
+        filePath: image.filePath,
+        fileSize: image.fileSize,
+        mimeType: image.mimeType,
+        isDicom: image.isDicom ? 1 : 0,
+        convertedPath: image.convertedPath ?? null,
+        thumbnailPath: image.thumbnailPath ?? null,
+        dicomMetadata: image.dicomMetadata ? JSON.stringify(image.dicomMetadata) : null,
+        uploadedAt: image.uploadedAt.toISOString(),
+        status: image.status,
+        errorMessage: image.errorMessage ?? null
+      }));
+      for (const batch of session.batches) {
+        insertBatch.run({
+          id: batch.id,
+          sessionId: session.id,
+          batchNumber: batch.batchNumber,
+          status: batch.status,
+          seriesContext: batch.seriesContext ?? null,
+          templateId: batch.templateId ?? null,
+          startedAt: batch.startedAt?.toISOString() ?? null,
+          completedAt: batch.completedAt?.toISOString() ?? null,
+          aiResponse: batch.aiResponse ?? null,
+          result: batch.result === undefined ? null : JSON.stringify(batch.result),
+          errorMessage: batch.errorMessage ?? null,
+          overrides: batch.overrides ? JSON.stringify(batch.overrides) : null
+        });
+        batch.images.forEach((image, position) => insertBatchImage.run(batch.id, session.id, image.id, position));
+      }
+    })();
+  }
+
+  async getSession(sessionId: string): Promise<ProcessingSession | null> {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as Row | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const images = (this.db.prepare('SELECT * FROM images WHERE session_id = ? ORDER BY position').all(sessionId) as Row[])
+      .map(image => this.toImage(image));
+    const imagesById = new Map(images.map(image => [image.id, image]));
+
+    const members = new Map<string, MedicalImage[]>();
+    for (const member of this.db.prepare(
+      'SELECT batch_id, image_id FROM batch_images WHERE session_id = ? ORDER BY batch_id, position'
+    ).all(sessionId) as Row[]) {
+      const batchId = member.batch_id as string;
+      members.set(batchId, [...(members.get(batchId) || []), imagesById.get(member.image_id as string)!]);
+    }
+
+    const batches = (this.db.prepare('SELECT * FROM batches WHERE session_id = ? ORDER BY batch_number').all(sessionId) as Row[])
+      .map(batch => this.toBatch(batch, members.get(batch.id as string) || []));
+
+    const report = this.db.prepare('SELECT report FROM reports WHERE session_id = ?').get(sessionId) as Row | undefined;
+
+    return {
+      id: row.id as string,
+      userId: (row.user_id as string | null) ?? undefined,
+      consensus: row.consensus === 1,
+      priority: row.priority as SessionPriority,
+      totalImages: row.total_images as number,
+      processedImages: row.processed_images as number,
+      totalBatches: row.total_batches as number,
+      completedBatches: row.completed_batches as number,
+      currentBatch: (row.current_batch as number | null) ?? undefined,
+      status: row.status as ProcessingSession['status'],
+      startedAt: new Date(row.started_at as string),
+      completedAt: this.toDate(row.completed_at),
+      images,
+      batches,
+      report: report ? this.toReport(report.report as string) : undefined,
+      errorMessage: (row.error_message as string | null) ?? undefined
+    };
+  }
+
+  async updateSession(sessionId: string, changes: SessionChanges): Promise<void> {
+    this.update('sessions', COLUMNS.session, changes, 'id = ?', [sessionId]);
+  }
+
+  async updateBatch(batchId: string, changes: BatchChanges): Promise<void> {
+    this.update('batches', COLUMNS.batch, changes, 'id = ?', [batchId]);
+  }
+
+  async updateImages(sessionId: string, imageIds: string[], changes: ImageChanges): Promise<void> {
+    if (imageIds.length === 0) {
+      return;
+    }
+    this.update('images', COLUMNS.image, changes, `session_id = ? AND id IN (${imageIds.map(() => '?').join(', ')})`, [sessionId, ...imageIds]);
+  }
+
+  async saveReport(report: DiagnosticReport): Promise<void> {
+    this.db.prepare(`INSERT INTO reports (session_id, status, created_at, report) VALUES (?, ?, ?, ?)
+      ON CONFLICT (session_id) DO UPDATE SET status = excluded.status, created_at = excluded.created_at, report = excluded.report`)
+      .run(report.sessionId, report.status, report.createdAt.toISOString(), JSON.stringify(report));
+  }
+
+  async enqueueJob(sessionId: string, maxAttempts: number): Promise<ProcessingJob> {
+    return this.db.transaction(() => {
+      const pending = this.db.prepare(
+        `SELECT * FROM jobs WHERE session_id = ? AND status IN ('queued', 'running', 'paused') ORDER BY created_at DESC LIMIT 1`
+      ).get(sessionId) as Row | undefined;
+      if (pending) {
+        return this.toJob(pending);
+      }
+
+      const now = new Date().toISOString();
+      const id = randomUUID();
+      const session = this.db.prepare('SELECT priority FROM sessions WHERE id = ?').get(sessionId) as Row | undefined;
+      this.db.prepare(`INSERT INTO jobs (id, session_id, priority, status, attempts, max_attempts, run_after, created_at, updated_at)
+        VALUES (?, ?, ?, 'queued', 0, ?, ?, ?, ?)`).run(id, sessionId, session?.priority ?? 'routine', maxAttempts, now, now, now);
+      this.db.prepare(`UPDATE sessions SET status = 'queued' WHERE id = ?`).run(sessionId);
+      return this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as Row);
+    }).immediate();
+  }
+
+  async claimJob(owner: string, leaseMs: number): Promise<ProcessingJob | null> {
+    // IMMEDIATE takes the write lock first, so two processes never claim the same job
+    return this.db.transaction(() => {
+      const now = new Date();
+      for (;;) {
+        const row = this.db.prepare(`SELECT * FROM jobs
+          WHERE (status = 'queued' AND run_after <= @now) OR (status = 'running' AND lease_expires_at <= @now)
+          ORDER BY ${PRIORITY_RANK}, created_at LIMIT 1`).get({ now: now.toISOString() }) as Row | undefined;
+        if (!row) {
+          return null;
+        }
+
+        // Its worker died before it could stop the job
+        if (row.stop_requested) {
+          this.halt(row, row.stop_requested as JobStop, now);
+          continue;
+        }
+
+        if ((row.attempts as number) >= (row.max_attempts as number)) {
+          const error = `Processing was interrupted ${row.attempts} times`;
+          this.db.prepare(`UPDATE jobs SET status = 'failed', lease_owner = NULL, lease_expires_at = NULL, last_error = ?, updated_at = ? WHERE id = ?`)
+            .run(error, now.toISOString(), row.id);
+          this.db.prepare(`UPDATE sessions SET status = 'error', error_message = ?, completed_at = ? WHERE id = ?`)
+            .run(error, now.toISOString(), row.session_id);
+          continue;
+        }
+
+        this.db.prepare(`UPDATE jobs SET status = 'running', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, updated_at = ? WHERE id = ?`)
+          .run(owner, new Date(now.getTime() + leaseMs).toISOString(), now.toISOString(), row.id);
+        return this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(row.id) as Row);
+      }
+    }).immediate();
+  }
+
+  async hasQueuedJobAbove(priority: SessionPriority): Promise<boolean> {
+    return Boolean(this.db.prepare(`SELECT 1 FROM jobs WHERE status = 'queued' AND run_after <= ? AND ${PRIORITY_RANK} < ? LIMIT 1`)
+      .get(new Date().toISOString(), SessionPriorities.rank(priority)));
+  }
+
+  async renewLease(jobId: string, owner: string, leaseMs: number): Promise<ProcessingJob | null> {
+    const now = new Date();
+    const renewed = this.db.prepare(`UPDATE jobs SET lease_expires_at = ?, updated_at = ?
+      WHERE id = ? AND lease_owner = ? AND status = 'running'`)
+      .run(new Date(now.getTime() + leaseMs).toISOString(), now.toISOString(), jobId, owner).changes > 0;
+    return renewed ? this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as Row) : null;
+  }
+
+  async completeJob(jobId: string, owner: string): Promise<boolean> {
+    return this.db.prepare(`UPDATE jobs SET status = 'completed', stop_requested = NULL, lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+      WHERE id = ? AND lease_owner = ? AND status = 'running'`)
+      .run(new Date().toISOString(), jobId, owner).changes > 0;
+  }
+
+  async failJob(jobId: string, owner: string, error: string, retryAt?: Date): Promise<ProcessingJob | null> {
+    return this.db.transaction(() => {
+      const updated = this.db.prepare(`UPDATE jobs SET
+          status = CASE WHEN @retryAt IS NOT NULL AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+          run_after = COALESCE(@retryAt, run_after),
+          stop_requested = NULL, lease_owner = NULL, lease_expires_at = NULL, last_error = @error, updated_at = @now
+        WHERE id = @id AND lease_owner = @owner AND status = 'running'`)
+        .run({ id: jobId, owner, error, retryAt: retryAt?.toISOString() ?? null, now: new Date().toISOString() });
+      if (updated.changes === 0) {
+        return null;
+      }
+
+      const job = this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as Row);
+      if (job.status === 'queued') {
+        this.db.prepare(`UPDATE sessions SET status = 'queued', completed_at = NULL WHERE id = ?`).run(job.sessionId);
+      }
+      return job;
+    }).immediate();
+  }
+
+  async releaseJob(jobId: string, owner: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const released = this.db.prepare(`UPDATE jobs SET status = 'queued', attempts = MAX(attempts - 1, 0), lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+        WHERE id = ? AND lease_owner = ? AND status = 'running'`)
+        .run(new Date().toISOString(), jobId, owner).changes > 0;
+      if (released) {
+        this.db.prepare(`UPDATE sessions SET status = 'queued' WHERE id = (SELECT session_id FROM jobs WHERE id = ?)`).run(jobId);
+      }
+      return released;
+    }).immediate();
+  }
+
+  async requestStop(sessionId: string, stop: JobStop): Promise<ProcessingJob | null> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare(
+        `SELECT * FROM jobs WHERE session_id = ? AND status IN ('queued', 'running', 'paused') ORDER BY created_at DESC LIMIT 1`
+      ).get(sessionId) as Row | undefined;
+      if (!row) {
+        return null;
+      }
+
+      if (row.status === 'running') {
+        // A pause does not take back a cancel
+        this.db.prepare(`UPDATE jobs SET stop_requested = CASE WHEN stop_requested = 'cancel' THEN 'cancel' ELSE ? END, updated_at = ? WHERE id = ?`)
+          .run(stop, new Date().toISOString(), row.id);
+      } else if (row.status === 'queued' || stop === 'cancel') {
+        this.halt(row, stop, new Date());
+      }
+      return this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(row.id) as Row);
+    }).immediate();
+  }
+
+  async stopJob(jobId: string, owner: string): Promise<boolean> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare(
+        `SELECT * FROM jobs WHERE id = ? AND lease_owner = ? AND status = 'running' AND stop_requested IS NOT NULL`
+      ).get(jobId, owner) as Row | undefined;
+      if (row) {
+        this.halt(row, row.stop_requested as JobStop, new Date());
+      }
+      return Boolean(row);
+    }).immediate();
+  }
+
+  async resumeJob(sessionId: string): Promise<ProcessingJob | null> {
+    return this.db.transaction(() => {
+      const row = this.db.prepare(
+        `SELECT * FROM jobs WHERE session_id = ? AND status = 'paused' ORDER BY created_at DESC LIMIT 1`
+      ).get(sessionId) as Row | undefined;
+      if (!row) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      this.db.prepare(`UPDATE jobs SET status = 'queued', run_after = ?, updated_at = ? WHERE id = ?`).run(now, now, row.id);
+      this.db.prepare(`UPDATE sessions SET status = 'queued' WHERE id = ?`).run(sessionId);
+      return this.toJob(this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(row.id) as Row);
+    }).immediate();
+  }
+
+  async getJob(sessionId: string): Promise<ProcessingJob | null> {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE session_id = ? ORDER BY created_at DESC LIMIT 1').get(sessionId) as Row | undefined;
+    return row ? this.toJob(row) : null;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private migrate(): void {
+    const applied = this.db.pragma('user_version', { simple: true }) as number;
+    MIGRATIONS.slice(applied).forEach((migration, index) => {
+      this.db.transaction(() => {
+        this.db.exec(migration);
+        this.db.pragma(`user_version = ${applied + index + 1}`);
+      })();
+    });
+  }
+
+  /**
+   * Pause or cancel a job and its session. A batch cut short goes back to pending; a stopped
+   * run does not use up an attempt.
+   */
+  private halt(row: Row, stop: JobStop, now: Date): void {
+    const status = stop === 'pause' ? 'paused' : 'cancelled';
+    this.db.prepare(`UPDATE jobs SET status = ?, stop_requested = NULL, lease_owner = NULL, lease_expires_at = NULL,
+        attempts = CASE WHEN status = 'running' THEN MAX(attempts - 1, 0) ELSE attempts END, updated_at = ?
+      WHERE id = ?`).run(status, now.toISOString(), row.id);
+    this.db.prepare(`UPDATE batches SET status = 'pending', started_at = NULL WHERE session_id = ? AND status = 'processing'`)
+      .run(row.session_id);
+    this.db.prepare(`UPDATE images SET status = 'converted' WHERE session_id = ? AND status = 'processing'`).run(row.session_id);
+    this.db.prepare(`UPDATE sessions SET status = ?, current_batch = NULL, completed_at = ? WHERE id = ?`)
+      .run(status, stop === 'cancel' ? now.toISOString() : null, row.session_id);
+  }
+
+  private update(
+    table: string,
+    columns: Record<string, string>,
+    changes: object,
+    where: string,
+    parameters: unknown[]
+  ): void {
+    const entries = Object.entries(changes).filter(([field]) => field in columns);
+    if (entries.length === 0) {
+      return;
+    }
+
+    const assignments = entries.map(([field]) => `${columns[field]} = ?`).join(', ');
+    this.db.prepare(`UPDATE ${table} SET ${assignments} WHERE ${where}`)
+      .run(...entries.map(([, value]) => this.toColumn(value)), ...parameters);
+  }
+
+  private toColumn(value: unknown): string | number | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === 'string' || typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    return JSON.stringify(value);
+  }
+
+  private toDate(value: string | number | null | undefined): Date | undefined {
+    return typeof value === 'string' ? new Date(value) : undefined;
+  }
+
+  private toImage(row: Row): MedicalImage {
+    return {
+      id: row.id as string,
+      originalName: row.original_name as string,
+      fileName: row.file_name as string,
+      filePath: row.file_path as string,
+      fileSize: row.file_size as number,
+      mimeType: row.mime_type as string,
+      isDicom: row.is_dicom === 1,
+      convertedPath: (row.converted_path as string | null) ?? undefined,
+      thumbnailPath: (row.thumbnail_path as string | null) ?? undefined,
+      dicomMetadata: row.dicom_metadata ? JSON.parse(row.dicom_metadata as string) : undefined,
+      uploadedAt: new Date(row.uploaded_at as string),
+      status: row.status as MedicalImage['status'],
+      errorMessage: (row.error_message as string | null) ?? undefined
+    };
+  }
+
+  private toBatch(row: Row, images: MedicalImage[]): ProcessingBatch {
+    return {
+      id: row.id as string,
+      sessionId: row.session_id as string,
+      batchNumber: row.batch_number as number,
+      images,
+      status: row.status as ProcessingBatch['status'],
+      seriesContext: (row.series_context as string | null) ?? undefined,
+      templateId: (row.template_id as string | null) ?? undefined,
+      startedAt: this.toDate(row.started_at),
+      completedAt: this.toDate(row.completed_at),
+      aiResponse: (row.ai_response as string | null) ?? undefined,
+      result: row.result ? JSON.parse(row.result as string) : undefined,
+      errorMessage: (row.error_message as string | null) ?? undefined,
+      overrides: row.overrides ? JSON.parse(row.overrides as string) : undefined
+    };
+  }
+
+  private toJob(row: Row): ProcessingJob {
+    return {
+      id: row.id as string,
+      sessionId: row.session_id as string,
+      status: row.status as ProcessingJob['status'],
+      priority: row.priority as SessionPriority,
+      attempts: row.attempts as number,
+      maxAttempts: row.max_attempts as number,
+      stopRequested: (row.stop_requested as JobStop | null) ?? undefined,
+      leaseOwner: (row.lease_owner as string | null) ?? undefined,
+      leaseExpiresAt: this.toDate(row.lease_expires_at),
+      runAfter: new Date(row.run_after as string),
+      lastError: (row.last_error as string | null) ?? undefined,
+      createdAt: new Date(row.created_at as string),
+      updatedAt: new Date(row.updated_at as string)
+    };
+  }
+
+  private toReport(json: string): DiagnosticReport {
+    const report = JSON.parse(json);
+    return {
+      ...report,
+      createdAt: new Date(report.createdAt),
+      batchReports: report.batchReports.map((batch: { processedAt: string }) => ({ ...batch, processedAt: new Date(batch.processedAt) }))
+    };
+  }
+}
+
+/**
+ * Sessions held in this process only, for development and tests; lost on restart
+ */
+export class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, ProcessingSession>();
+  private jobs: ProcessingJob[] = [];
+
+  async createSession(session: ProcessingSession): Promise<void> {
+    if (this.sessions.has(session.id)) {
+      throw new Error(`Session ${session.id} already exists`);
+    }
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async getSession(sessionId: string): Promise<ProcessingSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async updateSession(sessionId: string, changes: SessionChanges): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      Object.assign(session, structuredClone(changes));
+    }
+  }
+
+  async updateBatch(batchId: string, changes: BatchChanges): Promise<void> {
+    for (const session of this.sessions.values()) {
+      const batch = session.batches.find(candidate => candidate.id === batchId);
+      if (batch) {
+        Object.assign(batch, structuredClone(changes));
+        return;
+      }
+    }
+  }
+
+  async updateImages(sessionId: string, imageIds: string[], changes: ImageChanges): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    // Batch members may be separate copies of the session's images
+    const images = [...session.images, ...session.batches.flatMap(batch => batch.images)];
+    images.filter(image => imageIds.includes(image.id)).forEach(image => Object.assign(image, changes));
+  }
+
+  async saveReport(report: DiagnosticReport): Promise<void> {
+    const session = this.sessions.get(report.sessionId);
+    if (session) {
+      session.report = structuredClone(report);
+    }
+  }
+
+  async enqueueJob(sessionId: string, maxAttempts: number): Promise<ProcessingJob> {
+    const pending = this.unfinished(sessionId);
+    if (pending) {
+      return { ...pending };
+    }
+
+    const now = new Date();
+    const job: ProcessingJob = {
+      id: randomUUID(),
+      sessionId,
+      priority: this.sessions.get(sessionId)?.priority ?? 'routine',
+      status: 'queued',
+      attempts: 0,
+      maxAttempts,
+      runAfter: now,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.push(job);
+    this.setSessionStatus(sessionId, 'queued');
+    return { ...job };
+  }
+
+  async claimJob(owner: string, leaseMs: number): Promise<ProcessingJob | null> {
+    const now = new Date();
+    // Jobs are kept oldest first, and the sort is stable
+    const byPriority = [...this.jobs].sort((a, b) => SessionPriorities.rank(a.priority) - SessionPriorities.rank(b.priority));
+    for (const job of byPriority) {
+      const due = job.status === 'queued' && job.runAfter <= now;
+      const expired = job.status === 'running' && job.leaseExpiresAt! <= now;
+      if (!due && !expired) {
+        continue;
+      }
+
+      if (job.stopRequested) {
+        this.halt(job, job.stopRequested, now);
+        continue;
+      }
+
+      if (job.attempts >= job.maxAttempts) {
+        const error = `Processing was interrupted ${job.attempts} times`;
+        Object.assign(job, { status: 'failed', leaseOwner: undefined, leaseExpiresAt: undefined, lastError: error, updatedAt: now });
+        this.setSessionStatus(job.sessionId, 'error', { errorMessage: error, completedAt: now });
+        continue;
+      }
+
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        leaseOwner: owner,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        updatedAt: now
+      });
+      return { ...job };
+    }
+    return null;
+  }
+
+  async hasQueuedJobAbove(priority: SessionPriority): Promise<boolean> {
+    const now = new Date();
+    return this.jobs.some(job =>
+      job.status === 'queued' && job.runAfter <= now && SessionPriorities.rank(job.priority) < SessionPriorities.rank(priority)
+    );
+  }
+
+  async renewLease(jobId: string, owner: string, leaseMs: number): Promise<ProcessingJob | null> {
+    const job = this.leased(jobId, owner);
+    if (!job) {
+      return null;
+    }
+    job.leaseExpiresAt = new Date(Date.now() + leaseMs);
+    job.updatedAt = new Date();
+    return { ...job };
+  }
+
+  async completeJob(jobId: string, owner: string): Promise<boolean> {
+    const job = this.leased(jobId, owner);
+    if (job) {
+      Object.assign(job, { status: 'completed', stopRequested: undefined, leaseOwner: undefined, leaseExpiresAt: undefined, updatedAt: new Date() });
+    }
+    return Boolean(job);
+  }
+
+  async failJob(jobId: string, owner: string, error: string, retryAt?: Date): Promise<ProcessingJob | null> {
+    const job = this.leased(jobId, owner);
+    if (!job) {
+      return null;
+    }
+
+    const retry = retryAt !== undefined && job.attempts < job.maxAttempts;
+    Object.assign(job, {
+      status: retry ? 'queued' : 'failed',
+      runAfter: retryAt ?? job.runAfter,
+      stopRequested: undefined,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
+      lastError: error,
+      updatedAt: new Date()
+    });
+    if (retry) {
+      this.setSessionStatus(job.sessionId, 'queued', { completedAt: undefined });
+    }
+    return { ...job };
+  }
+
+  async releaseJob(jobId: string, owner: string): Promise<boolean> {
+    const job = this.leased(jobId, owner);
+    if (job) {
+      Object.assign(job, {
+        status: 'queued',
+        attempts: Math.max(job.attempts - 1, 0),
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined,
+        updatedAt: new Date()
+      });
+      this.setSessionStatus(job.sessionId, 'queued');
+    }
+    return Boolean(job);
+  }
+
+  async requestStop(sessionId: string, stop: JobStop): Promise<ProcessingJob | null> {
+    const job = this.unfinished(sessionId);
+    if (!job) {
+      return null;
+    }
+
+    if (job.status === 'running') {
+      // A pause does not take back a cancel
+      job.stopRequested = job.stopRequested === 'cancel' ? 'cancel' : stop;
+      job.updatedAt = new Date();
+    } else if (job.status === 'queued' || stop === 'cancel') {
+      this.halt(job, stop, new Date());
+    }
+    return { ...job };
+  }
+
+  async stopJob(jobId: string, owner: string): Promise<boolean> {
+    const job = this.leased(jobId, owner);
+    if (!job?.stopRequested) {
+      return false;
+    }
+    this.halt(job, job.stopRequested, new Date());
+    return true;
+  }
+
+  async resumeJob(sessionId: string): Promise<ProcessingJob | null> {
+    const job = this.jobs.findLast(candidate => candidate.sessionId === sessionId && candidate.status === 'paused');
+    if (!job) {
+      return null;
+    }
+
+    const now = new Date();
+    Object.assign(job, { status: 'queued', runAfter: now, updatedAt: now });
+    this.setSessionStatus(sessionId, 'queued');
+    return { ...job };
+  }
+
+  async getJob(sessionId: string): Promise<ProcessingJob | null> {
+    const job = this.jobs.findLast(candidate => candidate.sessionId === sessionId);
+    return job ? { ...job } : null;
+  }
+
+  private leased(jobId: string, owner: string): ProcessingJob | undefined {
+    return this.jobs.find(job => job.id === jobId && job.leaseOwner === owner && job.status === 'running');
+  }
+
+  private unfinished(sessionId: string): ProcessingJob | undefined {
+    return this.jobs.findLast(job =>
+      job.sessionId === sessionId && (job.status === 'queued' || job.status === 'running' || job.status === 'paused')
+    );
+  }
+
+  private halt(job: ProcessingJob, stop: JobStop, now: Date): void {
+    Object.assign(job, {
+      status: stop === 'pause' ? 'paused' : 'cancelled',
+      stopRequested: undefined,
+      attempts: job.status === 'running' ? Math.max(job.attempts - 1, 0) : job.attempts,
+      leaseOwner: undefined,
+      leaseExpiresAt: undefined,
+      updatedAt: now
+    });
+
+    const session = this.sessions.get(job.sessionId);
+    if (!session) {
+      return;
+    }
+    session.batches.filter(batch => batch.status === 'processing').forEach(batch => {
+      Object.assign(batch, { status: 'pending', startedAt: undefined });
+    });
+    const images = [...session.images, ...session.batches.flatMap(batch => batch.images)];
+    images.filter(image => image.status === 'processing').forEach(image => {
+      image.status = 'converted';
+    });
+    Object.assign(session, {
+      status: job.status,
+      currentBatch: undefined,
+      completedAt: stop === 'cancel' ? now : undefined
+    });
+  }
+
+  private setSessionStatus(sessionId: string, status: ProcessingSession['status'], changes: SessionChanges = {}): void {
+    const session = this.sessions.get(sessionId);
+    if (session) {
+      Object.assign(session, changes, { status });
+    }
+  }
+}
+
+/**
+ * Process-wide session repository
+ */
+export class SessionStore {
+  private static shared: SessionRepository | null = null;
+
+  /**
+   * The configured repository, opened on first use
+   */
+  static getInstance(): SessionRepository {
+    if (!this.shared) {
+      this.shared = createSessionRepository();
+    }
+    return this.shared;
+  }
+}
+
+export function createSessionRepository(options: SessionStoreOptions = getSessionStoreOptions()): SessionRepository {
+  return options.driver === 'memory'
+    ? new MemorySessionRepository()
+    : new SqliteSessionRepository(options.path);
+}
+
+/**
+ * Session store from SESSION_STORE ('sqlite' or 'memory', default sqlite) and
+ * SESSION_DB_PATH (default sessions.db in the data directory)
+ */
+export function getSessionStoreOptions(): SessionStoreOptions {
+  const driver = process.env.SESSION_STORE || 'sqlite';
+  if (driver !== 'sqlite' && driver !== 'memory') {
+    throw new Error(`SESSION_STORE must be 'sqlite' or 'memory', got '${driver}'`);
+  }
+
+  return {
+    driver,
+    path: process.env.SESSION_DB_PATH || dataPath('sessions.db')
+  };
+}
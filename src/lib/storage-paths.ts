@@ -0,0 +1,9 @@
+import { join } from 'path';
+
+/**
+ * Root for state kept on this server (pseudonym map, caches, session store).
+ * Override with DATA_DIR; never served to clients.
+ */
+export function dataPath(...segments: string[]): string {
+  return join(process.env.DATA_DIR || join(process.cwd(), 'data'), ...segments);
+}
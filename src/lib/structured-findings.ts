@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { AIAnalysisRequest, AIAnalysisResponse, AIProvider } from './ai-provider';
+import { DiagnosticFinding } from '@/types/medical';
+
+export const findingSchema = z.object({
+  category: z.string().min(1),
+  severity: z.enum(['low', 'moderate', 'high', 'critical']),
+  description: z.string().min(1),
+  location: z.string().optional(),
+  laterality: z.enum(['left', 'right', 'bilateral', 'midline', 'not_applicable']).optional(),
+  confidence: z.number().min(0).max(1),
+  relatedImageIds: z.array(z.string()).default([])
+});
+
+export const structuredAnalysisSchema = z.object({
+  findings: z.array(findingSchema),
+  recommendations: z.array(z.string()),
+  urgency: z.enum(['routine', 'urgent', 'emergent']),
+  impression: z.string().optional(),
+  /** Running summary of the study so far, carried into the next batch's prompt */
+  caseSummary: z.string().optional()
+});
+
+export type StructuredFinding = z.infer<typeof findingSchema>;
+export type StructuredAnalysis = z.infer<typeof structuredAnalysisSchema>;
+
+export interface StructuredAnalysisResult {
+  /** Validated output, absent when every repair attempt failed */
+  analysis?: StructuredAnalysis;
+  /** The model's first answer, kept verbatim for audit and display */
+  rawText: string;
+  /** Validation problems of the last attempt when analysis is absent */
+  validationErrors?: string[];
+  attempts: number;
+  response: AIAnalysisResponse;
+  /** Tokens of the first answer and every repair request together */
+  usage?: AIAnalysisResponse['usage'];
+}
+
+// Follow-up requests asking the model to fix its own output
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Output contract appended to analysis prompts. Image ids are listed so findings can cite them.
+ */
+export function structuredOutputInstructions(imageIds: string[]): string {
+  return `Respond with a single JSON object and nothing else, matching this schema:
+
+{
+  "findings": [
+    {
+      "category": string,            // e.g. "pulmonary nodule", "fracture", "image quality"
+      "severity": "low" | "moderate" | "high" | "critical",
+      "description": string,
+      "location": string,            // anatomical location, optional
+      "laterality": "left" | "right" | "bilateral" | "midline" | "not_applicable",
+      "confidence": number,          // 0 to 1
+      "relatedImageIds": string[]    // ids from the list below
+    }
+  ],
+  "recommendations": string[],
+  "urgency": "routine" | "urgent" | "emergent",
+  "impression": string,              // one or two sentence overall impression, optional
+  "caseSummary": string              // the case summary you were given, updated with these images, optional
+}
+
+Use an empty findings array for a normal study. Images in order: ${imageIds.map(id => `"${id}"`).join(', ')}.`;
+}
+
+/**
+ * JSON findings from the AI provider, validated with zod and repaired on invalid output
+ */
+export class StructuredFindings {
+  /**
+   * Validate model output; tolerates code fences and prose around the JSON object
+   */
+  static parse(text: string): { analysis?: StructuredAnalysis; errors: string[] } {
+    const json = this.extractJson(text);
+    if (json === undefined) {
+      return { errors: ['Response does not contain a JSON object'] };
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      return { errors: [`Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`] };
+    }
+
+    const result = structuredAnalysisSchema.safeParse(value);
+    if (!result.success) {
+      return {
+        errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      };
+    }
+    return { analysis: result.data, errors: [] };
+  }
+
+  /**
+   * Run an analysis request and validate the answer. Invalid output is sent back to the model
+   * with the validation errors (text only, no images) until it conforms or attempts run out.
+   */
+  static async analyze(provider: AIProvider, request: AIAnalysisRequest): Promise<StructuredAnalysisResult> {
+    const response = await provider.analyze(request);
+    const rawText = response.text;
+    let parsed = this.parse(rawText);
+    let attempts = 1;
+    let lastText = rawText;
+    let usage = response.usage;
+
+    while (!parsed.analysis && attempts <= MAX_REPAIR_ATTEMPTS) {
+      const repair = await provider.analyze({
+        prompt: this.repairPrompt(request.prompt, lastText, parsed.errors),
+        images: [],
+        maxTokens: request.maxTokens,
+        temperature: 0,
+        signal: request.signal
+      });
+      attempts++;
+      lastText = repair.text;
+      usage = this.addUsage(usage, repair.usage);
+      parsed = this.parse(lastText);
+    }
+
+    return {
+      analysis: parsed.analysis,
+      rawText,
+      validationErrors: parsed.analysis ? undefined : parsed.errors,
+      attempts,
+      response,
+      usage
+    };
+  }
+
+  private static addUsage(a: AIAnalysisResponse['usage'], b: AIAnalysisResponse['usage']): AIAnalysisResponse['usage'] {
+    if (!a || !b) {
+      return a ?? b;
+    }
+    return {
+      inputTokens: a.inputTokens + b.inputTokens,
+      outputTokens: a.outputTokens + b.outputTokens,
+      ...((a.estimated || b.estimated) && { estimated: true })
+    };
+  }
+
+  /**
+   * Map validated findings onto the report's finding type
+   */
+  static toDiagnosticFindings(analysis: StructuredAnalysis): DiagnosticFinding[] {
+    return analysis.findings.map(finding => ({
+      category: finding.category,
+      severity: finding.severity,
+      description: finding.description,
+      location: finding.location,
+      laterality: finding.laterality,
+      confidence: finding.confidence,
+      relatedImages: finding.relatedImageIds
+    }));
+  }
+
+  private static repairPrompt(originalPrompt: string, invalidText: string, errors: string[]): string {
+    return `Your previous answer to the request below did not match the required JSON schema.
+
+Problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous answer:
+${invalidText}
+
+Original request:
+${originalPrompt}
+
+Return only the corrected JSON object, keeping the clinical content of the previous answer.`;
+  }
+
+  private static extractJson(text: string): string | undefined {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced ? fenced[1] : text;
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    return start !== -1 && end > start ? candidate.slice(start, end + 1) : undefined;
+  }
+}
@@ -0,0 +1,526 @@
+import * as dicomParser from 'dicom-parser';
+import type { DataSet } from 'dicom-parser';
+import JSZip from 'jszip';
+import type { Readable } from 'stream';
+import { DicomConverter } from './dicom-converter';
+
+export interface UploadedFile {
+  name: string;
+  type: string;
+  read: () => Promise<Buffer>;
+}
+
+/**
+ * A file to convert, loose or unpacked from an archive. Its bytes are read again when they
+ * are needed, so members are not all held in memory at once.
+ */
+export interface IngestedMember {
+  name: string;
+  type: string;
+  /** Bytes, unpacked */
+  size: number;
+  /** Index of the uploaded file this member came from */
+  uploadIndex: number;
+  /** Archive name when the member was unpacked from a ZIP */
+  archive?: string;
+  isDicom: boolean;
+  sopClassUid?: string;
+  read: () => Promise<Buffer>;
+}
+
+export interface RejectedMember {
+  name: string;
+  reason: string;
+}
+
+export interface DicomdirInstance {
+  fileName: string;
+  recordType: string;
+  sopClassUid?: string;
+  sopInstanceUid?: string;
+  instanceNumber?: number;
+  ingested: boolean;
+}
+
+export interface DicomdirSeries {
+  seriesInstanceUid?: string;
+  seriesNumber?: number;
+  modality?: string;
+  instances: DicomdirInstance[];
+}
+
+export interface DicomdirStudy {
+  studyInstanceUid?: string;
+  studyDate?: string;
+  studyDescription?: string;
+  accessionNumber?: string;
+  series: DicomdirSeries[];
+}
+
+export interface DicomdirPatient {
+  patientId?: string;
+  patientName?: string;
+  studies: DicomdirStudy[];
+}
+
+export interface IngestionResult {
+  members: IngestedMember[];
+  rejected: RejectedMember[];
+  patients: DicomdirPatient[];
+}
+
+interface DirectoryReference {
+  recordType: string;
+  sopClassUid?: string;
+  instance: DicomdirInstance;
+}
+
+/**
+ * Limits on everything unpacked from archives in a single upload. Members are unpacked one
+ * at a time, but the images converted from them are held until the session is stored.
+ */
+export interface ArchiveLimits {
+  maxMembers: number;
+  maxUnpackedBytes: number;
+}
+
+const DEFAULT_LIMITS: ArchiveLimits = {
+  maxMembers: 5000,
+  maxUnpackedBytes: 512 * 1024 * 1024
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff'
+};
+
+// DICOMDIR record types that reference objects carrying renderable pixel data
+const IMAGE_RECORD_TYPES = new Set(['IMAGE', 'RT DOSE', 'PRIVATE']);
+
+// Storage SOP classes without renderable pixel data (PS3.4 Annex B), matched by UID prefix
+const NON_IMAGE_SOP_CLASSES: Array<[string, string]> = [
+  ['1.2.840.10008.1.3.10', 'Media Storage Directory'],
+  ['1.2.840.10008.5.1.4.1.1.11.', 'Presentation State'],
+  ['1.2.840.10008.5.1.4.1.1.88.', 'Structured Report'],
+  ['1.2.840.10008.5.1.4.1.1.9.', 'Waveform'],
+  ['1.2.840.10008.5.1.4.1.1.66', 'Raw Data, Registration or Segmentation'],
+  ['1.2.840.10008.5.1.4.1.1.67', 'Real World Value Mapping'],
+  ['1.2.840.10008.5.1.4.1.1.104.', 'Encapsulated Document'],
+  ['1.2.840.10008.5.1.4.1.1.481.3', 'RT Structure Set'],
+  ['1.2.840.10008.5.1.4.1.1.481.4', 'RT Treatment Record'],
+  ['1.2.840.10008.5.1.4.1.1.481.5', 'RT Plan'],
+  ['1.2.840.10008.5.1.4.1.1.481.6', 'RT Treatment Record'],
+  ['1.2.840.10008.5.1.4.1.1.481.7', 'RT Treatment Summary Record'],
+  ['1.2.840.10008.5.1.4.1.1.481.8', 'RT Ion Plan'],
+  ['1.2.840.10008.5.1.4.1.1.481.9', 'RT Treatment Record'],
+  ['1.2.840.10008.5.1.4.38.', 'Hanging Protocol'],
+  ['1.2.840.10008.5.1.4.39.', 'Color Palette']
+];
+
+/**
+ * Unpacks ZIP archives and CD exports into individual DICOM or image members,
+ * using DICOMDIR records to recover the patient/study/series/instance hierarchy
+ */
+export class StudyArchive {
+  static isZipFile(buffer: Buffer): boolean {
+    // Local file header signature, or an empty archive's end-of-central-directory record
+    if (buffer.length < 4) return false;
+    const signature = buffer.readUInt32LE(0);
+    return signature === 0x04034b50 || signature === 0x06054b50;
+  }
+
+  /**
+   * Expand archives, apply any DICOMDIR found alongside the members and filter out
+   * non-image objects. Loose non-archive uploads pass through unless they are DICOM
+   * objects of a non-image SOP class.
+   */
+  static async ingest(files: UploadedFile[], limits: ArchiveLimits = DEFAULT_LIMITS): Promise<IngestionResult> {
+    const candidates: IngestedMember[] = [];
+    const rejected: RejectedMember[] = [];
+    const budget = { members: 0, bytes: 0 };
+
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const buffer = await file.read();
+      if (this.isZipFile(buffer)) {
+        try {
+          await this.expandZip(file, buffer, i, limits, budget, candidates, rejected);
+        } catch (error) {
+          rejected.push({
+            name: file.name,
+            reason: `Unreadable archive - ${error instanceof Error ? error.message : 'Unknown error'}`
+          });
+        }
+      } else {
+        candidates.push({
+          name: file.name,
+          type: file.type,
+          uploadIndex: i,
+          ...this.describe(buffer),
+          read: file.read
+        });
+      }
+    }
+
+    // DICOMDIR files index the other members and are never converted themselves
+    const directories = candidates.filter(member => this.isDicomdir(member));
+    const references = new Map<string, DirectoryReference>();
+    const patients: DicomdirPatient[] = [];
+
+    for (const directory of directories) {
+      try {
+        const basePath = this.dirname(directory.name);
+        const index = this.readDicomdir(await directory.read(), basePath);
+        patients.push(...index.patients);
+        index.references.forEach((reference, path) => references.set(path, reference));
+      } catch (error) {
+        rejected.push({
+          name: directory.name,
+          reason: `Unreadable DICOMDIR - ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      }
+    }
+
+    const members: IngestedMember[] = [];
+    const matched = new Set<DirectoryReference>();
+    const byBasename = this.indexByBasename(references);
+
+    for (const member of candidates) {
+      if (directories.includes(member)) {
+        continue;
+      }
+
+      const reference = references.get(this.normalizePath(member.name))
+        ?? byBasename.get(this.basename(member.name));
+      if (reference) {
+        matched.add(reference);
+      }
+
+      const reason = this.rejectionReason(member, reference);
+      if (reason) {
+        rejected.push({ name: member.name, reason });
+        continue;
+      }
+
+      if (reference) {
+        reference.instance.ingested = true;
+      }
+      members.push(member);
+    }
+
+    references.forEach(reference => {
+      if (!matched.has(reference)) {
+        rejected.push({ name: reference.instance.fileName, reason: 'Listed in DICOMDIR but missing from the upload' });
+      }
+    });
+
+    return { members, rejected, patients };
+  }
+
+  private static async expandZip(
+    file: UploadedFile,
+    archive: Buffer,
+    uploadIndex: number,
+    limits: ArchiveLimits,
+    budget: { members: number; bytes: number },
+    candidates: IngestedMember[],
+    rejected: RejectedMember[]
+  ): Promise<void> {
+    const zip = await JSZip.loadAsync(archive);
+    const entries: JSZip.JSZipObject[] = [];
+    zip.forEach((_, entry) => entries.push(entry));
+
+    for (const entry of entries) {
+      const name = `${file.name}/${entry.name}`;
+      const basename = this.basename(entry.name);
+
+      // Folders and resource-fork/hidden files written by desktop archivers
+      if (entry.dir || entry.name.startsWith('__MACOSX/') || basename.startsWith('.')) {
+        continue;
+      }
+
+      if (budget.members >= limits.maxMembers) {
+        rejected.push({ name, reason: `Archive member limit of ${limits.maxMembers} reached` });
+        continue;
+      }
+
+      // The declared size is checked before inflating; a member that understates it is cut
+      // off once it has unpacked past the limit
+      const remaining = limits.maxUnpackedBytes - budget.bytes;
+      const buffer = this.declaredSize(entry) > remaining ? undefined : await this.unpack(entry, remaining);
+      if (!buffer) {
+        rejected.push({ name, reason: 'Unpacked archive size limit reached' });
+        continue;
+      }
+      budget.members++;
+      budget.bytes += buffer.length;
+
+      if (this.isZipFile(buffer)) {
+        rejected.push({ name, reason: 'Nested archives are not supported' });
+        continue;
+      }
+
+      const extension = basename.includes('.') ? basename.split('.').pop()!.toLowerCase() : '';
+      // Unpacked again when converted, rather than held until then
+      candidates.push({
+        name,
+        type: IMAGE_EXTENSIONS[extension] || 'application/dicom',
+        uploadIndex,
+        archive: file.name,
+        ...this.describe(buffer),
+        read: () => entry.async('nodebuffer')
+      });
+    }
+  }
+
+  /**
+   * Uncompressed size recorded in the archive's central directory, 0 when JSZip has none
+   */
+  private static declaredSize(entry: JSZip.JSZipObject): number {
+    return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+  }
+
+  /**
+   * Inflate a member, or undefined as soon as it unpacks to more than maxBytes
+   */
+  private static unpack(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | undefined> {
+    return new Promise((resolve, reject) => {
+      const stream = entry.nodeStream('nodebuffer') as Readable;
+      const chunks: Buffer[] = [];
+      let total = 0;
+
+      stream.on('data', (chunk: Buffer) => {
+        total += chunk.length;
+        if (total > maxBytes) {
+          stream.pause();
+          stream.removeAllListeners('data');
+          stream.destroy();
+          resolve(undefined);
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+      stream.on('error', reject);
+    });
+  }
+
+  private static describe(buffer: Buffer): Pick<IngestedMember, 'size' | 'isDicom' | 'sopClassUid'> {
+    const isDicom = DicomConverter.isDicomFile(buffer);
+    return { size: buffer.length, isDicom, sopClassUid: isDicom ? this.readSopClassUid(buffer) : undefined };
+  }
+
+  private static rejectionReason(member: IngestedMember, reference?: DirectoryReference): string | undefined {
+    if (!member.isDicom) {
+      // Loose uploads keep the route's own file type validation
+      if (!member.archive || member.type.startsWith('image/')) {
+        return undefined;
+      }
+      return 'Not a DICOM object or supported image file';
+    }
+
+    const sopClassUid = reference?.sopClassUid || member.sopClassUid;
+    const nonImageClass = sopClassUid ? this.describeNonImageSopClass(sopClassUid) : undefined;
+    if (nonImageClass) {
+      return `Non-image SOP class: ${nonImageClass} (${sopClassUid})`;
+    }
+
+    if (reference && !IMAGE_RECORD_TYPES.has(reference.recordType)) {
+      return `Non-image DICOMDIR record type: ${reference.recordType}`;
+    }
+
+    return undefined;
+  }
+
+  private static describeNonImageSopClass(uid: string): string | undefined {
+    const match = NON_IMAGE_SOP_CLASSES.find(([prefix]) =>
+      prefix.endsWith('.') ? uid.startsWith(prefix) : uid === prefix || uid.startsWith(`${prefix}.`)
+    );
+    return match?.[1];
+  }
+
+  private static readSopClassUid(buffer: Buffer): string | undefined {
+    try {
+      const dataSet = dicomParser.parseDicom(buffer, { untilTag: 'x00080016' });
+      return dataSet.string('x00080016')?.trim() || dataSet.string('x00020002')?.trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static isDicomdir(member: IngestedMember): boolean {
+    if (this.basename(member.name).toUpperCase() !== 'DICOMDIR' || !member.isDicom) {
+      return false;
+    }
+    return member.sopClassUid === '1.2.840.10008.1.3.10';
+  }
+
+  /**
+   * Walk the Directory Record Sequence (0004,1220). Records link to their next sibling
+   * (0004,1400) and first child (0004,1420) by byte offset from the start of the file.
+   */
+  private static readDicomdir(
+    buffer: Buffer,
+    basePath: string
+  ): { patients: DicomdirPatient[]; references: Map<string, DirectoryReference> } {
+    const dataSet = dicomParser.parseDicom(buffer);
+    const items = dataSet.elements.x00041220?.items || [];
+    const records = new Map<number, DataSet>();
+
+    for (const item of items) {
+      if (item.dataSet) {
+        // Offsets point at the item tag, which precedes the item value by 8 bytes
+        records.set(item.dataOffset - 8, item.dataSet);
+      }
+    }
+
+    const references = new Map<string, DirectoryReference>();
+    const patients: DicomdirPatient[] = [];
+    const visited = new Set<number>();
+
+    const siblings = (offset: number | undefined): DataSet[] => {
+      const result: DataSet[] = [];
+      while (offset && records.has(offset) && !visited.has(offset)) {
+        visited.add(offset);
+        const record = records.get(offset)!;
+        result.push(record);
+        offset = record.uint32('x00041400');
+      }
+      return result;
+    };
+
+    let roots = siblings(dataSet.uint32('x00041200'));
+    let children = (record: DataSet) => siblings(record.uint32('x00041420'));
+    if (roots.length === 0) {
+      // Some writers leave the offsets zeroed; fall back to the record order
+      const linked = this.linkBySequenceOrder(items.flatMap(item => item.dataSet ? [item.dataSet] : []));
+      roots = linked.roots;
+      children = (record: DataSet) => linked.children.get(record) || [];
+    }
+
+    for (const patientRecord of roots) {
+      const patient: DicomdirPatient = {
+        patientId: this.text(patientRecord, 'x00100020'),
+        patientName: this.text(patientRecord, 'x00100010'),
+        studies: []
+      };
+      patients.push(patient);
+
+      for (const studyRecord of children(patientRecord)) {
+        const study: DicomdirStudy = {
+          studyInstanceUid: this.text(studyRecord, 'x0020000d'),
+          studyDate: this.text(studyRecord, 'x00080020'),
+          studyDescription: this.text(studyRecord, 'x00081030'),
+          accessionNumber: this.text(studyRecord, 'x00080050'),
+          series: []
+        };
+        patient.studies.push(study);
+
+        for (const seriesRecord of children(studyRecord)) {
+          const series: DicomdirSeries = {
+            seriesInstanceUid: this.text(seriesRecord, 'x0020000e'),
+            seriesNumber: seriesRecord.intString('x00200011'),
+            modality: this.text(seriesRecord, 'x00080060'),
+            instances: []
+          };
+          study.series.push(series);
+
+          for (const instanceRecord of children(seriesRecord)) {
+            const fileId = instanceRecord.string('x00041500');
+            if (!fileId) {
+              continue;
+            }
+
+            const relativePath = fileId.trim().split('\\').join('/');
+            const instance: DicomdirInstance = {
+              fileName: `${basePath}${relativePath}`,
+              recordType: this.text(instanceRecord, 'x00041430') || 'UNKNOWN',
+              sopClassUid: this.text(instanceRecord, 'x00041510'),
+              sopInstanceUid: this.text(instanceRecord, 'x00041511'),
+              instanceNumber: instanceRecord.intString('x00200013'),
+              ingested: false
+            };
+            series.instances.push(instance);
+            references.set(this.normalizePath(instance.fileName), {
+              recordType: instance.recordType,
+              sopClassUid: instance.sopClassUid,
+              instance
+            });
+          }
+        }
+      }
+    }
+
+    return { patients, references };
+  }
+
+  /**
+   * Rebuild the hierarchy from a depth-first record order (PATIENT, STUDY, SERIES, instances...)
+   */
+  private static linkBySequenceOrder(records: DataSet[]): { roots: DataSet[]; children: Map<DataSet, DataSet[]> } {
+    const levels = ['PATIENT', 'STUDY', 'SERIES'];
+    const roots: DataSet[] = [];
+    const children = new Map<DataSet, DataSet[]>();
+    const open: DataSet[] = [];
+
+    for (const record of records) {
+      const type = this.text(record, 'x00041430') || '';
+      const level = levels.includes(type) ? levels.indexOf(type) : levels.length;
+
+      open.length = Math.min(open.length, level);
+      if (level === 0) {
+        roots.push(record);
+      } else if (open.length === level) {
+        const parent = open[level - 1];
+        children.set(parent, [...(children.get(parent) || []), record]);
+      } else {
+        // Record without a parent at the expected level
+        continue;
+      }
+
+      if (level < levels.length) {
+        open[level] = record;
+      }
+    }
+
+    return { roots, children };
+  }
+
+  private static indexByBasename(references: Map<string, DirectoryReference>): Map<string, DirectoryReference> {
+    // Loose uploads lose their folders, so fall back to file names that are unique in the DICOMDIR
+    const byBasename = new Map<string, DirectoryReference>();
+    const duplicates = new Set<string>();
+
+    references.forEach((reference, path) => {
+      const basename = this.basename(path);
+      if (byBasename.has(basename)) {
+        duplicates.add(basename);
+      }
+      byBasename.set(basename, reference);
+    });
+    duplicates.forEach(basename => byBasename.delete(basename));
+
+    return byBasename;
+  }
+
+  private static text(dataSet: DataSet, tag: string): string | undefined {
+    return dataSet.string(tag)?.trim() || undefined;
+  }
+
+  private static normalizePath(path: string): string {
+    return path.replace(/\\/g, '/').replace(/^\.?\//, '').toUpperCase();
+  }
+
+  private static basename(path: string): string {
+    return this.normalizePath(path).split('/').pop() || '';
+  }
+
+  private static dirname(path: string): string {
+    const slash = path.lastIndexOf('/');
+    return slash === -1 ? '' : path.slice(0, slash + 1);
+  }
+}
@@ -0,0 +1,247 @@
+import { appendFile, mkdir, readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { dataPath } from './storage-paths';
+import { AIProviderName } from './ai-provider';
+
+export interface UsageRecord {
+  sessionId: string;
+  userId: string;
+  kind: 'batch' | 'synthesis';
+  /** 0-based, for batch requests */
+  batchIndex?: number;
+  provider: AIProviderName;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Token counts estimated because the provider reported none */
+  estimated?: boolean;
+  /** Estimated cost in USD at the configured prices */
+  cost: number;
+  recordedAt: string;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageSummary {
+  /** YYYY-MM, UTC */
+  month: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { day: string }>;
+  byUser: Array<UsageTotals & { userId: string }>;
+  bySession: Array<UsageTotals & { sessionId: string; userId: string; firstRecordedAt: string }>;
+}
+
+export interface UsageBudgetOptions {
+  /** Spend allowed per calendar month across all users, in USD; 0 for no cap */
+  monthlyBudget: number;
+  /** Spend allowed per user per calendar month, in USD; 0 for no cap */
+  userMonthlyBudget: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+  month: string;
+  spent: number;
+  userSpent: number;
+  budget: UsageBudgetOptions;
+}
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+// List prices, matched against the model id in order; AI_PRICE_*_PER_MTOK override them
+const MODEL_PRICES: Array<{ pattern: RegExp; price: ModelPrice }> = [
+  { pattern: /claude.*opus/i, price: { input: 15, output: 75 } },
+  { pattern: /claude.*haiku/i, price: { input: 0.8, output: 4 } },
+  { pattern: /claude.*sonnet/i, price: { input: 3, output: 15 } },
+  { pattern: /gpt-4o-mini/i, price: { input: 0.15, output: 0.6 } },
+  { pattern: /gpt-4o|gpt-4\.1/i, price: { input: 2.5, output: 10 } }
+];
+
+const EMPTY_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+
+/**
+ * Token usage of every AI request, appended to one JSON-lines file per month, with the
+ * rollups behind report statistics, the admin usage page and budget caps
+ */
+export class UsageLedger {
+  private static queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Price of a model: AI_PRICE_INPUT_PER_MTOK and AI_PRICE_OUTPUT_PER_MTOK when set, else
+   * the list price of a known model. Unknown models and the mock cost nothing.
+   */
+  static price(provider: AIProviderName, model: string): ModelPrice {
+    const input = process.env.AI_PRICE_INPUT_PER_MTOK;
+    const output = process.env.AI_PRICE_OUTPUT_PER_MTOK;
+    if (input || output) {
+      return { input: Number(input || 0), output: Number(output || 0) };
+    }
+    if (provider === 'mock') {
+      return { input: 0, output: 0 };
+    }
+    return MODEL_PRICES.find(entry => entry.pattern.test(model))?.price ?? { input: 0, output: 0 };
+  }
+
+  static cost(provider: AIProviderName, model: string, usage: { inputTokens: number; outputTokens: number }): number {
+    const price = this.price(provider, model);
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  }
+
+  /**
+   * Append one request's usage; the cost is computed at today's prices
+   */
+  static async record(entry: Omit<UsageRecord, 'cost' | 'recordedAt'>): Promise<UsageRecord> {
+    const record: UsageRecord = {
+      ...entry,
+      cost: this.cost(entry.provider, entry.model, entry),
+      recordedAt: new Date().toISOString()
+    };
+
+    await this.exclusive(async () => {
+      await mkdir(this.root(), { recursive: true });
+      await appendFile(this.path(record.recordedAt.slice(0, 7)), `${JSON.stringify(record)}\n`);
+    });
+    return record;
+  }
+
+  static async sessionTotals(sessionId: string): Promise<UsageTotals> {
+    const months = await this.months();
+    const records = (await Promise.all(months.map(month => this.records(month)))).flat();
+    return this.total(records.filter(record => record.sessionId === sessionId));
+  }
+
+  static async summary(month: string = this.currentMonth()): Promise<UsageSummary> {
+    const records = await this.records(month);
+
+    const group = <K extends string>(key: (record: UsageRecord) => string, name: K) =>
+      [...this.groupBy(records, key)].map(([value, group]) => ({ [name]: value, ...this.total(group) }) as UsageTotals & Record<K, string>);
+
+    return {
+      month,
+      totals: this.total(records),
+      byDay: group(record => record.recordedAt.slice(0, 10), 'day').sort((a, b) => a.day.localeCompare(b.day)),
+      byUser: group(record => record.userId, 'userId').sort((a, b) => b.cost - a.cost),
+      bySession: [...this.groupBy(records, record => record.sessionId)]
+        .map(([sessionId, group]) => ({
+          sessionId,
+          userId: group[0].userId,
+          firstRecordedAt: group[0].recordedAt,
+          ...this.total(group)
+        }))
+        .sort((a, b) => b.firstRecordedAt.localeCompare(a.firstRecordedAt))
+    };
+  }
+
+  /**
+   * Whether a user may start a new session under this month's budget caps
+   */
+  static async checkBudget(userId: string, budget: UsageBudgetOptions = getUsageBudgetOptions()): Promise<BudgetCheck> {
+    const month = this.currentMonth();
+    const records = budget.monthlyBudget || budget.userMonthlyBudget ? await this.records(month) : [];
+    const spent = this.total(records).cost;
+    const userSpent = this.total(records.filter(record => record.userId === userId)).cost;
+
+    let reason: string | undefined;
+    if (budget.monthlyBudget && spent >= budget.monthlyBudget) {
+      reason = `Monthly AI budget of $${budget.monthlyBudget.toFixed(2)} is used up ($${spent.toFixed(2)} spent in ${month})`;
+    } else if (budget.userMonthlyBudget && userSpent >= budget.userMonthlyBudget) {
+      reason = `Monthly AI budget of $${budget.userMonthlyBudget.toFixed(2)} for ${userId} is used up ($${userSpent.toFixed(2)} spent in ${month})`;
+    }
+
+    return { allowed: !reason, reason, month, spent, userSpent, budget };
+  }
+
+  static currentMonth(): string {
+    return new Date().toISOString().slice(0, 7);
+  }
+
+  static async records(month: string): Promise<UsageRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.path(month), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content.split('\n').filter(Boolean).flatMap(line => {
+      try {
+        return [JSON.parse(line) as UsageRecord];
+      } catch {
+        // A torn line from an interrupted append
+        return [];
+      }
+    });
+  }
+
+  private static async months(): Promise<string[]> {
+    const files = await readdir(this.root()).catch(() => [] as string[]);
+    return files.filter(file => /^\d{4}-\d{2}\.jsonl$/.test(file)).map(file => file.slice(0, 7));
+  }
+
+  private static total(records: UsageRecord[]): UsageTotals {
+    return records.reduce((totals, record) => ({
+      requests: totals.requests + 1,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      cost: totals.cost + record.cost
+    }), EMPTY_TOTALS);
+  }
+
+  private static groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const record of records) {
+      const value = key(record);
+      groups.set(value, [...(groups.get(value) || []), record]);
+    }
+    return groups;
+  }
+
+  private static root(): string {
+    return dataPath('usage');
+  }
+
+  private static path(month: string): string {
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      throw new Error(`Invalid month: ${month}; expected YYYY-MM`);
+    }
+    return join(this.root(), `${month}.jsonl`);
+  }
+
+  private static exclusive(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Budget caps from AI_MONTHLY_BUDGET_USD and AI_USER_MONTHLY_BUDGET_USD
+ */
+export function getUsageBudgetOptions(): UsageBudgetOptions {
+  const amount = (name: string): number => {
+    const value = Number(process.env[name] || 0);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative amount in USD`);
+    }
+    return value;
+  };
+
+  return {
+    monthlyBudget: amount('AI_MONTHLY_BUDGET_USD'),
+    userMonthlyBudget: amount('AI_USER_MONTHLY_BUDGET_USD')
+  };
+}
@@ -0,0 +1,93 @@
+import { DicomMetadata } from '@/types/medical';
+
+export interface WindowPreset {
+  id: string;
+  name: string;
+  modality: string;
+  /** Window in modality units (Hounsfield units for CT) */
+  center: number;
+  width: number;
+}
+
+/**
+ * 'auto' picks presets from modality and body part, 'stored' keeps the window stored
+ * in the file, otherwise an explicit list of preset ids
+ */
+export type WindowPresetSelection = 'auto' | 'stored' | string[];
+
+const PRESETS: WindowPreset[] = [
+  { id: 'brain', name: 'Brain', modality: 'CT', center: 40, width: 80 },
+  { id: 'subdural', name: 'Subdural', modality: 'CT', center: 75, width: 215 },
+  { id: 'stroke', name: 'Stroke', modality: 'CT', center: 40, width: 40 },
+  { id: 'temporal-bone', name: 'Temporal bone', modality: 'CT', center: 600, width: 2800 },
+  { id: 'lung', name: 'Lung', modality: 'CT', center: -600, width: 1500 },
+  { id: 'mediastinal', name: 'Mediastinal', modality: 'CT', center: 50, width: 350 },
+  { id: 'soft-tissue', name: 'Soft tissue', modality: 'CT', center: 40, width: 400 },
+  { id: 'liver', name: 'Liver', modality: 'CT', center: 30, width: 150 },
+  { id: 'bone', name: 'Bone', modality: 'CT', center: 400, width: 1800 }
+];
+
+// Body part keywords (Body Part Examined or study/series description) and their default presets
+const AUTO_PRESETS: Array<{ modality: string; keywords: RegExp; presets: string[] }> = [
+  { modality: 'CT', keywords: /\b(HEAD|BRAIN|SKULL|CEREBR)/, presets: ['brain', 'subdural', 'bone'] },
+  { modality: 'CT', keywords: /\b(CHEST|THORAX|LUNG|PULMON)/, presets: ['lung', 'mediastinal'] },
+  { modality: 'CT', keywords: /\b(ABDOMEN|ABD|PELVIS|LIVER|KIDNEY)/, presets: ['soft-tissue', 'liver'] },
+  { modality: 'CT', keywords: /(SPINE|VERTEBR)/, presets: ['bone', 'soft-tissue'] },
+  { modality: 'CT', keywords: /.*/, presets: ['soft-tissue'] }
+];
+
+/**
+ * Window preset library keyed by modality and body part
+ */
+export class WindowPresets {
+  static list(modality?: string): WindowPreset[] {
+    return modality ? PRESETS.filter(preset => preset.modality === modality.toUpperCase()) : [...PRESETS];
+  }
+
+  static get(id: string): WindowPreset | undefined {
+    return PRESETS.find(preset => preset.id === id);
+  }
+
+  /**
+   * Parse a selection from a form field or WINDOW_PRESETS, e.g. 'auto', 'stored' or 'lung,mediastinal'.
+   * Without one each frame is rendered once, with its stored window: presets multiply the
+   * images sent to the model, so they are opt-in.
+   */
+  static parseSelection(value?: string | null): WindowPresetSelection {
+    const trimmed = value?.trim();
+    if (!trimmed || trimmed === 'stored') return 'stored';
+    if (trimmed === 'auto') return 'auto';
+
+    const ids = trimmed.split(',').map(id => id.trim()).filter(Boolean);
+    const unknown = ids.filter(id => !this.get(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown window preset: ${unknown.join(', ')}`);
+    }
+    return ids;
+  }
+
+  /**
+   * Presets to render for one image. An empty list means a single rendering with the
+   * window stored in the file. Presets only apply to greyscale images of their modality.
+   */
+  static resolve(selection: WindowPresetSelection, metadata: DicomMetadata): WindowPreset[] {
+    const modality = metadata.modality?.toUpperCase();
+    const greyscale = !metadata.samplesPerPixel || metadata.samplesPerPixel === 1;
+    if (selection === 'stored' || !modality || !greyscale || metadata.photometricInterpretation === 'PALETTE COLOR') {
+      return [];
+    }
+
+    if (Array.isArray(selection)) {
+      return selection
+        .map(id => this.get(id))
+        .filter((preset): preset is WindowPreset => preset?.modality === modality);
+    }
+
+    const bodyPart = [metadata.bodyPartExamined, metadata.studyDescription, metadata.seriesDescription]
+      .filter(Boolean)
+      .join(' ')
+      .toUpperCase();
+    const match = AUTO_PRESETS.find(rule => rule.modality === modality && rule.keywords.test(bodyPart));
+    return match ? match.presets.map(id => this.get(id)!) : [];
+  }
+}
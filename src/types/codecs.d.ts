@@ -0,0 +1,54 @@
+declare module '@cornerstonejs/codec-charls' {
+  export interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned?: boolean;
+  }
+
+  export class JpegLSDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    getDecodedBuffer(): Uint8Array;
+    getFrameInfo(): FrameInfo;
+    getInterleaveMode(): number;
+    decode(): void;
+    delete(): void;
+  }
+
+  export interface CharLSModule {
+    JpegLSDecoder: typeof JpegLSDecoder;
+  }
+
+  export default function CharLS(): Promise<CharLSModule>;
+}
+
+declare module '@cornerstonejs/codec-openjpeg' {
+  export interface FrameInfo {
+    width: number;
+    height: number;
+    bitsPerSample: number;
+    componentCount: number;
+    isSigned: boolean;
+  }
+
+  export class J2KDecoder {
+    getEncodedBuffer(length: number): Uint8Array;
+    getDecodedBuffer(): Uint8Array;
+    getFrameInfo(): FrameInfo;
+    decode(): void;
+    delete(): void;
+  }
+
+  export interface OpenJPEGModule {
+    J2KDecoder: typeof J2KDecoder;
+  }
+
+  export default function OpenJPEG(): Promise<OpenJPEGModule>;
+}
+
+declare module 'jpeg-lossless-decoder-js' {
+  export class Decoder {
+    decompress(buffer: ArrayBuffer, offset?: number, length?: number): ArrayBuffer;
+  }
+}
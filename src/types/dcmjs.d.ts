@@ -0,0 +1,22 @@
+declare module 'dcmjs' {
+  export interface DictionaryEntry {
+    tag: string;
+    vr: string;
+    name: string;
+    vm: string;
+    version: string;
+  }
+
+  const dcmjs: {
+    data: {
+      DicomMetaDictionary: {
+        /** Keyed by '(gggg,eeee)', repeating groups as '(6000-60FF,3000)', private as '(gggg,"CREATOR",ee)' */
+        dictionary: Record<string, DictionaryEntry>;
+        nameMap: Record<string, DictionaryEntry>;
+        sopClassNamesByUID: Record<string, string>;
+      };
+    };
+  };
+
+  export default dcmjs;
+}
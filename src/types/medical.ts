@@ -6,14 +6,40 @@ export interface DicomMetadata {
   modality?: string;
   studyDescription?: string;
   seriesDescription?: string;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  sopInstanceUid?: string;
+  seriesNumber?: number;
   institutionName?: string;
   manufacturerModelName?: string;
+  instanceNumber?: number;
   sliceThickness?: number;
+  sliceLocation?: number;
+  bodyPartExamined?: string;
   pixelSpacing?: number[];
   imagePosition?: number[];
   imageOrientation?: number[];
   windowCenter?: number;
   windowWidth?: number;
+  /** Id of the window preset this rendering used; absent for the stored window */
+  windowPreset?: string;
+  rows?: number;
+  columns?: number;
+  transferSyntaxUid?: string;
+  numberOfFrames?: number;
+  frameIndex?: number;
+  bitsAllocated?: number;
+  bitsStored?: number;
+  samplesPerPixel?: number;
+  photometricInterpretation?: string;
+  pixelRepresentation?: number;
+  rescaleSlope?: number;
+  rescaleIntercept?: number;
+  burnedInAnnotation?: string;
+  patientIdentityRemoved?: boolean;
+  deidentificationMethod?: string;
+  /** Requested Procedure Priority: STAT, HIGH, ROUTINE, MEDIUM or LOW */
+  requestedProcedurePriority?: string;
 }
 
 export interface MedicalImage {
@@ -38,10 +64,25 @@ export interface ProcessingBatch {
   batchNumber: number;
   images: MedicalImage[];
   status: 'pending' | 'processing' | 'completed' | 'error';
+  /** Series description sent with the batch */
+  seriesContext?: string;
+  /** Prompt template selected at upload, from metadata that de-identification removes */
+  templateId?: string;
   startedAt?: Date;
   completedAt?: Date;
   aiResponse?: string;
+  /** Result returned by /api/process-batch, kept for the report */
+  result?: unknown;
   errorMessage?: string;
+  /** Set when the batch is re-run with another prompt template or model */
+  overrides?: BatchOverrides;
+}
+
+export interface BatchOverrides {
+  /** Prompt template id, used instead of the one selected from the metadata */
+  templateId?: string;
+  provider?: 'openai' | 'anthropic' | 'mock';
+  model?: string;
 }
 
 export interface DiagnosticReport {
@@ -60,6 +101,10 @@ export interface DiagnosticReport {
   processedImages: number;
   createdAt: Date;
   status: 'generating' | 'completed' | 'error';
+  /** Highest urgency of the study, from the structured output of its batches */
+  urgency?: 'routine' | 'urgent' | 'emergent';
+  /** Set when consensus reading left discordant findings */
+  requiresReview?: boolean;
 }
 
 export interface DiagnosticFinding {
@@ -67,8 +112,15 @@ export interface DiagnosticFinding {
   severity: 'low' | 'moderate' | 'high' | 'critical';
   description: string;
   location?: string;
+  laterality?: 'left' | 'right' | 'bilateral' | 'midline' | 'not_applicable';
   confidence: number;
   relatedImages: string[];
+  /** Consensus reading: share of the models that reported this finding, 0 to 1 */
+  agreement?: number;
+  /** Consensus reading: the models disagree on this finding; a radiologist must review it */
+  discordant?: boolean;
+  /** Consensus reading: models that reported the finding */
+  reportedBy?: string[];
 }
 
 export interface BatchReport {
@@ -76,17 +128,37 @@ export interface BatchReport {
   imageCount: number;
   findings: string;
   keyObservations: string[];
+  /** Urgency the model assigned to the batch; absent when its output was not structured */
+  urgency?: 'routine' | 'urgent' | 'emergent';
   processedAt: Date;
+  /** Prompt template the batch was read with */
+  promptTemplate?: { id: string; version: number };
+  /** Consensus reading outcome, when the batch was read by several models */
+  consensus?: {
+    agreement: number;
+    discordant: boolean;
+    requiresReview: boolean;
+    disagreements: string[];
+  };
 }
 
+/** Reading priority of a session, most urgent first */
+export type SessionPriority = 'stat' | 'urgent' | 'routine';
+
 export interface ProcessingSession {
   id: string;
+  /** Sessions are processed most urgent first, and each has a turnaround target */
+  priority: SessionPriority;
+  /** Who the session runs for; token usage is accounted to this user */
+  userId?: string;
+  /** Batches are read by every model in AI_CONSENSUS_MODELS */
+  consensus?: boolean;
   totalImages: number;
   processedImages: number;
   totalBatches: number;
   completedBatches: number;
   currentBatch?: number;
-  status: 'uploading' | 'converting' | 'processing' | 'completed' | 'error';
+  status: 'uploading' | 'converting' | 'queued' | 'processing' | 'paused' | 'completed' | 'cancelled' | 'error';
   startedAt: Date;
   completedAt?: Date;
   images: MedicalImage[];
@@ -126,13 +198,23 @@ export interface AIProcessingResponse {
 
 export interface ConversionResult {
   success: boolean;
-  originalPath: string;
-  convertedPath?: string;
-  thumbnailPath?: string;
+  originalFileName: string;
+  pngBuffer?: Buffer;
   metadata?: DicomMetadata;
   error?: string;
 }
 
+export interface ProcessedImage {
+  id: string;
+  originalName: string;
+  convertedPath: string;
+  base64Data: string;
+  metadata?: DicomMetadata;
+  /** Prompt template selected from the metadata before it was de-identified */
+  promptTemplateId?: string;
+  conversionStatus: 'success' | 'error';
+}
+
 export type ImageFormat = 'dicom' | 'png' | 'jpg' | 'jpeg' | 'tiff' | 'bmp';
 
 export interface FileValidationResult {